@@ -0,0 +1,159 @@
+/**
+ * 章节分析结果的统一格式
+ * 章节分析结果与json_template.txt中的chapters结构一致（chapter_title、chapter_viewpoint、chapter_keywords、arguments），
+ * 另外记录章节索引、字数、分析时间等元数据；格式变化时增加ANALYSIS_SCHEMA_VERSION，并在会话迁移中升级旧数据
+ */
+import { Argument, Chapter, ChapterAnalysisResult, Citation, CitedType } from '../types/book.types';
+
+// 当前的分析结果格式版本；没有schemaVersion的旧结果为版本1（summary、keyPoints、point/evidence论据）
+export const ANALYSIS_SCHEMA_VERSION = 2;
+
+// 引用类型，与json_template.txt一致
+export const CITED_TYPES: CitedType[] = ['书籍', '文章', '故事', '权威观点'];
+
+// 模型返回其他语言的引用类型时的对应关系
+const CITED_TYPE_ALIASES: Array<[RegExp, CitedType]> = [
+  [/^(书籍|書籍|book|livre|buch|libro|книга)/i, '书籍'],
+  [/^(文章|论文|報告|报告|article|paper|essay|report|artikel|artículo|статья|記事|논문)/i, '文章'],
+  [/^(故事|寓言|传说|story|fable|anecdote|histoire|geschichte|historia|история|物語|이야기)/i, '故事'],
+  [/^(权威观点|權威觀點|观点|authority|expert|quote|opinion|citation|autorité|experte|autoridad|мнение|専門家|전문가)/i, '权威观点']
+];
+
+/**
+ * 转换引用类型：已是规定的类型时直接使用，否则按别名对应；
+ * 都不符合时按引用来源推断，带书名号的为书籍，其他视为权威观点
+ * @param value 模型返回的引用类型
+ * @param source 引用来源
+ */
+export function normalizeCitedType(value: unknown, source: string = ''): CitedType {
+  const text = typeof value === 'string' ? value.trim() : '';
+  if ((CITED_TYPES as string[]).includes(text)) {
+    return text as CitedType;
+  }
+
+  const matched = CITED_TYPE_ALIASES.find(([pattern]) => pattern.test(text));
+  if (matched) {
+    return matched[1];
+  }
+  return /《.+》/.test(source) ? '书籍' : '权威观点';
+}
+
+/**
+ * 把案例转换为文本：早期提示词要求的案例为{description, source, impact/lesson}对象，按顺序拼接为一句
+ */
+function caseToText(value: unknown): string {
+  if (typeof value === 'string') {
+    return value.trim();
+  }
+  if (!value || typeof value !== 'object') {
+    return '';
+  }
+
+  const item = value as Record<string, unknown>;
+  const text = (key: string) => typeof item[key] === 'string' ? (item[key] as string).trim() : '';
+  const source = text('source');
+  const parts = [
+    (text('description') || text('case') || text('text')) + (source ? `（${source}）` : ''),
+    text('impact'),
+    text('lesson')
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' ') : JSON.stringify(value);
+}
+
+function normalizeCases(values: unknown): string[] {
+  return Array.isArray(values) ? values.map(caseToText).filter(Boolean) : [];
+}
+
+function normalizeCitations(values: unknown): Citation[] {
+  if (!Array.isArray(values)) {
+    return [];
+  }
+
+  return values
+    .filter(citation => citation && typeof citation === 'object')
+    .map(citation => {
+      const source = String(citation.cited_source || citation.source || '').trim();
+      return {
+        cited_source: source,
+        cited_type: normalizeCitedType(citation.cited_type || citation.type, source),
+        viewpoint: String(citation.viewpoint || citation.content || '').trim()
+      };
+    })
+    .filter(citation => citation.cited_source || citation.viewpoint);
+}
+
+/**
+ * 转换论据：论点取statement（早期格式为point），案例统一为字符串列表，引用补全cited_type；
+ * 早期格式中的evidence作为正面案例保留
+ * @param values 模型返回或旧会话中的论据
+ */
+export function normalizeArguments(values: unknown): Argument[] {
+  if (!Array.isArray(values)) {
+    return [];
+  }
+
+  return values
+    .filter(argument => argument && typeof argument === 'object')
+    .map(argument => {
+      const positiveCase = normalizeCases(argument.positive_case ?? argument.positiveCase);
+      const evidence = typeof argument.evidence === 'string' ? argument.evidence.trim() : '';
+      if (evidence && evidence !== '无证据' && !positiveCase.includes(evidence)) {
+        positiveCase.unshift(evidence);
+      }
+
+      return {
+        statement: String(argument.statement || argument.point || '').trim(),
+        positive_case: positiveCase,
+        negative_case: normalizeCases(argument.negative_case ?? argument.negativeCase),
+        citations: normalizeCitations(argument.citations)
+      };
+    })
+    .filter(argument => argument.statement && argument.statement !== '无论点');
+}
+
+/**
+ * 把模型返回的章节分析转换为统一格式
+ * @param raw 解析后的JSON
+ * @param fallbackTitle 模型未返回标题时使用的章节标题
+ */
+export function normalizeChapter(raw: unknown, fallbackTitle: string): Chapter {
+  const chapter = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const title = typeof chapter.chapter_title === 'string' ? chapter.chapter_title.trim() : '';
+  return {
+    chapter_title: title || fallbackTitle,
+    chapter_viewpoint: typeof chapter.chapter_viewpoint === 'string' ? chapter.chapter_viewpoint.trim() : '',
+    chapter_keywords: Array.isArray(chapter.chapter_keywords)
+      ? chapter.chapter_keywords.map(keyword => String(keyword).trim()).filter(Boolean)
+      : [],
+    arguments: normalizeArguments(chapter.arguments)
+  };
+}
+
+/**
+ * 分析结果中json_template.txt规定的部分，字段顺序与模板一致，不含元数据
+ * @param result 章节分析结果
+ */
+export function toTemplateChapter(result: Chapter): Chapter {
+  return {
+    chapter_title: result.chapter_title,
+    chapter_viewpoint: result.chapter_viewpoint,
+    chapter_keywords: [...result.chapter_keywords],
+    arguments: result.arguments.map(argument => ({
+      statement: argument.statement,
+      positive_case: [...argument.positive_case],
+      negative_case: [...argument.negative_case],
+      citations: argument.citations.map(citation => ({
+        cited_source: citation.cited_source,
+        cited_type: citation.cited_type,
+        viewpoint: citation.viewpoint
+      }))
+    }))
+  };
+}
+
+/**
+ * 章节分析是否失败（解析失败时保留的占位结果）
+ */
+export function isFailedAnalysis(result: ChapterAnalysisResult | null | undefined): boolean {
+  return !result || !!result.failed;
+}
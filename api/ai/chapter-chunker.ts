@@ -0,0 +1,112 @@
+/**
+ * 长章节分块
+ * 按token预算把章节正文切分为相互重叠的窗口，切分点落在句子边界上
+ */
+import { estimateTokens } from './token-estimator';
+
+// 单个分块
+export interface ChapterChunk {
+  index: number;
+  start: number; // 在章节正文中的起始字符位置
+  end: number; // 结束字符位置（不包含）
+  tokens: number; // 估算的token数量
+  text: string;
+}
+
+// 分块计划
+export interface ChunkPlan {
+  totalTokens: number; // 整章估算的token数量
+  chunkTokens: number; // 每块的token预算
+  overlapTokens: number; // 相邻分块重叠的token数量
+  chunks: ChapterChunk[];
+}
+
+// 切分单元为句子（含句末标点和换行）
+const SENTENCE_PATTERN = /[^。！？!?；;.\n]+[。！？!?；;.\n]*[”’"'）)]*/g;
+
+/**
+ * 规划章节分块
+ * @param text 章节正文
+ * @param chunkTokens 每块的token预算
+ * @param overlapTokens 相邻分块重叠的token数量
+ * @param model 模型名称，用于按模型估算token
+ * @returns 分块计划，正文不超过预算时只有一块
+ */
+export function planChunks(text: string, chunkTokens: number, overlapTokens: number, model?: string): ChunkPlan {
+  const totalTokens = estimateTokens(text, model);
+  const budget = Math.max(1, chunkTokens);
+  const overlap = Math.max(0, Math.min(overlapTokens, Math.floor(budget / 2)));
+
+  if (totalTokens <= budget) {
+    return {
+      totalTokens,
+      chunkTokens: budget,
+      overlapTokens: overlap,
+      chunks: [{ index: 0, start: 0, end: text.length, tokens: totalTokens, text }]
+    };
+  }
+
+  const units = splitUnits(text, budget, model);
+  const chunks: ChapterChunk[] = [];
+  let first = 0;
+
+  while (first < units.length) {
+    // 向后累积单元直到超出预算，至少包含一个单元
+    let last = first;
+    let tokens = units[first].tokens;
+    while (last + 1 < units.length && tokens + units[last + 1].tokens <= budget) {
+      last++;
+      tokens += units[last].tokens;
+    }
+
+    const start = units[first].start;
+    const end = units[last].end;
+    chunks.push({ index: chunks.length, start, end, tokens, text: text.substring(start, end) });
+
+    if (last + 1 >= units.length) {
+      break;
+    }
+
+    // 下一块从末尾往回数overlap个token的位置开始，保证向前推进
+    let next = last + 1;
+    let overlapped = 0;
+    while (next - 1 > first && overlapped + units[next - 1].tokens <= overlap) {
+      next--;
+      overlapped += units[next].tokens;
+    }
+    first = next;
+  }
+
+  return { totalTokens, chunkTokens: budget, overlapTokens: overlap, chunks };
+}
+
+/**
+ * 切分为句子单元，没有标点的超长文本按预算硬切
+ */
+function splitUnits(text: string, budget: number, model?: string): Array<{ start: number; end: number; tokens: number }> {
+  const units: Array<{ start: number; end: number; tokens: number }> = [];
+  const sentencePattern = new RegExp(SENTENCE_PATTERN.source, 'g');
+
+  let sentence: RegExpExecArray | null;
+  while ((sentence = sentencePattern.exec(text)) !== null) {
+    if (!sentence[0]) {
+      sentencePattern.lastIndex++;
+      continue;
+    }
+
+    const start = sentence.index;
+    const sentenceTokens = estimateTokens(sentence[0], model);
+    if (sentenceTokens <= budget) {
+      units.push({ start, end: start + sentence[0].length, tokens: sentenceTokens });
+      continue;
+    }
+
+    const step = Math.max(1, Math.floor(sentence[0].length * budget / sentenceTokens));
+    for (let offset = 0; offset < sentence[0].length; offset += step) {
+      const piece = sentence[0].substring(offset, offset + step);
+      units.push({ start: start + offset, end: start + offset + piece.length, tokens: estimateTokens(piece, model) });
+    }
+  }
+
+  return units;
+}
@@ -0,0 +1,147 @@
+/**
+ * 分析结果的输出语言
+ * 分析和总结请求可以指定输出语言，或用"auto"跟随书籍的语言；语言要求通过提示词中的{{language}}传给模型
+ */
+import { BookInfo, ChapterContent, OutputLanguage } from '../types/book.types';
+
+// 跟随书籍语言
+export const SAME_AS_BOOK = 'auto';
+
+// 未指定输出语言时使用中文，与原有行为一致
+export const DEFAULT_OUTPUT_LANGUAGE: OutputLanguage = 'zh';
+
+// 各语言在提示词中的名称
+export const OUTPUT_LANGUAGE_NAMES: Record<OutputLanguage, string> = {
+  zh: '简体中文',
+  en: '英语（English）',
+  ja: '日语（日本語）',
+  ko: '韩语（한국어）',
+  fr: '法语（Français）',
+  de: '德语（Deutsch）',
+  es: '西班牙语（Español）',
+  ru: '俄语（Русский）'
+};
+
+// 书籍元数据中的语言标记（ISO 639-1/639-2代码或语言名称）
+const LANGUAGE_ALIASES: Array<[RegExp, OutputLanguage]> = [
+  [/^(zh|chi|zho|cmn|chinese|中文|汉语|漢語)/i, 'zh'],
+  [/^(en|eng|english|英)/i, 'en'],
+  [/^(ja|jpn|japanese|日)/i, 'ja'],
+  [/^(ko|kor|korean|韩|韓)/i, 'ko'],
+  [/^(fr|fre|fra|french|法)/i, 'fr'],
+  [/^(de|ger|deu|german|德)/i, 'de'],
+  [/^(es|spa|spanish|西)/i, 'es'],
+  [/^(ru|rus|russian|俄)/i, 'ru']
+];
+
+// 判断语言时最多检查的文本长度，以及从每章取的长度（避开只有前几章是版权页、序言等其他语言内容的情况）
+const SAMPLE_LENGTH = 5000;
+const SAMPLE_LENGTH_PER_CHAPTER = 500;
+
+/**
+ * 是否为支持的输出语言（不含"auto"）
+ */
+export function isOutputLanguage(value: unknown): value is OutputLanguage {
+  return typeof value === 'string' && value in OUTPUT_LANGUAGE_NAMES;
+}
+
+/**
+ * 检查请求中的输出语言参数
+ * @returns 参数是否合法，未指定也视为合法
+ */
+export function isValidOutputLanguageParam(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || value === SAME_AS_BOOK || isOutputLanguage(value);
+}
+
+/**
+ * 把书籍元数据中的语言标记转换为输出语言
+ * @returns 输出语言，无法识别时返回null
+ */
+export function normalizeLanguage(language?: string): OutputLanguage | null {
+  const value = (language || '').trim();
+  if (!value) {
+    return null;
+  }
+  const matched = LANGUAGE_ALIASES.find(([pattern]) => pattern.test(value));
+  return matched ? matched[1] : null;
+}
+
+/**
+ * 按文字判断正文的语言：假名为日语，谚文为韩语，汉字为中文，西里尔字母为俄语；
+ * 拉丁字母无法区分具体语言，返回latin由调用方结合元数据判断
+ */
+function detectScriptLanguage(text: string): OutputLanguage | 'latin' | null {
+  const sample = text.substring(0, SAMPLE_LENGTH);
+  const count = (pattern: RegExp) => (sample.match(pattern) || []).length;
+
+  const kana = count(/[\u3040-\u30ff]/g);
+  const hangul = count(/[\uac00-\ud7af]/g);
+  const han = count(/[\u4e00-\u9fff]/g);
+  const cyrillic = count(/[\u0400-\u04ff]/g);
+  const latin = count(/[A-Za-z\u00c0-\u024f]/g);
+
+  const max = Math.max(kana + han, hangul, cyrillic, latin);
+  if (max === 0) {
+    return null;
+  }
+  if (max === kana + han) {
+    return kana > han * 0.1 ? 'ja' : 'zh';
+  }
+  if (max === hangul) {
+    return 'ko';
+  }
+  if (max === cyrillic) {
+    return 'ru';
+  }
+  return 'latin';
+}
+
+/**
+ * 从各章开头取正文片段，用于判断书籍的语言
+ * @param chapters 章节列表
+ * @returns 正文片段
+ */
+export function getLanguageSample(chapters: ChapterContent[] = []): string {
+  return chapters
+    .map(chapter => (chapter.content || '').substring(0, SAMPLE_LENGTH_PER_CHAPTER))
+    .join('\n')
+    .substring(0, SAMPLE_LENGTH);
+}
+
+/**
+ * 确定实际使用的输出语言
+ * "auto"时先按正文的文字判断（解析器在元数据缺失时默认标记为zh，不能只看元数据），
+ * 拉丁字母的正文再参考元数据区分英、法、德、西语，都无法判断时使用元数据或默认语言
+ * @param requested 请求中的输出语言，未指定时使用默认语言
+ * @param bookInfo 书籍信息
+ * @param sampleText 用于判断书籍语言的正文片段
+ * @returns 输出语言
+ */
+export function resolveOutputLanguage(requested: string | undefined, bookInfo?: BookInfo, sampleText?: string): OutputLanguage {
+  if (isOutputLanguage(requested)) {
+    return requested;
+  }
+  if (requested !== SAME_AS_BOOK) {
+    return DEFAULT_OUTPUT_LANGUAGE;
+  }
+
+  const metadataLanguage = normalizeLanguage(bookInfo?.language);
+  const scriptLanguage = sampleText ? detectScriptLanguage(sampleText) : null;
+
+  if (scriptLanguage === 'latin') {
+    return metadataLanguage && ['en', 'fr', 'de', 'es'].includes(metadataLanguage) ? metadataLanguage : 'en';
+  }
+  return scriptLanguage || metadataLanguage || DEFAULT_OUTPUT_LANGUAGE;
+}
+
+/**
+ * 构建提示词中的语言要求
+ * @param language 输出语言
+ * @returns 语言要求
+ */
+export function buildLanguageInstruction(language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE): string {
+  if (language === 'zh') {
+    return '请使用简体中文撰写所有分析内容。';
+  }
+  return `请使用${OUTPUT_LANGUAGE_NAMES[language]}撰写所有分析内容（包括观点、关键词、论据、案例、引用说明和标签），即使原文是其他语言；JSON的键名保持不变。`;
+}
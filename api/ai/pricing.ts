@@ -0,0 +1,130 @@
+/**
+ * 模型价格表
+ * 内置常见模型的公开价格，可通过环境变量AI_PRICE_TABLE（JSON）或请求参数覆盖
+ */
+
+// 模型价格（每百万token）
+export interface ModelPrice {
+  input: number; // 输入（提示词）价格
+  output: number; // 输出（回复）价格
+  currency: string; // 币种，如CNY、USD
+}
+
+// 价格表，键为模型名称
+export type PriceTable = Record<string, ModelPrice>;
+
+// 内置价格表，包含各提供商的默认模型；价格可能随官方调整而变化，以实际账单为准
+const DEFAULT_PRICE_TABLE: PriceTable = {
+  'deepseek-chat': { input: 2, output: 8, currency: 'CNY' },
+  'deepseek-reasoner': { input: 4, output: 16, currency: 'CNY' },
+  'moonshot-v1-8k': { input: 12, output: 12, currency: 'CNY' },
+  'moonshot-v1-32k': { input: 24, output: 24, currency: 'CNY' },
+  'moonshot-v1-128k': { input: 60, output: 60, currency: 'CNY' },
+  'gpt-4.1': { input: 2, output: 8, currency: 'USD' },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6, currency: 'USD' },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4, currency: 'USD' },
+  'gpt-4o-mini': { input: 0.15, output: 0.6, currency: 'USD' },
+  'gpt-4o': { input: 2.5, output: 10, currency: 'USD' },
+  'gpt-4-turbo': { input: 10, output: 30, currency: 'USD' },
+  'gpt-4': { input: 30, output: 60, currency: 'USD' },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5, currency: 'USD' },
+  'o3-mini': { input: 1.1, output: 4.4, currency: 'USD' },
+  'o4-mini': { input: 1.1, output: 4.4, currency: 'USD' },
+  'claude-3-5-haiku-latest': { input: 0.8, output: 4, currency: 'USD' },
+  'claude-3-5-haiku': { input: 0.8, output: 4, currency: 'USD' },
+  'claude-3-5-sonnet-latest': { input: 3, output: 15, currency: 'USD' },
+  'claude-3-7-sonnet-latest': { input: 3, output: 15, currency: 'USD' },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4, currency: 'USD' },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3, currency: 'USD' },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, currency: 'USD' },
+  'gemini-2.5-pro': { input: 1.25, output: 10, currency: 'USD' },
+  'qwen-turbo': { input: 0.3, output: 0.6, currency: 'CNY' },
+  'qwen-plus': { input: 0.8, output: 2, currency: 'CNY' },
+  'qwen-max': { input: 2.4, output: 9.6, currency: 'CNY' },
+  'glm-4-flash': { input: 0, output: 0, currency: 'CNY' },
+  'glm-4-air': { input: 0.5, output: 0.5, currency: 'CNY' },
+  'glm-4-plus': { input: 5, output: 5, currency: 'CNY' }
+};
+
+// 模型快照的日期或版本后缀，如gpt-4o-2024-08-06、claude-3-5-haiku-20241022、glm-4-flash-250414、gpt-4-0613
+const SNAPSHOT_SUFFIX_PATTERN = /^-(\d{4}-\d{2}-\d{2}|\d{4,8}|latest)$/;
+
+/**
+ * 合并内置价格表、环境变量和请求参数中的价格表，后者优先
+ * @param overrides 请求中提供的价格表
+ * @returns 合并后的价格表
+ */
+export function resolvePriceTable(overrides?: PriceTable): PriceTable {
+  return {
+    ...DEFAULT_PRICE_TABLE,
+    ...parsePriceTable(process.env.AI_PRICE_TABLE),
+    ...sanitizePriceTable(overrides)
+  };
+}
+
+/**
+ * 查找模型价格：优先精确匹配，其次为带日期或版本后缀的快照匹配对应模型；
+ * 不做一般的前缀匹配，避免gpt-4.1、gpt-4-32k等其他模型套用gpt-4的价格，未知模型列入unpricedModels
+ * @param model 模型名称
+ * @param priceTable 价格表
+ * @returns 模型价格，未知模型返回null
+ */
+export function getModelPrice(model: string, priceTable: PriceTable): ModelPrice | null {
+  const name = (model || '').toLowerCase();
+  let matched: string | null = null;
+
+  for (const key of Object.keys(priceTable)) {
+    const base = key.toLowerCase();
+    if (name === base) {
+      return priceTable[key];
+    }
+    if (name.startsWith(base) && SNAPSHOT_SUFFIX_PATTERN.test(name.substring(base.length))
+      && (!matched || base.length > matched.length)) {
+      matched = key;
+    }
+  }
+
+  return matched ? priceTable[matched] : null;
+}
+
+/**
+ * 计算费用
+ * @param promptTokens 输入token数量
+ * @param completionTokens 输出token数量
+ * @param price 模型价格
+ * @returns 费用（保留6位小数）
+ */
+export function calculateCost(promptTokens: number, completionTokens: number, price: ModelPrice): number {
+  const cost = (promptTokens * price.input + completionTokens * price.output) / 1000000;
+  return Math.round(cost * 1000000) / 1000000;
+}
+
+function parsePriceTable(json: string | undefined): PriceTable {
+  if (!json) {
+    return {};
+  }
+
+  try {
+    return sanitizePriceTable(JSON.parse(json));
+  } catch (error) {
+    console.warn('AI_PRICE_TABLE格式错误，已忽略:', error.message);
+    return {};
+  }
+}
+
+// 只保留输入输出价格为非负数字的条目，币种缺省为CNY
+function sanitizePriceTable(table: unknown): PriceTable {
+  if (!table || typeof table !== 'object') {
+    return {};
+  }
+
+  const result: PriceTable = {};
+  for (const [model, price] of Object.entries(table as Record<string, Partial<ModelPrice>>)) {
+    const input = Number(price?.input);
+    const output = Number(price?.output);
+    if (Number.isFinite(input) && Number.isFinite(output) && input >= 0 && output >= 0) {
+      result[model] = { input, output, currency: typeof price.currency === 'string' && price.currency ? price.currency : 'CNY' };
+    }
+  }
+  return result;
+}
@@ -0,0 +1,154 @@
+/**
+ * 提示词模板
+ * 章节分析和书籍总结的提示词由模板渲染，模板中的{{变量}}按下表替换；
+ * JSON输出格式的说明由{{outputFormat}}提供、输出语言的要求由{{language}}提供，模板中没有时自动追加到末尾，
+ * 保证返回结果能通过Schema校验并使用请求的语言
+ */
+import { PromptTemplate, PromptTemplateKind } from '../types/book.types';
+import { AnalysisType } from './providers/base-provider';
+
+// 各类模板可用的变量及说明
+export const PROMPT_TEMPLATE_VARIABLES: Record<PromptTemplateKind, Record<string, string>> = {
+  chapterAnalysis: {
+    title: '章节标题',
+    content: '章节正文（长章节分块时为当前分块）',
+    bookInfo: '书籍信息（标题、作者、出版社）',
+    part: '长章节分块时的说明，未分块时为空',
+    outputFormat: 'JSON输出格式说明',
+    language: '输出语言要求'
+  },
+  bookSummary: {
+    title: '书籍标题',
+    content: '各章节的摘要和关键点',
+    bookInfo: '书籍信息（标题、作者、出版社）',
+    outputFormat: 'JSON输出格式说明',
+    language: '输出语言要求'
+  }
+};
+
+// 模板中没有时自动追加到末尾的变量
+const APPENDED_VARIABLES = ['outputFormat', 'language'];
+
+// 模板中必须包含的变量
+const REQUIRED_VARIABLES: Record<PromptTemplateKind, string[]> = {
+  chapterAnalysis: ['content'],
+  bookSummary: ['content']
+};
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+const BUILTIN_CREATED_AT = new Date('2024-01-01T00:00:00.000Z');
+
+const CHAPTER_ANALYSIS_BASE = `
+请分析以下章节内容，并按照JSON格式返回分析结果：
+{{part}}
+章节标题：{{title}}
+章节内容：
+{{content}}
+
+{{outputFormat}}
+{{language}}
+`;
+
+// 各分析类型的补充要求
+const ANALYSIS_TYPE_NOTES: Record<AnalysisType, string> = {
+  basic: '注意：请提供基础分析，重点关注摘要和关键要点。',
+  detailed: '注意：请提供详细分析，包含完整的论点和引用。',
+  full: '注意：请提供全面深入的分析，包含所有要求的元素。'
+};
+
+const ANALYSIS_TYPE_LABELS: Record<AnalysisType, string> = {
+  basic: '基础',
+  detailed: '详细',
+  full: '完整'
+};
+
+const BOOK_SUMMARY_BASE = `
+请基于以下书籍信息和章节分析，生成完整的书籍总结：
+
+书籍信息：
+{{bookInfo}}
+
+章节分析：
+{{content}}
+
+{{outputFormat}}
+{{language}}
+`;
+
+/**
+ * 内置模板的id
+ */
+export function getBuiltinTemplateId(kind: PromptTemplateKind, analysisType: AnalysisType = 'full'): string {
+  return kind === 'chapterAnalysis' ? `builtin-chapter-${analysisType}` : 'builtin-book-summary';
+}
+
+// 内置模板：每种分析类型一个章节分析模板，外加一个书籍总结模板
+export const BUILTIN_PROMPT_TEMPLATES: PromptTemplate[] = [
+  ...(Object.keys(ANALYSIS_TYPE_NOTES) as AnalysisType[]).map(analysisType => ({
+    id: getBuiltinTemplateId('chapterAnalysis', analysisType),
+    name: `${ANALYSIS_TYPE_LABELS[analysisType]}章节分析`,
+    description: `内置的${ANALYSIS_TYPE_LABELS[analysisType]}分析提示词`,
+    kind: 'chapterAnalysis' as const,
+    content: CHAPTER_ANALYSIS_BASE + '\n' + ANALYSIS_TYPE_NOTES[analysisType],
+    builtin: true,
+    version: 1,
+    createdAt: BUILTIN_CREATED_AT,
+    updatedAt: BUILTIN_CREATED_AT
+  })),
+  {
+    id: getBuiltinTemplateId('bookSummary'),
+    name: '书籍总结',
+    description: '内置的书籍总结提示词',
+    kind: 'bookSummary',
+    content: BOOK_SUMMARY_BASE,
+    builtin: true,
+    version: 1,
+    createdAt: BUILTIN_CREATED_AT,
+    updatedAt: BUILTIN_CREATED_AT
+  }
+];
+
+/**
+ * 检查模板正文：必须包含必需的变量，不能使用未定义的变量
+ * @param kind 模板类型
+ * @param content 模板正文
+ * @returns 错误列表，没有问题时为空
+ */
+export function validateTemplateContent(kind: PromptTemplateKind, content: string): string[] {
+  if (!content || !content.trim()) {
+    return ['模板内容不能为空'];
+  }
+
+  const variables = new Set(Array.from(content.matchAll(VARIABLE_PATTERN), match => match[1]));
+  const errors = REQUIRED_VARIABLES[kind]
+    .filter(name => !variables.has(name))
+    .map(name => `缺少必需的变量 {{${name}}}`);
+
+  for (const name of variables) {
+    if (!(name in PROMPT_TEMPLATE_VARIABLES[kind])) {
+      errors.push(`未定义的变量 {{${name}}}，可用变量: ${Object.keys(PROMPT_TEMPLATE_VARIABLES[kind]).join(', ')}`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * 渲染模板：一次性替换所有变量，变量值中的{{...}}不会被再次替换；
+ * 模板中没有{{outputFormat}}或{{language}}时把对应内容追加到末尾
+ * @param template 提示词模板
+ * @param variables 变量值
+ * @returns 提示词
+ */
+export function renderPromptTemplate(template: PromptTemplate, variables: Record<string, string>): string {
+  const rendered = template.content.replace(VARIABLE_PATTERN, (match, name: string) =>
+    name in variables ? variables[name] : match
+  );
+
+  const used = new Set(Array.from(template.content.matchAll(VARIABLE_PATTERN), match => match[1]));
+  const appended = APPENDED_VARIABLES
+    .filter(name => variables[name] && !used.has(name))
+    .map(name => variables[name]);
+
+  return appended.length > 0 ? [rendered, ...appended].join('\n\n') : rendered;
+}
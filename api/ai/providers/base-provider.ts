@@ -0,0 +1,99 @@
+// AI提供者接口
+import { BookInfo, ChapterContent, ChapterAnalysisResult, BookSummary, OutputLanguage } from '../../types/book.types';
+import { ChunkPlan } from '../chapter-chunker';
+import { ResponseFormatMode } from '../structured-output';
+
+// AI提供商标识，对应ProviderRegistry中注册的提供商
+export type AIProvider = string;
+
+// 分析类型
+export type AnalysisType = 'basic' | 'detailed' | 'full';
+
+// AI配置接口
+export interface AIConfig {
+  provider: AIProvider;
+  apiKey: string;
+  baseURL: string;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  maxRetries: number;
+  retryDelay: number; // 重试的基础延迟，按指数退避加随机抖动
+  concurrency?: number; // 同时进行的请求数，未设置时使用提供商默认值
+  requestsPerMinute?: number; // 每分钟请求数上限，0表示不限制
+  tokensPerMinute?: number; // 每分钟token数上限，0表示不限制
+  responseFormat?: ResponseFormatMode; // 结构化输出方式，未设置时按提供商和模型选择
+  contextWindow?: number; // 模型上下文长度（token），未设置时按模型名推断；本地模型可通过模型发现获得
+  promptTemplates?: Partial<Record<AnalysisType | 'summary', string>>; // 各分析类型及书籍总结使用的提示词模板id，未设置时使用内置模板
+}
+
+// token用量预估
+export interface TokenUsageEstimate {
+  requests: number; // 请求次数
+  promptTokens: number; // 输入token数量
+  completionTokens: number; // 预期输出token数量
+}
+
+// 章节分析选项
+export interface ChapterAnalysisOptions {
+  bookInfo?: BookInfo; // 书籍信息，用于提示词模板中的{{bookInfo}}
+  outputLanguage?: OutputLanguage; // 分析结果的语言，默认中文
+}
+
+// 书籍总结选项
+export interface BookSummaryOptions {
+  outputLanguage?: OutputLanguage; // 总结的语言，默认中文
+}
+
+// 提供者能力说明（按当前配置的模型）
+export interface ProviderCapabilities {
+  responseFormat: ResponseFormatMode; // 使用的结构化输出方式
+  contextWindow: number; // 上下文窗口（token）
+  concurrency: number; // 同时进行的请求数，调用方可据此并行分析章节
+  requiresApiKey: boolean; // 是否需要API密钥
+}
+
+// AI提供者接口
+export interface IAIProvider {
+  readonly capabilities: ProviderCapabilities;
+
+  /**
+   * 测试API连接
+   */
+  testConnection(): Promise<boolean>;
+
+  /**
+   * 分析单个章节
+   */
+  analyzeChapter(chapter: ChapterContent, analysisType?: AnalysisType, options?: ChapterAnalysisOptions): Promise<ChapterAnalysisResult>;
+
+  /**
+   * 生成书籍总结
+   */
+  generateBookSummary(bookInfo: BookInfo, chapterAnalysis: ChapterAnalysisResult[], options?: BookSummaryOptions): Promise<BookSummary>;
+
+  /**
+   * 规划章节分块，章节不超过上下文预算时只有一块
+   */
+  planChapterChunks(chapter: ChapterContent, analysisType?: AnalysisType): ChunkPlan;
+
+  /**
+   * 预估章节分析的token用量
+   */
+  estimateChapterUsage(chapter: ChapterContent, analysisType?: AnalysisType): TokenUsageEstimate & { chunks: number };
+
+  /**
+   * 预估书籍总结的token用量
+   */
+  estimateSummaryUsage(bookInfo: BookInfo, chapters: ChapterContent[]): TokenUsageEstimate;
+
+  /**
+   * 获取配置信息
+   */
+  getConfig(): AIConfig;
+
+  /**
+   * 检查配置是否可用（需要API密钥的提供商是否已配置密钥）
+   */
+  isConfigured(): boolean;
+}
@@ -0,0 +1,113 @@
+// 对话接口适配器：把统一的对话请求转换为各提供商的接口格式
+import { AIConfig } from './base-provider';
+import { ChatMessage } from '../structured-output';
+
+// 对话请求参数
+export interface ChatOptions {
+  maxTokens: number;
+  temperature: number;
+  responseFormat?: object; // response_format参数，由structured-output构建
+}
+
+// 对话结果
+export interface ChatCompletion {
+  content: string;
+  usage?: {
+    promptTokens?: number;
+    completionTokens?: number;
+    totalTokens?: number;
+  };
+}
+
+// OpenAI兼容接口的响应
+interface OpenAIChatResponse {
+  choices?: Array<{ message?: { content?: string } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+}
+
+// Anthropic Messages接口的响应
+interface AnthropicMessagesResponse {
+  content?: Array<{ type: string; text?: string }>;
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+// 对话接口适配器
+export interface ChatAdapter {
+  endpoint: string; // 相对于baseURL的接口路径
+  buildHeaders(config: AIConfig): Record<string, string>;
+  buildPayload(config: AIConfig, messages: ChatMessage[], options: ChatOptions): Record<string, unknown>;
+  parseResponse(data: unknown): ChatCompletion;
+}
+
+/**
+ * OpenAI兼容接口（/chat/completions），DeepSeek、Kimi、通义千问、智谱、Gemini等均提供
+ */
+export const openAICompatibleAdapter: ChatAdapter = {
+  endpoint: '/chat/completions',
+
+  buildHeaders(config: AIConfig): Record<string, string> {
+    return config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {};
+  },
+
+  buildPayload(config: AIConfig, messages: ChatMessage[], options: ChatOptions): Record<string, unknown> {
+    return {
+      model: config.model,
+      messages,
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      ...(options.responseFormat ? { response_format: options.responseFormat } : {})
+    };
+  },
+
+  parseResponse(data: unknown): ChatCompletion {
+    const response = (data || {}) as OpenAIChatResponse;
+    return {
+      content: response.choices?.[0]?.message?.content || '',
+      usage: response.usage ? {
+        promptTokens: response.usage.prompt_tokens,
+        completionTokens: response.usage.completion_tokens,
+        totalTokens: response.usage.total_tokens
+      } : undefined
+    };
+  }
+};
+
+/**
+ * Anthropic Messages接口（/messages）：system消息单独传递，不支持response_format
+ */
+export const anthropicAdapter: ChatAdapter = {
+  endpoint: '/messages',
+
+  buildHeaders(config: AIConfig): Record<string, string> {
+    return {
+      'x-api-key': config.apiKey,
+      'anthropic-version': '2023-06-01'
+    };
+  },
+
+  buildPayload(config: AIConfig, messages: ChatMessage[], options: ChatOptions): Record<string, unknown> {
+    const system = messages.filter(message => message.role === 'system').map(message => message.content).join('\n\n');
+    return {
+      model: config.model,
+      messages: messages.filter(message => message.role !== 'system'),
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      ...(system ? { system } : {})
+    };
+  },
+
+  parseResponse(data: unknown): ChatCompletion {
+    const response = (data || {}) as AnthropicMessagesResponse;
+    const blocks = Array.isArray(response.content) ? response.content : [];
+    const promptTokens = response.usage?.input_tokens;
+    const completionTokens = response.usage?.output_tokens;
+    return {
+      content: blocks.filter(block => block.type === 'text').map(block => block.text || '').join(''),
+      usage: response.usage ? {
+        promptTokens,
+        completionTokens,
+        totalTokens: (promptTokens || 0) + (completionTokens || 0)
+      } : undefined
+    };
+  }
+};
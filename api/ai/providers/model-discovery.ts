@@ -0,0 +1,130 @@
+// 本地模型发现：从Ollama、llama.cpp、vLLM等本地服务获取已安装的模型及其上下文长度
+import axios from 'axios';
+import { AIConfig } from './base-provider';
+
+// 发现的模型
+export interface DiscoveredModel {
+  id: string; // 模型名称，即请求时使用的model
+  contextWindow?: number; // 上下文长度（token），服务未提供时为空
+  size?: number; // 模型文件大小（字节）
+}
+
+// 模型发现函数
+export type ModelDiscovery = (config: Pick<AIConfig, 'baseURL' | 'apiKey'>) => Promise<DiscoveredModel[]>;
+
+// 发现请求的超时时间，本地服务应很快响应
+const DISCOVERY_TIMEOUT = 10000;
+
+// Ollama未设置num_ctx时实际使用的上下文长度；OpenAI兼容接口不传递num_ctx，超出部分会被Ollama从开头截断
+const OLLAMA_DEFAULT_CONTEXT_LENGTH = 4096;
+
+// Ollama的/api/tags响应
+interface OllamaTagsResponse {
+  models?: Array<{ name?: string; model?: string; size?: number }>;
+}
+
+// Ollama的/api/show响应
+interface OllamaShowResponse {
+  model_info?: Record<string, unknown>;
+  parameters?: string;
+}
+
+// OpenAI兼容的/models响应，llama.cpp在meta中、vLLM在max_model_len中给出上下文长度
+interface OpenAIModelsResponse {
+  data?: Array<{
+    id?: string;
+    max_model_len?: number;
+    context_length?: number;
+    meta?: { n_ctx_train?: number; n_ctx?: number };
+  }>;
+}
+
+/**
+ * 去掉baseURL末尾的/v1，得到服务根地址（Ollama原生接口不在/v1下）
+ */
+function getServiceRoot(baseURL: string): string {
+  return baseURL.replace(/\/+$/, '').replace(/\/v1$/, '');
+}
+
+/**
+ * 构建请求头，本地服务通常不需要密钥，设置了反向代理鉴权时携带
+ */
+function buildHeaders(apiKey?: string): Record<string, string> {
+  return apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {};
+}
+
+/**
+ * 发现OpenAI兼容服务的模型（GET {baseURL}/models）
+ * @param config AI配置中的地址和密钥
+ * @returns 模型列表
+ */
+export const discoverOpenAICompatibleModels: ModelDiscovery = async (config) => {
+  const response = await axios.get<OpenAIModelsResponse>(`${config.baseURL.replace(/\/+$/, '')}/models`, {
+    headers: buildHeaders(config.apiKey),
+    timeout: DISCOVERY_TIMEOUT
+  });
+
+  return (response.data?.data || [])
+    .filter(model => model.id)
+    .map(model => ({
+      id: model.id,
+      contextWindow: model.max_model_len || model.context_length || model.meta?.n_ctx || model.meta?.n_ctx_train || undefined
+    }));
+};
+
+/**
+ * 发现Ollama已安装的模型（GET /api/tags），并通过/api/show读取上下文长度；
+ * 原生接口不可用时退回OpenAI兼容的/v1/models
+ * @param config AI配置中的地址和密钥
+ * @returns 模型列表
+ */
+export const discoverOllamaModels: ModelDiscovery = async (config) => {
+  const root = getServiceRoot(config.baseURL);
+  const headers = buildHeaders(config.apiKey);
+
+  let tags: OllamaTagsResponse;
+  try {
+    tags = (await axios.get<OllamaTagsResponse>(`${root}/api/tags`, { headers, timeout: DISCOVERY_TIMEOUT })).data;
+  } catch (error) {
+    console.warn(`⚠️ [模型发现] Ollama /api/tags 请求失败，改用/v1/models: ${error.message}`);
+    return discoverOpenAICompatibleModels({ ...config, baseURL: `${root}/v1` });
+  }
+
+  const models = (tags?.models || []).filter(model => model.name || model.model);
+  return Promise.all(models.map(async model => {
+    const id = model.name || model.model;
+    return {
+      id,
+      contextWindow: await getOllamaContextWindow(root, id, headers),
+      size: model.size
+    };
+  }));
+};
+
+/**
+ * Ollama服务的默认运行上下文长度：环境变量OLLAMA_CONTEXT_LENGTH（与Ollama服务的设置一致），默认4096
+ */
+export function getOllamaRuntimeContextLength(): number {
+  return parseInt(process.env.OLLAMA_CONTEXT_LENGTH || '') || OLLAMA_DEFAULT_CONTEXT_LENGTH;
+}
+
+/**
+ * 读取Ollama模型实际可用的上下文长度：Modelfile中的num_ctx，未设置时为Ollama的默认运行上下文，
+ * 都不超过模型支持的长度（model_info中的<架构>.context_length），因为超出运行上下文的提示词会被Ollama截断
+ * @returns 上下文长度，读取失败时返回undefined
+ */
+async function getOllamaContextWindow(root: string, model: string, headers: Record<string, string>): Promise<number | undefined> {
+  try {
+    const { data } = await axios.post<OllamaShowResponse>(`${root}/api/show`, { model }, { headers, timeout: DISCOVERY_TIMEOUT });
+
+    const contextKey = Object.keys(data?.model_info || {}).find(key => key.endsWith('.context_length'));
+    const modelContext = contextKey ? Number(data.model_info[contextKey]) || undefined : undefined;
+    const numCtxMatch = (data?.parameters || '').match(/^\s*num_ctx\s+(\d+)/m);
+    const runtimeContext = numCtxMatch ? parseInt(numCtxMatch[1]) : getOllamaRuntimeContextLength();
+
+    return modelContext ? Math.min(modelContext, runtimeContext) : runtimeContext;
+  } catch (error) {
+    console.warn(`⚠️ [模型发现] 读取Ollama模型 ${model} 的信息失败: ${error.message}`);
+    return undefined;
+  }
+}
@@ -0,0 +1,276 @@
+// AI提供商注册表
+import { IncomingHttpHeaders } from 'http';
+import { AIConfig, AIProvider, IAIProvider } from './base-provider';
+import { ChatAdapter, openAICompatibleAdapter, anthropicAdapter } from './chat-adapters';
+import { DiscoveredModel, ModelDiscovery, discoverOllamaModels, discoverOpenAICompatibleModels, getOllamaRuntimeContextLength } from './model-discovery';
+import { RateLimits } from '../request-scheduler';
+import { ResponseFormatMode } from '../structured-output';
+import { UniversalAIProvider } from '../universal-provider';
+
+// 提供商定义
+export interface ProviderDefinition {
+  name: AIProvider;
+  label: string;
+  defaults: Omit<AIConfig, 'apiKey' | 'provider'>; // 默认配置
+  rateLimits: RateLimits; // 默认速率限制，可在AI配置中覆盖
+  requiresApiKey: boolean;
+  adapter: ChatAdapter; // 对话接口格式
+  responseFormat: (model: string) => ResponseFormatMode; // 按模型选择默认的结构化输出方式
+  discoverModels?: ModelDiscovery; // 获取服务上可用的模型，本地服务提供
+  contextWindow?: () => number; // AI配置未设置上下文长度时使用，优先于按模型名推断；用于运行上下文小于模型支持长度的本地服务
+}
+
+// 各提供商通用的默认参数
+const COMMON_DEFAULTS = {
+  maxTokens: 4000,
+  temperature: 0.7,
+  maxRetries: 3,
+  retryDelay: 1000
+};
+
+// 支持json_schema结构化输出的OpenAI模型，其余OpenAI模型使用json_object
+const JSON_SCHEMA_MODEL_PATTERN = /^(gpt-4o|gpt-4\.1|o\d)/i;
+// 不支持response_format的旧模型
+const TEXT_ONLY_MODEL_PATTERN = /^gpt-4(-\d{4}|-32k)?$/i;
+
+export class ProviderRegistry {
+  private static providers: Map<AIProvider, ProviderDefinition> = new Map();
+  private static defaultProvider: IAIProvider | null = null;
+
+  static {
+    ProviderRegistry.registerProvider({
+      name: 'deepseek',
+      label: 'DeepSeek',
+      defaults: { baseURL: 'https://api.deepseek.com', model: 'deepseek-chat', ...COMMON_DEFAULTS },
+      rateLimits: { concurrency: 5, requestsPerMinute: 60, tokensPerMinute: 0 },
+      requiresApiKey: true,
+      adapter: openAICompatibleAdapter,
+      responseFormat: () => 'json_object'
+    });
+
+    ProviderRegistry.registerProvider({
+      name: 'kimi',
+      label: 'Kimi',
+      defaults: { baseURL: 'https://api.moonshot.cn/v1', model: 'moonshot-v1-8k', ...COMMON_DEFAULTS },
+      rateLimits: { concurrency: 3, requestsPerMinute: 20, tokensPerMinute: 32000 },
+      requiresApiKey: true,
+      adapter: openAICompatibleAdapter,
+      responseFormat: () => 'json_object'
+    });
+
+    ProviderRegistry.registerProvider({
+      name: 'openai',
+      label: 'OpenAI',
+      defaults: { baseURL: 'https://api.openai.com/v1', model: 'gpt-3.5-turbo', ...COMMON_DEFAULTS },
+      rateLimits: { concurrency: 5, requestsPerMinute: 500, tokensPerMinute: 60000 },
+      requiresApiKey: true,
+      adapter: openAICompatibleAdapter,
+      responseFormat: (model: string) => {
+        if (JSON_SCHEMA_MODEL_PATTERN.test(model)) {
+          return 'json_schema';
+        }
+        return TEXT_ONLY_MODEL_PATTERN.test(model) ? 'text' : 'json_object';
+      }
+    });
+
+    ProviderRegistry.registerProvider({
+      name: 'anthropic',
+      label: 'Anthropic Claude',
+      defaults: { baseURL: 'https://api.anthropic.com/v1', model: 'claude-3-5-haiku-latest', ...COMMON_DEFAULTS },
+      rateLimits: { concurrency: 3, requestsPerMinute: 50, tokensPerMinute: 40000 },
+      requiresApiKey: true,
+      adapter: anthropicAdapter,
+      responseFormat: () => 'text'
+    });
+
+    ProviderRegistry.registerProvider({
+      name: 'gemini',
+      label: 'Google Gemini',
+      defaults: { baseURL: 'https://generativelanguage.googleapis.com/v1beta/openai', model: 'gemini-2.0-flash', ...COMMON_DEFAULTS },
+      rateLimits: { concurrency: 3, requestsPerMinute: 15, tokensPerMinute: 1000000 },
+      requiresApiKey: true,
+      adapter: openAICompatibleAdapter,
+      responseFormat: () => 'json_schema'
+    });
+
+    ProviderRegistry.registerProvider({
+      name: 'qwen',
+      label: '通义千问',
+      defaults: { baseURL: 'https://dashscope.aliyuncs.com/compatible-mode/v1', model: 'qwen-plus', ...COMMON_DEFAULTS },
+      rateLimits: { concurrency: 5, requestsPerMinute: 300, tokensPerMinute: 0 },
+      requiresApiKey: true,
+      adapter: openAICompatibleAdapter,
+      responseFormat: () => 'json_object'
+    });
+
+    ProviderRegistry.registerProvider({
+      name: 'zhipu',
+      label: '智谱GLM',
+      defaults: { baseURL: 'https://open.bigmodel.cn/api/paas/v4', model: 'glm-4-flash', ...COMMON_DEFAULTS },
+      rateLimits: { concurrency: 3, requestsPerMinute: 60, tokensPerMinute: 0 },
+      requiresApiKey: true,
+      adapter: openAICompatibleAdapter,
+      responseFormat: () => 'json_object'
+    });
+
+    // 本地模型：不需要API密钥，同一时间只处理一个请求，不限制速率
+    ProviderRegistry.registerProvider({
+      name: 'ollama',
+      label: 'Ollama',
+      defaults: { baseURL: 'http://localhost:11434/v1', model: 'qwen2.5:7b', ...COMMON_DEFAULTS },
+      rateLimits: { concurrency: 1, requestsPerMinute: 0, tokensPerMinute: 0 },
+      requiresApiKey: false,
+      adapter: openAICompatibleAdapter,
+      responseFormat: () => 'json_object',
+      discoverModels: discoverOllamaModels,
+      contextWindow: getOllamaRuntimeContextLength
+    });
+
+    ProviderRegistry.registerProvider({
+      name: 'custom-openai-compatible',
+      label: '自定义OpenAI兼容接口',
+      defaults: { baseURL: 'http://localhost:8080/v1', model: 'local-model', ...COMMON_DEFAULTS },
+      rateLimits: { concurrency: 1, requestsPerMinute: 0, tokensPerMinute: 0 },
+      requiresApiKey: false,
+      adapter: openAICompatibleAdapter,
+      responseFormat: () => 'json_object',
+      discoverModels: discoverOpenAICompatibleModels
+    });
+  }
+
+  /**
+   * 注册提供商，同名提供商会被覆盖
+   */
+  static registerProvider(definition: ProviderDefinition): void {
+    ProviderRegistry.providers.set(definition.name, definition);
+  }
+
+  /**
+   * 获取提供商定义
+   */
+  static getProvider(name: AIProvider): ProviderDefinition | null {
+    return ProviderRegistry.providers.get(name) || null;
+  }
+
+  /**
+   * 获取所有提供商定义
+   */
+  static getProviders(): ProviderDefinition[] {
+    return Array.from(ProviderRegistry.providers.values());
+  }
+
+  /**
+   * 获取提供商的默认配置
+   */
+  static getDefaultConfig(name: AIProvider): Omit<AIConfig, 'apiKey'> | null {
+    const definition = ProviderRegistry.getProvider(name);
+    return definition ? { provider: definition.name, ...definition.defaults } : null;
+  }
+
+  /**
+   * 创建AI提供者实例
+   * @param config AI配置
+   * @returns AI提供者实例
+   */
+  static createProvider(config: AIConfig): IAIProvider {
+    const definition = ProviderRegistry.getProvider(config.provider);
+    if (!definition) {
+      throw new Error(`不支持的AI提供商: ${config.provider}`);
+    }
+    return new UniversalAIProvider({ ...definition.defaults, ...config }, definition);
+  }
+
+  /**
+   * 获取默认AI提供者：请求未携带AI配置时使用，按环境变量AI_PROVIDER选择提供商（默认deepseek），
+   * 配置读取AI_*环境变量，DeepSeek兼容原有的DEEPSEEK_*环境变量
+   */
+  static getDefaultProvider(): IAIProvider {
+    if (!ProviderRegistry.defaultProvider) {
+      const definition = ProviderRegistry.getProvider(process.env.AI_PROVIDER || 'deepseek') || ProviderRegistry.getProvider('deepseek');
+      const env = (key: string): string | undefined =>
+        process.env[`AI_${key}`] || (definition.name === 'deepseek' ? process.env[`DEEPSEEK_${key}`] : undefined);
+
+      const config: AIConfig = {
+        provider: definition.name,
+        ...definition.defaults,
+        apiKey: env('API_KEY') || '',
+        baseURL: env('BASE_URL') || definition.defaults.baseURL,
+        model: env('MODEL') || definition.defaults.model,
+        maxTokens: parseInt(process.env.MAX_TOKENS || String(definition.defaults.maxTokens)),
+        temperature: parseFloat(process.env.TEMPERATURE || String(definition.defaults.temperature)),
+        maxRetries: parseInt(process.env.MAX_RETRIES || String(definition.defaults.maxRetries)),
+        retryDelay: parseInt(process.env.RETRY_DELAY || String(definition.defaults.retryDelay)),
+        responseFormat: env('RESPONSE_FORMAT') as ResponseFormatMode | undefined,
+        contextWindow: parseInt(env('CONTEXT_WINDOW') || '') || undefined
+      };
+
+      if (definition.requiresApiKey && !config.apiKey) {
+        console.warn(`${definition.label} API密钥未配置，未携带AI配置的请求将无法进行AI分析`);
+      }
+      ProviderRegistry.defaultProvider = ProviderRegistry.createProvider(config);
+    }
+    return ProviderRegistry.defaultProvider;
+  }
+
+  /**
+   * 按请求的AI配置创建提供者，未携带配置时使用默认提供者
+   */
+  static resolveProvider(config: AIConfig | null): IAIProvider {
+    return config ? ProviderRegistry.createProvider(config) : ProviderRegistry.getDefaultProvider();
+  }
+
+  /**
+   * 获取服务上可用的模型，未提供模型发现的提供商返回null
+   * @param config AI配置，只需要提供商和地址（需要时加上密钥）
+   * @returns 模型列表
+   */
+  static async discoverModels(config: Pick<AIConfig, 'provider' | 'baseURL'> & Partial<AIConfig>): Promise<DiscoveredModel[] | null> {
+    const definition = ProviderRegistry.getProvider(config.provider);
+    if (!definition?.discoverModels) {
+      return null;
+    }
+    return definition.discoverModels({
+      baseURL: config.baseURL || definition.defaults.baseURL,
+      apiKey: config.apiKey || ''
+    });
+  }
+
+  /**
+   * 获取AI配置缺少的必填字段，不需要API密钥的提供商不检查apiKey
+   */
+  static getMissingFields(config: Partial<AIConfig>): string[] {
+    const definition = config.provider ? ProviderRegistry.getProvider(config.provider) : null;
+    const requiredFields: Array<keyof AIConfig> = ['provider', 'baseURL', 'model'];
+    if (!definition || definition.requiresApiKey) {
+      requiredFields.splice(1, 0, 'apiKey');
+    }
+    return requiredFields.filter(field => !config[field]);
+  }
+
+  /**
+   * 从请求头解析AI配置
+   * @param headers 请求头
+   * @returns AI配置或null
+   */
+  static parseConfigFromHeaders(headers: IncomingHttpHeaders): AIConfig | null {
+    try {
+      const configHeader = headers['x-ai-config'];
+      if (!configHeader) {
+        return null;
+      }
+
+      const config = JSON.parse(Buffer.from(String(configHeader), 'base64').toString('utf-8'));
+
+      // 验证配置完整性
+      if (!ProviderRegistry.getProvider(config.provider) || ProviderRegistry.getMissingFields(config).length > 0) {
+        console.warn('AI配置不完整:', { ...config, apiKey: config.apiKey ? '***' : undefined });
+        return null;
+      }
+
+      return config;
+    } catch (error) {
+      console.error('解析AI配置失败:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * AI请求调度器
+ * 按提供商限制同时进行的请求数、每分钟请求数（RPM）和每分钟token数（TPM），
+ * 收到429时按Retry-After暂停该提供商的所有请求
+ */
+
+// 速率限制
+export interface RateLimits {
+  concurrency: number; // 同时进行的请求数
+  requestsPerMinute: number; // 每分钟请求数，0表示不限制
+  tokensPerMinute: number; // 每分钟token数（提示词加最大回复长度），0表示不限制
+}
+
+// 统计窗口（毫秒）
+const WINDOW_MS = 60000;
+
+interface PendingRequest {
+  tokens: number;
+  resolve: () => void;
+}
+
+export class RequestScheduler {
+  // 同一提供商（按key区分）的所有提供者实例共享一个调度器
+  private static schedulers: Map<string, RequestScheduler> = new Map();
+
+  private limits: RateLimits;
+  private active = 0;
+  private window: Array<{ time: number; tokens: number }> = [];
+  private queue: PendingRequest[] = [];
+  private pausedUntil = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(limits: RateLimits) {
+    this.limits = limits;
+  }
+
+  /**
+   * 获取共享的调度器，已存在时更新其速率限制
+   * @param key 提供商标识，如提供商、接口地址和模型的组合
+   * @param limits 速率限制
+   */
+  static for(key: string, limits: RateLimits): RequestScheduler {
+    let scheduler = RequestScheduler.schedulers.get(key);
+    if (!scheduler) {
+      scheduler = new RequestScheduler(limits);
+      RequestScheduler.schedulers.set(key, scheduler);
+    } else {
+      scheduler.limits = limits;
+    }
+    return scheduler;
+  }
+
+  /**
+   * 在速率限制内执行请求
+   * @param tokens 本次请求计入TPM的token数量
+   * @param task 发送请求的函数
+   */
+  async schedule<T>(tokens: number, task: () => Promise<T>): Promise<T> {
+    await new Promise<void>(resolve => {
+      this.queue.push({ tokens, resolve });
+      this.drain();
+    });
+
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      this.drain();
+    }
+  }
+
+  /**
+   * 暂停发送新请求直到指定时间（如429响应的Retry-After）
+   */
+  pauseUntil(time: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, time);
+    this.drain();
+  }
+
+  getLimits(): RateLimits {
+    return this.limits;
+  }
+
+  /**
+   * 按先后顺序放行排队的请求，遇到需要等待的请求时设置定时器后再试
+   */
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    while (this.queue.length > 0) {
+      const wait = this.getWaitTime(this.queue[0].tokens);
+      if (wait === null) {
+        // 并发已满，等待请求完成后再放行
+        return;
+      }
+      if (wait > 0) {
+        this.timer = setTimeout(() => {
+          this.timer = null;
+          this.drain();
+        }, wait + 1);
+        return;
+      }
+
+      const next = this.queue.shift();
+      this.active++;
+      this.window.push({ time: Date.now(), tokens: next.tokens });
+      next.resolve();
+    }
+  }
+
+  /**
+   * 计算请求需要等待的时间（毫秒），并发已满时返回null
+   */
+  private getWaitTime(tokens: number): number | null {
+    const now = Date.now();
+    this.window = this.window.filter(entry => now - entry.time < WINDOW_MS);
+
+    if (this.active >= Math.max(1, this.limits.concurrency)) {
+      return null;
+    }
+    if (now < this.pausedUntil) {
+      return this.pausedUntil - now;
+    }
+
+    // RPM：等到足够早的请求移出窗口
+    const { requestsPerMinute, tokensPerMinute } = this.limits;
+    if (requestsPerMinute > 0 && this.window.length >= requestsPerMinute) {
+      return this.window[this.window.length - requestsPerMinute].time + WINDOW_MS - now;
+    }
+
+    // TPM：窗口为空时放行，避免超出预算的单个大请求永远等待
+    if (tokensPerMinute > 0 && this.window.length > 0) {
+      let used = this.window.reduce((sum, entry) => sum + entry.tokens, 0);
+      for (const entry of this.window) {
+        if (used + tokens <= tokensPerMinute) {
+          break;
+        }
+        used -= entry.tokens;
+        if (used + tokens <= tokensPerMinute || used === 0) {
+          return entry.time + WINDOW_MS - now;
+        }
+      }
+    }
+
+    return 0;
+  }
+}
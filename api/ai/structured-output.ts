@@ -0,0 +1,206 @@
+/**
+ * 结构化输出
+ * 为支持的模型设置response_format（json_object / json_schema），按JSON Schema校验AI返回的结果，
+ * 不符合时把校验错误发回给模型要求修正
+ */
+import Ajv from 'ajv';
+import { CITED_TYPES } from './analysis-schema';
+
+// 对话消息
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// 结构化输出方式：json_schema按Schema约束输出，json_object只保证输出JSON，text不设置response_format
+export type ResponseFormatMode = 'json_schema' | 'json_object' | 'text';
+
+// 需要校验的响应类型
+export type ResponseSchemaName = 'chapterAnalysis' | 'bookSummary';
+
+// 不符合Schema时重新请求的最大次数
+export const MAX_SCHEMA_REPAIRS = 2;
+
+// 校验错误最多发回给模型的条数
+const MAX_REPORTED_ERRORS = 10;
+
+const stringArray = { type: 'array', items: { type: 'string' } };
+
+/**
+ * 章节分析结果的Schema，对应json_template.txt中chapters的单个章节
+ */
+const CHAPTER_ANALYSIS_SCHEMA = {
+  type: 'object',
+  required: ['chapter_title', 'chapter_viewpoint', 'chapter_keywords', 'arguments'],
+  properties: {
+    chapter_title: { type: 'string' },
+    chapter_viewpoint: { type: 'string', minLength: 1 },
+    chapter_keywords: stringArray,
+    arguments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['statement', 'positive_case', 'negative_case', 'citations'],
+        properties: {
+          statement: { type: 'string', minLength: 1 },
+          positive_case: stringArray,
+          negative_case: stringArray,
+          citations: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['cited_source', 'cited_type', 'viewpoint'],
+              properties: {
+                cited_source: { type: 'string' },
+                cited_type: { type: 'string', enum: CITED_TYPES },
+                viewpoint: { type: 'string' }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+};
+
+/**
+ * 书籍总结的Schema，对应BookSummary中由AI生成的字段
+ */
+const BOOK_SUMMARY_SCHEMA = {
+  type: 'object',
+  required: ['book_intro', 'author_intro', 'structure', 'core_problem', 'keyInsights', 'core_keywords', 'tags'],
+  properties: {
+    book_intro: { type: 'string', minLength: 1 },
+    author_intro: { type: 'string' },
+    structure: { type: 'string' },
+    core_problem: { type: 'string' },
+    keyInsights: stringArray,
+    core_keywords: { type: 'object', additionalProperties: { type: 'string' } },
+    tags: stringArray
+  }
+};
+
+export const RESPONSE_SCHEMAS: Record<ResponseSchemaName, object> = {
+  chapterAnalysis: CHAPTER_ANALYSIS_SCHEMA,
+  bookSummary: BOOK_SUMMARY_SCHEMA
+};
+
+const SCHEMA_LABELS: Record<ResponseSchemaName, string> = {
+  chapterAnalysis: '章节分析',
+  bookSummary: '书籍总结'
+};
+
+const ajv = new Ajv({ allErrors: true });
+const validators = {
+  chapterAnalysis: ajv.compile(CHAPTER_ANALYSIS_SCHEMA),
+  bookSummary: ajv.compile(BOOK_SUMMARY_SCHEMA)
+};
+
+/**
+ * 构建请求的response_format参数
+ * @param mode 结构化输出方式
+ * @param schemaName 响应类型
+ * @returns response_format参数，text方式返回undefined
+ */
+export function buildResponseFormat(mode: ResponseFormatMode, schemaName: ResponseSchemaName): object | undefined {
+  if (mode === 'json_schema') {
+    return {
+      type: 'json_schema',
+      json_schema: {
+        name: schemaName,
+        schema: RESPONSE_SCHEMAS[schemaName],
+        strict: false // core_keywords是任意键的字典，无法满足strict模式的要求
+      }
+    };
+  }
+  if (mode === 'json_object') {
+    return { type: 'json_object' };
+  }
+  return undefined;
+}
+
+/**
+ * 从响应中提取JSON对象并解析，不做任何修复
+ * @param response AI返回的文本
+ * @returns 解析结果
+ */
+export function parseJsonResponse(response: string): unknown {
+  const jsonMatch = response.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error('响应中未找到有效的JSON格式');
+  }
+  return JSON.parse(jsonMatch[0]);
+}
+
+/**
+ * 校验AI返回的结果
+ * @param schemaName 响应类型
+ * @param response AI返回的文本
+ * @returns 错误列表，符合Schema时为空
+ */
+export function validateResponse(schemaName: ResponseSchemaName, response: string): string[] {
+  let data: unknown;
+  try {
+    data = parseJsonResponse(response);
+  } catch (error) {
+    return [`JSON解析失败: ${error.message}`];
+  }
+
+  const validate = validators[schemaName];
+  if (validate(data)) {
+    return [];
+  }
+  return (validate.errors || []).map(error => `${error.instancePath || '/'} ${error.message}`);
+}
+
+/**
+ * 发送需要结构化输出的请求：结果不符合Schema时把校验错误发回给模型要求修正，
+ * 超过重试次数后返回最后一次的结果，由调用方按原有方式尽量解析
+ * @param send 发送对话并返回回复文本的函数
+ * @param prompt 提示词
+ * @param schemaName 响应类型
+ * @param maxRepairs 最大重新请求次数
+ * @returns AI返回的文本
+ */
+export async function requestStructuredResponse(
+  send: (messages: ChatMessage[]) => Promise<string>,
+  prompt: string,
+  schemaName: ResponseSchemaName,
+  maxRepairs: number = MAX_SCHEMA_REPAIRS
+): Promise<string> {
+  const messages: ChatMessage[] = [{ role: 'user', content: prompt }];
+  let response = await send(messages);
+
+  for (let repair = 1; ; repair++) {
+    const errors = validateResponse(schemaName, response);
+    if (errors.length === 0) {
+      return response;
+    }
+
+    if (repair > maxRepairs) {
+      console.warn(`⚠️ [结构化输出] ${SCHEMA_LABELS[schemaName]}结果仍不符合JSON结构，使用备用解析:`, errors);
+      return response;
+    }
+
+    console.warn(`⚠️ [结构化输出] ${SCHEMA_LABELS[schemaName]}结果不符合JSON结构，第 ${repair}/${maxRepairs} 次要求修正:`, errors);
+    messages.push(
+      { role: 'assistant', content: response },
+      { role: 'user', content: buildRepairPrompt(errors) }
+    );
+    response = await send(messages);
+  }
+}
+
+/**
+ * 构建要求模型修正输出的提示词
+ */
+function buildRepairPrompt(errors: string[]): string {
+  const reported = errors.slice(0, MAX_REPORTED_ERRORS);
+  const more = errors.length > reported.length ? `\n（另有${errors.length - reported.length}处错误未列出）` : '';
+  return `
+你返回的结果不符合要求的JSON结构，校验错误如下：
+${reported.map(error => `- ${error}`).join('\n')}${more}
+
+请按照最初要求的JSON格式修正上述问题，只返回完整的JSON，不要包含其他内容。
+`;
+}
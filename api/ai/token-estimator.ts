@@ -0,0 +1,99 @@
+/**
+ * Token估算工具
+ * 不依赖具体模型的分词器，按字符类别和各模型分词器的经验比例近似估算token数量，用于分块和费用预估
+ */
+
+// 分词器近似参数
+export interface TokenizerProfile {
+  cjkTokens: number; // 每个中日韩字符的token数
+  lettersPerToken: number; // 英文单词每多少个字母约1个token
+  digitsPerToken: number; // 每多少位数字约1个token
+  symbolTokens: number; // 每个标点或符号的token数
+}
+
+// 各模型系列的分词器近似参数，按模型名匹配，越具体的放在越前面
+const TOKENIZER_PROFILES: Array<[RegExp, TokenizerProfile]> = [
+  // DeepSeek官方说明：1个中文字符约0.6个token，1个英文字符约0.3个token
+  [/deepseek/i, { cjkTokens: 0.6, lettersPerToken: 3.3, digitsPerToken: 3, symbolTokens: 0.5 }],
+  // Kimi官方说明：1个token约1.5~2个汉字
+  [/moonshot|kimi/i, { cjkTokens: 0.6, lettersPerToken: 4, digitsPerToken: 3, symbolTokens: 0.5 }],
+  // o200k_base分词器
+  [/gpt-4o|gpt-4\.1|^o\d/i, { cjkTokens: 0.8, lettersPerToken: 4, digitsPerToken: 3, symbolTokens: 0.5 }],
+  // cl100k_base分词器
+  [/gpt-4|gpt-3\.5/i, { cjkTokens: 1.2, lettersPerToken: 4, digitsPerToken: 3, symbolTokens: 0.5 }]
+];
+
+// 未知模型按偏保守的比例估算
+const DEFAULT_TOKENIZER_PROFILE: TokenizerProfile = { cjkTokens: 1, lettersPerToken: 4, digitsPerToken: 3, symbolTokens: 0.5 };
+
+// 常见模型的上下文窗口（token），按模型名前缀匹配，越具体的放在越前面
+const CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/moonshot-v1-128k/i, 131072],
+  [/moonshot-v1-32k/i, 32768],
+  [/moonshot-v1-8k/i, 8192],
+  [/moonshot|kimi/i, 8192],
+  [/deepseek/i, 65536],
+  [/gpt-4o|gpt-4\.1|gpt-4-turbo/i, 128000],
+  [/gpt-4-32k/i, 32768],
+  [/gpt-4/i, 8192],
+  [/gpt-3\.5-turbo/i, 16385],
+  [/claude/i, 200000],
+  [/gemini/i, 1048576],
+  [/qwen/i, 131072],
+  [/glm-4/i, 128000]
+];
+
+// 未知模型按较小的窗口处理，宁可多分块也不要超限
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+/**
+ * 获取模型的分词器近似参数
+ * @param model 模型名称
+ * @returns 分词器近似参数，未知模型返回默认参数
+ */
+export function getTokenizerProfile(model?: string): TokenizerProfile {
+  if (model) {
+    for (const [pattern, profile] of TOKENIZER_PROFILES) {
+      if (pattern.test(model)) {
+        return profile;
+      }
+    }
+  }
+  return DEFAULT_TOKENIZER_PROFILE;
+}
+
+/**
+ * 估算文本的token数量
+ * 未指定模型时中日韩字符约1个token，英文单词每4个字母约1个token，数字每3位约1个token，其余标点和符号约0.5个token
+ * @param text 文本
+ * @param model 模型名称，用于选择分词器近似参数
+ * @returns 估算的token数量
+ */
+export function estimateTokens(text: string, model?: string): number {
+  if (!text) {
+    return 0;
+  }
+
+  const profile = getTokenizerProfile(model);
+
+  const cjkChars = (text.match(/[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/g) || []).length;
+  const wordTokens = (text.match(/[A-Za-z]+/g) || [] as string[]).reduce((sum, word) => sum + Math.ceil(word.length / profile.lettersPerToken), 0);
+  const digits = (text.match(/\d/g) || []).length;
+  const symbols = (text.match(/[^\sA-Za-z\d\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/g) || []).length;
+
+  return Math.ceil(cjkChars * profile.cjkTokens + wordTokens + digits / profile.digitsPerToken + symbols * profile.symbolTokens);
+}
+
+/**
+ * 获取模型的上下文窗口大小
+ * @param model 模型名称
+ * @returns 上下文窗口（token）
+ */
+export function getContextWindow(model: string): number {
+  for (const [pattern, size] of CONTEXT_WINDOWS) {
+    if (pattern.test(model)) {
+      return size;
+    }
+  }
+  return DEFAULT_CONTEXT_WINDOW;
+}
@@ -1,68 +1,60 @@
 /**
  * 通用AI提供者
- * 支持DeepSeek、Kimi、OpenAI等多种AI模型的统一接口
- * 支持动态配置，无需重启服务
+ * 提示词、分块、结构化输出和重试对所有提供商统一处理，接口格式差异由提供商定义中的对话适配器处理
  */
 import axios, { AxiosInstance } from 'axios';
-import { BookInfo, ChapterContent, ChapterAnalysisResult, BookSummary } from '../types/book.types';
-
-// AI提供商类型
-export type AIProvider = 'deepseek' | 'kimi' | 'openai';
-
-// AI配置接口
-export interface AIConfig {
-  provider: AIProvider;
-  apiKey: string;
-  baseURL: string;
-  model: string;
-  maxTokens: number;
-  temperature: number;
-  maxRetries: number;
-  retryDelay: number;
-}
-
-// 预设配置
-const DEFAULT_CONFIGS: Record<AIProvider, Omit<AIConfig, 'apiKey'>> = {
-  deepseek: {
-    provider: 'deepseek',
-    baseURL: 'https://api.deepseek.com',
-    model: 'deepseek-chat',
-    maxTokens: 4000,
-    temperature: 0.7,
-    maxRetries: 3,
-    retryDelay: 1000
-  },
-  kimi: {
-    provider: 'kimi',
-    baseURL: 'https://api.moonshot.cn/v1',
-    model: 'moonshot-v1-8k',
-    maxTokens: 4000,
-    temperature: 0.7,
-    maxRetries: 3,
-    retryDelay: 1000
-  },
-  openai: {
-    provider: 'openai',
-    baseURL: 'https://api.openai.com/v1',
-    model: 'gpt-3.5-turbo',
-    maxTokens: 4000,
-    temperature: 0.7,
-    maxRetries: 3,
-    retryDelay: 1000
-  }
-};
-
-export class UniversalAIProvider {
+import { BookInfo, ChapterContent, ChapterAnalysisResult, BookSummary, Argument } from '../types/book.types';
+import { estimateTokens, getContextWindow } from './token-estimator';
+import { planChunks, ChunkPlan, ChapterChunk } from './chapter-chunker';
+import { RequestScheduler, RateLimits } from './request-scheduler';
+import { ChatMessage, ResponseFormatMode, ResponseSchemaName, buildResponseFormat, requestStructuredResponse } from './structured-output';
+import { AIConfig, AnalysisType, BookSummaryOptions, ChapterAnalysisOptions, IAIProvider, ProviderCapabilities, TokenUsageEstimate } from './providers/base-provider';
+import { renderPromptTemplate } from './prompt-templates';
+import { buildLanguageInstruction, DEFAULT_OUTPUT_LANGUAGE } from './output-language';
+import { ANALYSIS_SCHEMA_VERSION, CITED_TYPES, isFailedAnalysis, normalizeChapter } from './analysis-schema';
+import { promptTemplateStore } from '../storage/prompt-template-store';
+import { OutputLanguage, PromptTemplate } from '../types/book.types';
+import type { ProviderDefinition } from './providers/provider-registry';
+
+// 重试退避的最大延迟（毫秒）
+const MAX_RETRY_DELAY = 60000;
+
+// 400错误的内容提到这些参数时，视为接口不支持结构化输出
+const RESPONSE_FORMAT_ERROR_PATTERN = /response_format|json[_ ]?(schema|object|mode)|structured output/i;
+
+// 长章节分块参数：预留给提示词估算误差的token、分块重叠比例及上限、最小分块大小
+const PROMPT_SAFETY_TOKENS = 500;
+const MAX_COMPLETION_RATIO = 0.5; // 回复最多占上下文窗口的比例，避免小上下文的本地模型放不下提示词
+const CHUNK_OVERLAP_RATIO = 0.1;
+const MAX_CHUNK_OVERLAP_TOKENS = 400;
+const MIN_CHUNK_TOKENS = 1000;
+
+// 预估用量时各类请求预期的回复token数量（不超过最大回复token数），以及书籍总结提示词中每章摘要和关键点的token数量
+const EXPECTED_ANALYSIS_COMPLETION_TOKENS: Record<string, number> = { basic: 800, detailed: 1500, full: 2000 };
+const EXPECTED_VIEWPOINT_TOKENS = 300;
+const EXPECTED_SUMMARY_COMPLETION_TOKENS = 1500;
+const EXPECTED_CHAPTER_DIGEST_TOKENS = 350;
+
+export class UniversalAIProvider implements IAIProvider {
   private config: AIConfig;
+  private definition: ProviderDefinition;
   private client: AxiosInstance;
+  private scheduler: RequestScheduler;
+  private responseFormatUnsupported = false; // 接口拒绝response_format参数后不再发送
 
   /**
-   * 构造函数
+   * 构造函数，通过ProviderRegistry.createProvider创建
    * @param config AI配置
+   * @param definition 提供商定义
    */
-  constructor(config: AIConfig) {
+  constructor(config: AIConfig, definition: ProviderDefinition) {
     this.config = config;
+    this.definition = definition;
     this.initializeClient();
+    this.scheduler = RequestScheduler.for(
+      `${config.provider}|${config.baseURL}|${config.model}|${(config.apiKey || '').slice(-8)}`,
+      this.getRateLimits()
+    );
   }
 
   /**
@@ -72,7 +64,7 @@ export class UniversalAIProvider {
     this.client = axios.create({
       baseURL: this.config.baseURL,
       headers: {
-        'Authorization': `Bearer ${this.config.apiKey}`,
+        ...this.definition.adapter.buildHeaders(this.config),
         'Content-Type': 'application/json'
       },
       timeout: 180000 // 3分钟超时
@@ -80,48 +72,58 @@ export class UniversalAIProvider {
   }
 
   /**
-   * 创建AI提供者实例
-   * @param config AI配置
-   * @returns AI提供者实例
+   * 提供者能力说明
    */
-  static create(config: AIConfig): UniversalAIProvider {
-    return new UniversalAIProvider(config);
+  get capabilities(): ProviderCapabilities {
+    return {
+      responseFormat: this.getResponseFormatMode(),
+      contextWindow: this.getModelContextWindow(),
+      concurrency: this.scheduler.getLimits().concurrency,
+      requiresApiKey: this.definition.requiresApiKey
+    };
   }
 
   /**
-   * 从请求头解析AI配置
-   * @param headers 请求头
-   * @returns AI配置或null
+   * 获取速率限制：AI配置中的设置优先，其余使用提供商默认值
+   * @returns 速率限制
    */
-  static parseConfigFromHeaders(headers: any): AIConfig | null {
-    try {
-      const configHeader = headers['x-ai-config'];
-      if (!configHeader) {
-        return null;
-      }
+  private getRateLimits(): RateLimits {
+    const defaults = this.definition.rateLimits;
+    return {
+      concurrency: Math.max(1, this.config.concurrency ?? defaults.concurrency),
+      requestsPerMinute: Math.max(0, this.config.requestsPerMinute ?? defaults.requestsPerMinute),
+      tokensPerMinute: Math.max(0, this.config.tokensPerMinute ?? defaults.tokensPerMinute)
+    };
+  }
 
-      const config = JSON.parse(Buffer.from(configHeader, 'base64').toString('utf-8'));
-      
-      // 验证配置完整性
-      if (!config.provider || !config.apiKey || !config.baseURL || !config.model) {
-        console.warn('AI配置不完整:', config);
-        return null;
-      }
+  /**
+   * 获取模型的上下文窗口：AI配置中的设置优先（本地模型由模型发现获得），
+   * 其次为提供商的运行上下文（如Ollama的默认上下文），最后按模型名推断
+   * @returns 上下文窗口（token）
+   */
+  private getModelContextWindow(): number {
+    return this.config.contextWindow || this.definition.contextWindow?.() || getContextWindow(this.config.model);
+  }
 
-      return config;
-    } catch (error) {
-      console.error('解析AI配置失败:', error);
-      return null;
-    }
+  /**
+   * 获取回复的最大token数：不超过maxTokens，也不超过上下文窗口的一半
+   * @returns 最大回复token数
+   */
+  private getCompletionTokens(): number {
+    const limit = Math.floor(this.getModelContextWindow() * MAX_COMPLETION_RATIO);
+    return this.config.maxTokens ? Math.min(this.config.maxTokens, limit) : limit;
   }
 
   /**
-   * 获取默认配置
-   * @param provider AI提供商
-   * @returns 默认配置
+   * 获取结构化输出方式：AI配置中的设置优先，其次按提供商定义和模型选择；
+   * 接口拒绝过response_format参数时不再设置
+   * @returns 结构化输出方式
    */
-  static getDefaultConfig(provider: AIProvider): Omit<AIConfig, 'apiKey'> {
-    return DEFAULT_CONFIGS[provider];
+  private getResponseFormatMode(): ResponseFormatMode {
+    if (this.responseFormatUnsupported) {
+      return 'text';
+    }
+    return this.config.responseFormat || this.definition.responseFormat(this.config.model);
   }
 
   /**
@@ -130,14 +132,18 @@ export class UniversalAIProvider {
    */
   async testConnection(): Promise<boolean> {
     try {
-      if (!this.config.apiKey) {
+      if (!this.isConfigured()) {
         throw new Error('API密钥未配置');
       }
 
-      const endpoint = this.getEndpoint();
-      const testPayload = this.buildTestPayload();
+      const { adapter } = this.definition;
+      const testPayload = adapter.buildPayload(
+        this.config,
+        [{ role: 'user', content: '测试连接，请回复"连接成功"' }],
+        { maxTokens: 10, temperature: 0 }
+      );
 
-      const response = await this.client.post(endpoint, testPayload);
+      const response = await this.client.post(adapter.endpoint, testPayload);
       return response.status === 200;
     } catch (error) {
       console.error(`${this.config.provider} API连接测试失败:`, error);
@@ -149,46 +155,146 @@ export class UniversalAIProvider {
    * 分析单个章节
    * @param chapter 章节内容
    * @param analysisType 分析类型
-   * @returns 章节分析结果
+   * @param options 书籍信息和输出语言
+   * @returns 章节分析结果，记录使用的提示词模板和输出语言
    */
   async analyzeChapter(
     chapter: ChapterContent,
-    analysisType: 'basic' | 'detailed' | 'full' = 'full'
+    analysisType: AnalysisType = 'full',
+    options: ChapterAnalysisOptions = {}
   ): Promise<ChapterAnalysisResult> {
     try {
-      if (!this.config.apiKey) {
+      if (!this.isConfigured()) {
         throw new Error(`${this.config.provider} API密钥未配置`);
       }
 
-      const prompt = this.buildChapterAnalysisPrompt(chapter, analysisType);
-      const response = await this.makeRequest(prompt);
-      
-      return this.parseChapterAnalysisResponse(response, chapter);
+      const { bookInfo, outputLanguage = DEFAULT_OUTPUT_LANGUAGE } = options;
+      const template = this.getPromptTemplate('chapterAnalysis', analysisType);
+      const templateInfo = { promptTemplateId: template.id, promptTemplateVersion: template.version, outputLanguage };
+
+      const plan = this.planChapterChunks(chapter, analysisType);
+      if (plan.chunks.length === 1) {
+        const prompt = this.buildChapterAnalysisPrompt(chapter, template, { bookInfo, outputLanguage });
+        const response = await this.requestStructured(prompt, 'chapterAnalysis');
+        
+        return { ...this.parseChapterAnalysisResponse(response, chapter), ...templateInfo };
+      }
+
+      // 长章节：各块并行分析（map，受请求调度器限速），再合并为一个章节结果（reduce）
+      this.logChunkPlan(chapter, plan);
+      const partialResults = await Promise.all(plan.chunks.map(async chunk => {
+        console.log(`🧩 [章节分块] 《${chapter.title}》分析第 ${chunk.index + 1}/${plan.chunks.length} 块`);
+        const prompt = this.buildChapterAnalysisPrompt(chapter, template, { bookInfo, outputLanguage }, { chunk, total: plan.chunks.length });
+        const response = await this.requestStructured(prompt, 'chapterAnalysis');
+        return this.parseChapterAnalysisResponse(response, chapter);
+      }));
+
+      return { ...await this.reduceChunkResults(chapter, partialResults, outputLanguage), ...templateInfo };
     } catch (error) {
       console.error(`章节分析失败 [${chapter.title}]:`, error);
       throw new Error(`章节分析失败: ${error.message}`);
     }
   }
 
+  /**
+   * 规划章节分块：上下文窗口扣除回复预留和提示词本身后，剩余部分作为每块正文的预算
+   * @param chapter 章节内容
+   * @param analysisType 分析类型，决定使用的提示词模板
+   * @returns 分块计划，章节不超过预算时只有一块
+   */
+  planChapterChunks(chapter: ChapterContent, analysisType: AnalysisType = 'full'): ChunkPlan {
+    const template = this.getPromptTemplate('chapterAnalysis', analysisType);
+    const promptTokens = this.estimateTokens(this.buildChapterAnalysisPrompt({ ...chapter, content: '' }, template));
+    const available = this.getModelContextWindow() - this.getCompletionTokens() - promptTokens - PROMPT_SAFETY_TOKENS;
+    const chunkTokens = Math.max(MIN_CHUNK_TOKENS, available);
+    const overlapTokens = Math.min(MAX_CHUNK_OVERLAP_TOKENS, Math.floor(chunkTokens * CHUNK_OVERLAP_RATIO));
+    return planChunks(chapter.content || '', chunkTokens, overlapTokens, this.config.model);
+  }
+
+  /**
+   * 预估章节分析的token用量，与analyzeChapter使用相同的分块和提示词
+   * @param chapter 章节内容
+   * @param analysisType 分析类型
+   * @returns token用量预估及分块数量
+   */
+  estimateChapterUsage(
+    chapter: ChapterContent,
+    analysisType: AnalysisType = 'full'
+  ): TokenUsageEstimate & { chunks: number } {
+    const template = this.getPromptTemplate('chapterAnalysis', analysisType);
+    const plan = this.planChapterChunks(chapter, analysisType);
+    const completionTokens = this.expectedCompletionTokens(EXPECTED_ANALYSIS_COMPLETION_TOKENS[analysisType] || EXPECTED_ANALYSIS_COMPLETION_TOKENS.full);
+
+    if (plan.chunks.length === 1) {
+      return {
+        requests: 1,
+        promptTokens: this.estimateTokens(this.buildChapterAnalysisPrompt(chapter, template)),
+        completionTokens,
+        chunks: 1
+      };
+    }
+
+    // 逐块分析，再加一次合并观点的请求
+    const promptTokens = plan.chunks.reduce((sum, chunk) =>
+      sum + this.estimateTokens(this.buildChapterAnalysisPrompt(chapter, template, {}, { chunk, total: plan.chunks.length })), 0);
+    const mergePromptTokens = this.estimateTokens(this.buildViewpointMergePrompt(chapter, [])) + plan.chunks.length * EXPECTED_VIEWPOINT_TOKENS;
+
+    return {
+      requests: plan.chunks.length + 1,
+      promptTokens: promptTokens + mergePromptTokens,
+      completionTokens: completionTokens * plan.chunks.length + this.expectedCompletionTokens(EXPECTED_VIEWPOINT_TOKENS),
+      chunks: plan.chunks.length
+    };
+  }
+
+  /**
+   * 预估书籍总结的token用量；总结基于章节分析结果，按每章摘要和关键点的预期长度估算
+   * @param bookInfo 书籍信息
+   * @param chapters 参与总结的章节
+   * @returns token用量预估
+   */
+  estimateSummaryUsage(bookInfo: BookInfo, chapters: ChapterContent[]): TokenUsageEstimate {
+    const placeholders = chapters.map(chapter => ({
+      chapter_title: chapter.title,
+      chapter_viewpoint: '',
+      chapter_keywords: []
+    }) as ChapterAnalysisResult);
+
+    return {
+      requests: 1,
+      promptTokens: this.estimateTokens(this.buildBookSummaryPrompt(bookInfo, placeholders, this.getPromptTemplate('bookSummary'))) + chapters.length * EXPECTED_CHAPTER_DIGEST_TOKENS,
+      completionTokens: this.expectedCompletionTokens(EXPECTED_SUMMARY_COMPLETION_TOKENS)
+    };
+  }
+
   /**
    * 生成书籍总结
    * @param bookInfo 书籍信息
    * @param chapterAnalysis 章节分析结果
-   * @returns 书籍总结
+   * @param options 输出语言
+   * @returns 书籍总结，记录使用的提示词模板和输出语言
    */
   async generateBookSummary(
     bookInfo: BookInfo,
-    chapterAnalysis: ChapterAnalysisResult[]
+    chapterAnalysis: ChapterAnalysisResult[],
+    options: BookSummaryOptions = {}
   ): Promise<BookSummary> {
     try {
-      if (!this.config.apiKey) {
+      if (!this.isConfigured()) {
         throw new Error(`${this.config.provider} API密钥未配置`);
       }
 
-      const prompt = this.buildBookSummaryPrompt(bookInfo, chapterAnalysis);
-      const response = await this.makeRequest(prompt);
+      const { outputLanguage = DEFAULT_OUTPUT_LANGUAGE } = options;
+      const template = this.getPromptTemplate('bookSummary');
+      const prompt = this.buildBookSummaryPrompt(bookInfo, chapterAnalysis, template, outputLanguage);
+      const response = await this.requestStructured(prompt, 'bookSummary');
       
-      return this.parseBookSummaryResponse(response, bookInfo);
+      return {
+        ...this.parseBookSummaryResponse(response, bookInfo),
+        promptTemplateId: template.id,
+        promptTemplateVersion: template.version,
+        outputLanguage
+      };
     } catch (error) {
       console.error('书籍总结生成失败:', error);
       throw new Error(`书籍总结生成失败: ${error.message}`);
@@ -196,79 +302,57 @@ export class UniversalAIProvider {
   }
 
   /**
-   * 获取API端点
-   * @returns API端点路径
+   * 获取AI配置中为该分析类型选择的提示词模板，未选择时使用内置模板
+   * @param kind 模板类型
+   * @param analysisType 分析类型，书籍总结不需要
+   * @returns 提示词模板
    */
-  private getEndpoint(): string {
-    switch (this.config.provider) {
-      case 'deepseek':
-        return '/chat/completions';
-      case 'kimi':
-        return '/chat/completions';
-      case 'openai':
-        return '/chat/completions';
-      default:
-        return '/chat/completions';
-    }
+  private getPromptTemplate(kind: 'chapterAnalysis' | 'bookSummary', analysisType: AnalysisType = 'full'): PromptTemplate {
+    const templateId = this.config.promptTemplates?.[kind === 'chapterAnalysis' ? analysisType : 'summary'];
+    return promptTemplateStore.resolve(kind, templateId, analysisType);
   }
 
   /**
-   * 构建测试请求载荷
-   * @returns 测试请求载荷
+   * 书籍信息，用于提示词模板中的{{bookInfo}}
    */
-  private buildTestPayload(): any {
-    return {
-      model: this.config.model,
-      messages: [{
-        role: 'user',
-        content: '测试连接，请回复"连接成功"'
-      }],
-      max_tokens: 10,
-      temperature: 0
-    };
+  private formatBookInfo(bookInfo?: BookInfo): string {
+    if (!bookInfo) {
+      return '';
+    }
+    return `标题：${bookInfo.title}\n作者：${bookInfo.author}\n出版社：${bookInfo.publisher || '未知'}`;
   }
 
   /**
    * 构建章节分析提示词
    * @param chapter 章节内容
-   * @param analysisType 分析类型
+   * @param template 提示词模板
+   * @param options 书籍信息和输出语言
+   * @param part 长章节分块时当前分块及总块数
    * @returns 提示词
    */
-  private buildChapterAnalysisPrompt(chapter: ChapterContent, analysisType: string): string {
-    const basePrompt = `
-请分析以下章节内容，并按照JSON格式返回分析结果：
-
-章节标题：${chapter.title}
-章节内容：
-${chapter.content}
-
-请返回以下JSON格式的分析结果：
+  private buildChapterAnalysisPrompt(
+    chapter: ChapterContent,
+    template: PromptTemplate,
+    options: ChapterAnalysisOptions = {},
+    part?: { chunk: ChapterChunk; total: number }
+  ): string {
+    const partNote = part
+      ? `\n（本章篇幅较长，已分为${part.total}部分分别分析，以下是第${part.chunk.index + 1}部分，相邻部分之间有少量重叠内容。请只分析这一部分的内容。）\n`
+      : '';
+    const outputFormat = `请返回以下JSON格式的分析结果：
 {
   "chapter_title": "${chapter.title}",
   "chapter_viewpoint": "<章节核心观点总结，100-200字>",
   "chapter_keywords": ["关键词1", "关键词2", "关键词3"],
   "arguments": [
     {
-      "point": "<论点描述>",
-      "evidence": "<支持证据>",
-      "strength": "strong|medium|weak",
-      "positive_case": [
-        {
-          "description": "<正面案例描述>",
-          "source": "<案例来源>",
-          "impact": "<案例影响>"
-        }
-      ],
-      "negative_case": [
-        {
-          "description": "<反面案例描述>",
-          "source": "<案例来源>",
-          "lesson": "<经验教训>"
-        }
-      ],
+      "statement": "<论据概述>",
+      "positive_case": ["<支撑该论据的正面案例>"],
+      "negative_case": ["<支撑该论据的反面案例>"],
       "citations": [
         {
-          "source": "<引用来源，如书籍、文章、研究等>",
+          "cited_source": "<引用来源，书籍名、文章名或者权威人士姓名>",
+          "cited_type": "${CITED_TYPES.join('|')}",
           "viewpoint": "<简要概述所引用的书籍、文章、故事的内容，并总结其所要传达的观点>"
         }
       ]
@@ -280,44 +364,178 @@ ${chapter.content}
 1. 必须返回有效的JSON格式
 2. chapter_keywords应包含作者在本章中提出或引用的重要概念
 3. arguments包含作者针对本章核心观点提出的主要论据
-4. positive_case和negative_case可以为空数组，但必须存在
-5. citations如果没有外部引用可以为空数组
+4. positive_case和negative_case是案例描述的字符串列表，可以为空数组，但必须存在
+5. citations如果没有外部引用可以为空数组；cited_type只能是${CITED_TYPES.join('、')}之一，不随输出语言翻译
 6. 所有字符串值都要用双引号包围
 7. 不要在JSON中使用注释或其他非标准格式
 `;
 
-    if (analysisType === 'basic') {
-      return basePrompt + '\n注意：请提供基础分析，重点关注摘要和关键要点。';
-    } else if (analysisType === 'detailed') {
-      return basePrompt + '\n注意：请提供详细分析，包含完整的论点和引用。';
-    } else {
-      return basePrompt + '\n注意：请提供全面深入的分析，包含所有要求的元素。';
+    return renderPromptTemplate(template, {
+      title: chapter.title,
+      content: part ? part.chunk.text : chapter.content,
+      bookInfo: this.formatBookInfo(options.bookInfo),
+      part: partNote,
+      outputFormat,
+      language: buildLanguageInstruction(options.outputLanguage)
+    });
+  }
+
+  /**
+   * 输出分块计划日志
+   */
+  private logChunkPlan(chapter: ChapterContent, plan: ChunkPlan): void {
+    console.log(`📦 [章节分块] 《${chapter.title}》约 ${plan.totalTokens} tokens，超出单次预算 ${plan.chunkTokens} tokens，分为 ${plan.chunks.length} 块（重叠约 ${plan.overlapTokens} tokens）`);
+    for (const chunk of plan.chunks) {
+      console.log(`   - 第 ${chunk.index + 1} 块: 字符 ${chunk.start}-${chunk.end}，约 ${chunk.tokens} tokens`);
+    }
+  }
+
+  /**
+   * 合并各分块的分析结果：关键词按出现次数排序去重，论据按论点去重并合并案例和引用，
+   * 核心观点由AI综合各块观点生成，失败时拼接各块观点；任一分块无法解析时整章记为失败
+   * @param chapter 章节内容
+   * @param partialResults 各分块的分析结果
+   * @param outputLanguage 合并后观点的语言
+   * @returns 整章的分析结果
+   */
+  private async reduceChunkResults(
+    chapter: ChapterContent,
+    partialResults: ChapterAnalysisResult[],
+    outputLanguage?: OutputLanguage
+  ): Promise<ChapterAnalysisResult> {
+    // 任一分块无法解析时整章记为失败，避免缺少部分内容的结果被当作完成，继续分析时会重新分析该章节
+    const failedChunks = partialResults.filter(isFailedAnalysis).length;
+    console.log(`🔗 [章节分块] 《${chapter.title}》合并 ${partialResults.length} 块分析结果${failedChunks > 0 ? `，其中 ${failedChunks} 块无法解析，整章记为失败` : ''}`);
+
+    // 关键词
+    const keywordCounts = new Map<string, number>();
+    for (const result of partialResults) {
+      for (const keyword of result.chapter_keywords) {
+        const key = String(keyword).trim();
+        if (key) {
+          keywordCounts.set(key, (keywordCounts.get(key) || 0) + 1);
+        }
+      }
+    }
+    const keywords = [...keywordCounts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([keyword]) => keyword);
+
+    // 论据
+    const argumentsByStatement = new Map<string, Argument>();
+    for (const result of partialResults) {
+      for (const argument of result.arguments) {
+        const key = this.normalizeForMerge(argument.statement);
+        const existing = argumentsByStatement.get(key);
+        if (!existing) {
+          argumentsByStatement.set(key, { ...argument });
+          continue;
+        }
+        existing.positive_case = this.mergeUnique(existing.positive_case, argument.positive_case, item => this.normalizeForMerge(item));
+        existing.negative_case = this.mergeUnique(existing.negative_case, argument.negative_case, item => this.normalizeForMerge(item));
+        existing.citations = this.mergeUnique(existing.citations, argument.citations, citation =>
+          this.normalizeForMerge(citation.cited_source || citation.viewpoint)
+        );
+      }
+    }
+
+    // 核心观点
+    const viewpoints = partialResults
+      .filter(result => !isFailedAnalysis(result) && result.chapter_viewpoint)
+      .map(result => result.chapter_viewpoint);
+    let summary = viewpoints.join('\n');
+    if (viewpoints.length > 1 && failedChunks === 0) {
+      try {
+        const response = await this.makeRequest(this.buildViewpointMergePrompt(chapter, viewpoints, outputLanguage));
+        summary = response.trim() || summary;
+      } catch (error) {
+        console.error(`合并章节观点失败 [${chapter.title}]，改为拼接各部分观点:`, error.message);
+      }
+    }
+
+    return {
+      schemaVersion: ANALYSIS_SCHEMA_VERSION,
+      chapterIndex: chapter.index,
+      chapter_title: chapter.title,
+      chapter_viewpoint: summary || '无章节观点总结',
+      chapter_keywords: keywords,
+      arguments: [...argumentsByStatement.values()],
+      wordCount: chapter.wordCount || 0,
+      analysisDate: new Date(),
+      ...(failedChunks > 0 ? { failed: true } : {})
+    };
+  }
+
+  /**
+   * 构建合并各分块核心观点的提示词
+   */
+  private buildViewpointMergePrompt(chapter: ChapterContent, viewpoints: string[], outputLanguage?: OutputLanguage): string {
+    return `
+以下是同一章节“${chapter.title}”分为${viewpoints.length}部分分析后得到的各部分核心观点：
+
+${viewpoints.map((viewpoint, index) => `${index + 1}. ${viewpoint}`).join('\n')}
+
+请将它们合并为一段完整的章节核心观点总结（100-200字），直接返回总结文本，不要包含其他内容。
+${buildLanguageInstruction(outputLanguage)}
+`;
+  }
+
+  /**
+   * 按当前模型估算token数量
+   */
+  private estimateTokens(text: string): number {
+    return estimateTokens(text, this.config.model);
+  }
+
+  /**
+   * 预期回复长度不超过最大回复token数
+   */
+  private expectedCompletionTokens(expected: number): number {
+    return Math.min(expected, this.getCompletionTokens());
+  }
+
+  /**
+   * 去掉空白和标点并转为小写，用于判断重复
+   */
+  private normalizeForMerge(text: string): string {
+    return String(text || '').toLowerCase().replace(/[\s\p{P}]/gu, '');
+  }
+
+  /**
+   * 合并两个数组并去重
+   */
+  private mergeUnique<T>(first: T[] = [], second: T[] = [], keyOf: (item: T) => string = item => JSON.stringify(item)): T[] {
+    const seen = new Set(first.map(keyOf));
+    const merged = [...first];
+    for (const item of second) {
+      const key = keyOf(item);
+      if (!seen.has(key)) {
+        seen.add(key);
+        merged.push(item);
+      }
     }
+    return merged;
   }
 
   /**
    * 构建书籍总结提示词
    * @param bookInfo 书籍信息
    * @param chapterAnalysis 章节分析结果
+   * @param template 提示词模板
+   * @param outputLanguage 输出语言
    * @returns 提示词
    */
-  private buildBookSummaryPrompt(bookInfo: BookInfo, chapterAnalysis: ChapterAnalysisResult[]): string {
+  private buildBookSummaryPrompt(
+    bookInfo: BookInfo,
+    chapterAnalysis: ChapterAnalysisResult[],
+    template: PromptTemplate,
+    outputLanguage?: OutputLanguage
+  ): string {
     const chaptersInfo = chapterAnalysis.map(analysis => 
-      `章节：${analysis.chapterTitle}\n摘要：${analysis.summary}\n关键点：${analysis.keyPoints.join(', ')}`
+      `章节：${analysis.chapter_title}\n摘要：${analysis.chapter_viewpoint}\n关键点：${analysis.chapter_keywords.join(', ')}`
     ).join('\n\n');
 
-    return `
-请基于以下书籍信息和章节分析，生成完整的书籍总结：
-
-书籍信息：
-标题：${bookInfo.title}
-作者：${bookInfo.author}
-出版社：${bookInfo.publisher || '未知'}
-
-章节分析：
-${chaptersInfo}
-
-请返回以下JSON格式的书籍总结（严格按照json_template.txt中book_summary的结构）：
+    const outputFormat = `请返回以下JSON格式的书籍总结（严格按照json_template.txt中book_summary的结构）：
 {
   "book_intro": "书籍整体概述，300字左右，string类型",
   "author_intro": "作者简介，string类型",
@@ -339,14 +557,39 @@ ${chaptersInfo}
 4. tags是给这本书贴的10个最合适的标签
 5. book_intro应该是300字左右的书籍整体概述
 `;
+
+    return renderPromptTemplate(template, {
+      title: bookInfo.title,
+      content: chaptersInfo,
+      bookInfo: this.formatBookInfo(bookInfo),
+      outputFormat,
+      language: buildLanguageInstruction(outputLanguage)
+    });
   }
 
   /**
-   * 发送API请求
+   * 发送需要结构化输出的请求，结果按Schema校验，不符合时要求模型修正
    * @param prompt 提示词
+   * @param schemaName 响应类型
    * @returns API响应内容
    */
-  private async makeRequest(prompt: string): Promise<string> {
+  private requestStructured(prompt: string, schemaName: ResponseSchemaName): Promise<string> {
+    return requestStructuredResponse(
+      messages => this.makeRequest(messages, schemaName),
+      prompt,
+      schemaName
+    );
+  }
+
+  /**
+   * 发送API请求
+   * @param prompt 提示词或完整对话
+   * @param schemaName 需要结构化输出时的响应类型，用于设置response_format
+   * @returns API响应内容
+   */
+  private async makeRequest(prompt: string | ChatMessage[], schemaName?: ResponseSchemaName): Promise<string> {
+    const messages: ChatMessage[] = typeof prompt === 'string' ? [{ role: 'user', content: prompt }] : prompt;
+    const promptLength = messages.reduce((sum, message) => sum + message.content.length, 0);
     const requestId = this.generateRequestId();
     const startTime = Date.now();
     let lastError: Error;
@@ -355,30 +598,31 @@ ${chaptersInfo}
     console.log(`📝 [${requestId}] 请求参数:`, {
       provider: this.config.provider,
       model: this.config.model,
-      max_tokens: this.config.maxTokens,
+      max_tokens: this.getCompletionTokens(),
       temperature: this.config.temperature,
-      prompt_length: prompt.length,
+      prompt_length: promptLength,
+      messages: messages.length,
       timestamp: new Date().toISOString()
     });
     
+    // 计入TPM的token：提示词加最大回复长度
+    const requestTokens = messages.reduce((sum, message) => sum + this.estimateTokens(message.content), 0) + this.getCompletionTokens();
+
     for (let attempt = 1; attempt <= this.config.maxRetries; attempt++) {
       const attemptStartTime = Date.now();
+      const responseFormat = schemaName ? buildResponseFormat(this.getResponseFormatMode(), schemaName) : undefined;
       
       try {
         console.log(`🔄 [${requestId}] 第 ${attempt} 次尝试开始`);
         
-        const endpoint = this.getEndpoint();
-        const requestPayload = {
-          model: this.config.model,
-          messages: [{
-            role: 'user',
-            content: prompt
-          }],
-          max_tokens: this.config.maxTokens,
-          temperature: this.config.temperature
-        };
+        const { adapter } = this.definition;
+        const requestPayload = adapter.buildPayload(this.config, messages, {
+          maxTokens: this.getCompletionTokens(),
+          temperature: this.config.temperature,
+          responseFormat
+        });
         
-        const response = await this.client.post(endpoint, requestPayload);
+        const response = await this.scheduler.schedule(requestTokens, () => this.client.post(adapter.endpoint, requestPayload));
         const attemptDuration = Date.now() - attemptStartTime;
         
         console.log(`📊 [${requestId}] API响应状态:`, {
@@ -388,7 +632,7 @@ ${chaptersInfo}
           duration_ms: attemptDuration
         });
         
-        const content = response.data.choices[0]?.message?.content;
+        const { content, usage } = adapter.parseResponse(response.data);
         if (!content) {
           throw new Error('API返回内容为空');
         }
@@ -400,9 +644,9 @@ ${chaptersInfo}
           response_length: content.length,
           total_duration_ms: totalDuration,
           attempts_used: attempt,
-          tokens_used: response.data.usage?.total_tokens || 'unknown',
-          prompt_tokens: response.data.usage?.prompt_tokens || 'unknown',
-          completion_tokens: response.data.usage?.completion_tokens || 'unknown'
+          tokens_used: usage?.totalTokens || 'unknown',
+          prompt_tokens: usage?.promptTokens || 'unknown',
+          completion_tokens: usage?.completionTokens || 'unknown'
         });
         
         return content;
@@ -419,9 +663,26 @@ ${chaptersInfo}
           duration_ms: attemptDuration
         });
         
+        // 接口不支持response_format时去掉该参数立即重试，不计入重试次数；其他原因的400错误照常处理
+        if (error.response?.status === 400 && responseFormat && this.isResponseFormatError(error.response.data)) {
+          console.warn(`⚠️ [${requestId}] 接口拒绝response_format参数，改为普通文本输出后重试`);
+          this.responseFormatUnsupported = true;
+          attempt--;
+          continue;
+        }
+        
         if (attempt < this.config.maxRetries) {
-          console.log(`⏳ [${requestId}] 等待 ${this.config.retryDelay}ms 后重试...`);
-          await this.delay(this.config.retryDelay);
+          let retryDelay = this.getBackoffDelay(attempt);
+          if (error.response?.status === 429) {
+            // 限流：按Retry-After暂停该提供商的所有请求
+            const retryAfter = this.parseRetryAfter(error.response.headers?.['retry-after']);
+            if (retryAfter !== null) {
+              this.scheduler.pauseUntil(Date.now() + retryAfter);
+              retryDelay = Math.max(retryDelay, retryAfter);
+            }
+          }
+          console.log(`⏳ [${requestId}] 等待 ${retryDelay}ms 后重试...`);
+          await this.delay(retryDelay);
         }
       }
     }
@@ -431,6 +692,45 @@ ${chaptersInfo}
     throw lastError;
   }
 
+  /**
+   * 计算重试延迟：以retryDelay为基数指数增长（不超过MAX_RETRY_DELAY，基数更大时以基数为上限），
+   * 取其一半到全部之间的随机值，避免并发请求同时重试
+   * @param attempt 已失败的尝试次数
+   * @returns 延迟毫秒数
+   */
+  private getBackoffDelay(attempt: number): number {
+    const base = this.config.retryDelay || 1000;
+    const backoff = Math.min(Math.max(MAX_RETRY_DELAY, base), base * 2 ** (attempt - 1));
+    return Math.round(backoff / 2 + Math.random() * backoff / 2);
+  }
+
+  /**
+   * 400错误是否由response_format参数引起
+   * @param data 错误响应的内容
+   */
+  private isResponseFormatError(data: unknown): boolean {
+    const text = typeof data === 'string' ? data : JSON.stringify(data ?? '');
+    return RESPONSE_FORMAT_ERROR_PATTERN.test(text);
+  }
+
+  /**
+   * 解析Retry-After响应头（秒数或HTTP日期）
+   * @returns 需要等待的毫秒数，无法解析时返回null
+   */
+  private parseRetryAfter(value: unknown): number | null {
+    if (value === undefined || value === null || value === '') {
+      return null;
+    }
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(String(value));
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+
   /**
    * 生成请求ID
    * @returns 请求ID
@@ -460,29 +760,27 @@ ${chaptersInfo}
       let jsonString = jsonMatch[0];
       console.log('提取的JSON字符串:', jsonString);
       
-      // JSON字符串清理和修复
-      jsonString = this.cleanJsonString(jsonString);
-      
       let parsed;
       try {
+        // 结构化输出的结果可直接解析
         parsed = JSON.parse(jsonString);
-      } catch (parseError) {
-        console.error('标准JSON解析失败，尝试备用解析策略:', parseError.message);
-        parsed = this.fallbackJsonParse(jsonString);
+      } catch {
+        // JSON字符串清理和修复
+        jsonString = this.cleanJsonString(jsonString);
+        try {
+          parsed = JSON.parse(jsonString);
+        } catch (parseError) {
+          console.error('标准JSON解析失败，尝试备用解析策略:', parseError.message);
+          parsed = this.fallbackJsonParse(jsonString);
+        }
       }
       
-      // 解析新的JSON结构
+      const analysis = normalizeChapter(parsed, chapter.title);
       return {
+        schemaVersion: ANALYSIS_SCHEMA_VERSION,
         chapterIndex: chapter.index,
-        chapterTitle: parsed.chapter_title || chapter.title,
-        summary: parsed.chapter_viewpoint || '无章节观点总结',
-        keyPoints: Array.isArray(parsed.chapter_keywords) ? parsed.chapter_keywords : [],
-        arguments: this.parseNewArguments(parsed.arguments),
-        quotes: [], // 新格式中引用信息在arguments的citations中
-        themes: [],
-        emotions: [],
-        characters: [],
-        locations: [],
+        ...analysis,
+        chapter_viewpoint: analysis.chapter_viewpoint || '无章节观点总结',
         wordCount: chapter.wordCount || 0,
         analysisDate: new Date()
       };
@@ -491,18 +789,15 @@ ${chaptersInfo}
       
       // 返回基础结构，避免程序崩溃
       return {
+        schemaVersion: ANALYSIS_SCHEMA_VERSION,
         chapterIndex: chapter.index,
-        chapterTitle: chapter.title,
-        summary: '解析失败，无法生成摘要',
-        keyPoints: [],
+        chapter_title: chapter.title,
+        chapter_viewpoint: '解析失败，无法生成摘要',
+        chapter_keywords: [],
         arguments: [],
-        quotes: [],
-        themes: [],
-        emotions: [],
-        characters: [],
-        locations: [],
         wordCount: chapter.wordCount || 0,
-        analysisDate: new Date()
+        analysisDate: new Date(),
+        failed: true
       };
     }
   }
@@ -521,15 +816,20 @@ ${chaptersInfo}
       }
       
       let jsonString = jsonMatch[0];
-      // 清理JSON字符串
-      jsonString = this.cleanJsonString(jsonString);
       
       let parsed;
       try {
+        // 结构化输出的结果可直接解析
         parsed = JSON.parse(jsonString);
-      } catch (parseError) {
-        console.error('标准JSON解析失败，尝试备用解析策略:', parseError.message);
-        parsed = this.fallbackJsonParse(jsonString);
+      } catch {
+        // 清理JSON字符串
+        jsonString = this.cleanJsonString(jsonString);
+        try {
+          parsed = JSON.parse(jsonString);
+        } catch (parseError) {
+          console.error('标准JSON解析失败，尝试备用解析策略:', parseError.message);
+          parsed = this.fallbackJsonParse(jsonString);
+        }
       }
       
       // 按照新的book_summary结构解析
@@ -615,24 +915,6 @@ ${chaptersInfo}
     }
   }
 
-  /**
-   * 解析新格式的论据
-   * @param argumentsArray 论据数组
-   * @returns 解析后的论据
-   */
-  private parseNewArguments(argumentsArray: any[]): any[] {
-    if (!Array.isArray(argumentsArray)) return [];
-    
-    return argumentsArray.map(arg => ({
-      point: arg.point || '无论点',
-      evidence: arg.evidence || '无证据',
-      strength: arg.strength || 'medium',
-      positiveCase: Array.isArray(arg.positive_case) ? arg.positive_case : [],
-      negativeCase: Array.isArray(arg.negative_case) ? arg.negative_case : [],
-      citations: Array.isArray(arg.citations) ? arg.citations : []
-    }));
-  }
-
   /**
    * 延迟函数
    * @param ms 延迟毫秒数
@@ -651,11 +933,11 @@ ${chaptersInfo}
   }
 
   /**
-   * 检查API密钥是否已配置
+   * 检查配置是否可用：需要API密钥的提供商是否已配置密钥
    * @returns 是否已配置
    */
   isConfigured(): boolean {
-    return !!this.config.apiKey;
+    return !this.definition.requiresApiKey || !!this.config.apiKey;
   }
 }
 
@@ -10,6 +10,7 @@ import { fileURLToPath } from 'url';
 import authRoutes from './routes/auth';
 import booksRoutes from './routes/books';
 import aiRoutes from './routes/ai';
+import promptsRoutes from './routes/prompts';
 
 // for esm mode
 const __filename = fileURLToPath(import.meta.url);
@@ -31,6 +32,7 @@ app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 app.use('/api/auth', authRoutes);
 app.use('/api/books', booksRoutes);
 app.use('/api/ai', aiRoutes);
+app.use('/api/prompts', promptsRoutes);
 
 /**
  * health
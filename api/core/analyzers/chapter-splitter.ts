@@ -5,7 +5,13 @@ import { promisify } from 'util';
 import { parseStringPromise } from 'xml2js';
 import { v4 as uuidv4 } from 'uuid';
 import JSZip from 'jszip';
-import { TocItem, ChapterContent } from '../../types/book.types';
+import { TocItem, ChapterContent, ChapterBlock, ChapterNote, ChapterRole } from '../../types/book.types';
+import { IChapterTextExtractor, isChapterTextExtractor } from '../parsers/base-parser';
+import { ParserFactory } from '../parsers/parser-factory';
+import { htmlToText } from '../utils/html-text';
+import { htmlToBlocks } from '../utils/html-blocks';
+import { classifyTableOfContents, CHAPTER_ROLE_LABELS } from './matter-classifier';
+import { findNoteReferences, findInlineNotes, isNotesDocument, maskRanges, readNote } from '../utils/html-notes';
 
 const readFile = promisify(fs.readFile);
 
@@ -13,14 +19,58 @@ export interface SplitOptions {
   level: number; // 拆分层级 (1-3)
   maxChapterLength?: number; // 最大章节长度
   removeHtml?: boolean; // 是否移除HTML标签
+  structured?: boolean; // 是否同时生成结构化内容块
+  skipRoles?: ChapterRole[]; // 跳过这些角色的目录项（如版权页、致谢、索引）
+}
+
+// xml2js解析出的OPF中与spine相关的部分
+interface OpfSpineData {
+  package?: {
+    manifest?: Array<{ item?: Array<{ $?: Record<string, string> }> }>;
+    spine?: Array<{ itemref?: Array<{ $?: Record<string, string> }> }>;
+  };
+}
+
+// spine中的位置：文件序号及可选的#锚点
+interface SpinePosition {
+  index: number;
+  anchor: string | null;
+}
+
+// 解析出的章节注释，附带来源位置
+interface ResolvedNote extends ChapterNote {
+  source: ChapterBlock['source'];
+}
+
+// 目录项对应的spine范围，end为下一个目录项的起点（不包含），null表示到spine末尾
+interface SpineRange {
+  start: SpinePosition;
+  end: SpinePosition | null;
 }
 
 export class ChapterSplitter {
   private zip: JSZip | null = null;
   private opfDir: string = '';
+  // 按阅读顺序排列的正文文件路径（相对ZIP根目录）
+  private spine: string[] = [];
+  // 已读取的文件内容，注释解析时会反复读取同一文件
+  private documents = new Map<string, string>();
+  // 各文件是否为尾注章节
+  private notesFiles = new Map<string, boolean>();
+  private filePath: string = '';
+  private textExtractor: IChapterTextExtractor | null = null;
 
   async initialize(filePath: string): Promise<void> {
     try {
+      this.filePath = filePath;
+
+      // 非EPUB格式由对应解析器提供章节文本
+      const parser = ParserFactory.createParser(filePath);
+      if (isChapterTextExtractor(parser)) {
+        this.textExtractor = parser;
+        return;
+      }
+
       const buffer = await readFile(filePath);
       this.zip = await JSZip.loadAsync(buffer);
       
@@ -29,25 +79,46 @@ export class ChapterSplitter {
       const containerData = await parseStringPromise(containerXml);
       const opfPath = containerData.container.rootfiles[0].rootfile[0]['$']['full-path'];
       this.opfDir = path.dirname(opfPath);
+
+      // 读取spine阅读顺序
+      const opfData = await parseStringPromise(await this.getFileContent(opfPath));
+      this.spine = this.extractSpine(opfData);
     } catch (error) {
       throw new Error(`初始化章节拆分器失败: ${error.message}`);
     }
   }
 
   async splitChapters(tableOfContents: TocItem[], options: SplitOptions): Promise<ChapterContent[]> {
-    if (!this.zip) {
+    if (!this.zip && !this.textExtractor) {
       throw new Error('章节拆分器未初始化');
     }
 
     try {
-      // 根据层级筛选目录项
-      const targetTocItems = this.filterTocByLevel(tableOfContents, options.level);
+      // 旧的解析结果中目录项可能没有角色，按标题补充
+      tableOfContents = classifyTableOfContents(tableOfContents);
+      const skipRoles = options.skipRoles || [];
+
+      // 根据层级筛选目录项，尾注章节的内容会归入引用它的章节，不单独拆分
+      const targetTocItems: TocItem[] = [];
+      for (const tocItem of this.filterTocByLevel(tableOfContents, options.level)) {
+        if (skipRoles.includes(tocItem.role!)) {
+          console.log(`[ChapterSplitter] 跳过${CHAPTER_ROLE_LABELS[tocItem.role!]}: ${tocItem.title}`);
+          continue;
+        }
+        if (!this.textExtractor && await this.isNotesSection(tocItem)) {
+          console.log(`[ChapterSplitter] 跳过尾注章节: ${tocItem.title}`);
+          continue;
+        }
+        targetTocItems.push(tocItem);
+      }
       
       const chapters: ChapterContent[] = [];
       
       for (const tocItem of targetTocItems) {
         try {
-          const content = await this.extractChapterContent(tocItem, options);
+          const content = this.textExtractor
+            ? await this.extractExternalChapterContent(tocItem, tableOfContents, options)
+            : await this.extractChapterContent(tocItem, tableOfContents, options);
           if (content) {
             chapters.push(content);
           }
@@ -72,7 +143,11 @@ export class ChapterSplitter {
     return tableOfContents.filter(item => item.level === targetLevel);
   }
 
-  private async extractChapterContent(tocItem: TocItem, options: SplitOptions): Promise<ChapterContent | null> {
+  private async extractChapterContent(
+    tocItem: TocItem,
+    tableOfContents: TocItem[],
+    options: SplitOptions
+  ): Promise<ChapterContent | null> {
     try {
       if (!tocItem.href) {
         return null;
@@ -80,35 +155,48 @@ export class ChapterSplitter {
 
       console.log(`[ChapterSplitter] 提取章节: ${tocItem.title}`);
       console.log(`[ChapterSplitter] 章节级别: ${tocItem.level}`);
-      
+
       let textContent = '';
-      
-      // 检查是否是部分标题（如"第一部分"），需要合并多个章节内容
-      if (this.isPartTitle(tocItem.title)) {
-        console.log(`[ChapterSplitter] 检测到部分标题，开始合并相关章节内容`);
-        textContent = await this.extractPartContent(tocItem, options);
+      const blocks: ChapterBlock[] | null = options.structured ? [] : null;
+      const notes = new Map<string, ResolvedNote>();
+      const range = this.getSpineRange(tocItem, tableOfContents);
+
+      if (range) {
+        const { start, end } = range;
+        const lastIndex = end ? (end.anchor ? end.index : end.index - 1) : this.spine.length - 1;
+        console.log(`[ChapterSplitter] spine范围: ${this.spine[start.index]}${start.anchor ? '#' + start.anchor : ''} -> ${end ? this.spine[end.index] + (end.anchor ? '#' + end.anchor : '') : '末尾'}`);
+
+        const parts: string[] = [];
+        for (let i = start.index; i <= lastIndex; i++) {
+          // 章节范围跨过的尾注文件不计入正文
+          if (i > start.index && await this.isNotesFile(this.spine[i])) {
+            continue;
+          }
+
+          const { html, offset } = this.extractBody(await this.getFileContent(this.spine[i]));
+          const from = i === start.index ? this.findAnchorOffset(html, start.anchor) ?? 0 : 0;
+          // 找不到结束锚点时：与开始位置在同一文件则读到文件末尾，在后面的文件则止于文件开头，不把下一章的内容计入本章
+          const missingEnd = i === start.index ? html.length : 0;
+          const to = Math.max(from, end && i === end.index ? this.findAnchorOffset(html, end.anchor) ?? missingEnd : html.length);
+          const text = await this.extractSection(this.spine[i], html.substring(from, to), offset + from, notes, blocks);
+          if (text.trim()) {
+            parts.push(text);
+          }
+        }
+        textContent = parts.join('\n\n');
       } else {
-        // 处理单个章节
-        const href = tocItem.href.split('#')[0];
-        
-        // 构建完整路径，正确处理opfDir
-        let fullPath: string;
-        if (!this.opfDir || this.opfDir === '.' || this.opfDir === '') {
-          fullPath = href;
-        } else {
-          fullPath = `${this.opfDir}/${href}`;
+        // 目录项指向spine之外的文件时，只读取该文件
+        const fullPath = this.resolveHref(tocItem.href);
+        console.log(`[ChapterSplitter] 文件不在spine中，直接读取: ${fullPath}`);
+        const { html, offset } = this.extractBody(await this.getFileContent(fullPath));
+        textContent = await this.extractSection(fullPath, html, offset, notes, blocks);
+      }
+
+      // 注释内容作为脚注块附在结构化内容末尾
+      if (blocks) {
+        for (const note of notes.values()) {
+          blocks.push({ type: 'footnote', text: note.text, id: note.id, source: note.source });
         }
-        
-        console.log(`[ChapterSplitter] 原始href: ${tocItem.href}`);
-        console.log(`[ChapterSplitter] 处理后href: ${href}`);
-        console.log(`[ChapterSplitter] opfDir: "${this.opfDir}"`);
-        console.log(`[ChapterSplitter] 最终路径: ${fullPath}`);
-        
-        // 读取HTML文件
-        const htmlContent = await this.getFileContent(fullPath);
-        
-        // 提取文本内容
-        textContent = this.extractTextFromHtml(htmlContent);
       }
       
       // 清理和格式化文本
@@ -124,7 +212,10 @@ export class ChapterSplitter {
         title: tocItem.title,
         content: textContent,
         wordCount: this.countWords(textContent),
-        level: tocItem.level
+        level: tocItem.level,
+        role: tocItem.role,
+        ...(blocks ? { blocks } : {}),
+        ...(notes.size > 0 ? { notes: [...notes.values()].map(({ id, marker, text }) => ({ id, marker, text })) } : {})
       };
     } catch (error) {
       console.error(`提取章节内容错误 [${tocItem.title}]:`, error);
@@ -132,30 +223,276 @@ export class ChapterSplitter {
     }
   }
 
+  /**
+   * 提取一段正文：解析其中的注释引用和内嵌注释，注释内容收集到notes中并从正文移除
+   * @param file 所在文件（ZIP内路径）
+   * @param html 正文HTML片段
+   * @param offset 片段在文件中的起始偏移
+   * @returns 正文纯文本
+   */
+  private async extractSection(
+    file: string,
+    html: string,
+    offset: number,
+    notes: Map<string, ResolvedNote>,
+    blocks: ChapterBlock[] | null
+  ): Promise<string> {
+    const masked: Array<{ start: number; end: number }> = [];
+
+    for (const reference of findNoteReferences(html)) {
+      const target = this.resolveNoteTarget(file, reference.href);
+      if (!target) continue;
+
+      let note: ReturnType<typeof readNote> = null;
+      try {
+        note = readNote(await this.getFileContent(target.file), target.anchor);
+      } catch {
+        // 引用指向不存在的文件时按普通链接处理
+      }
+      if (!note) continue;
+
+      const id = `${target.file}#${target.anchor}`;
+      if (!notes.has(id)) {
+        notes.set(id, { id, marker: reference.marker, text: note.text, source: { href: target.file, start: note.start, end: note.end } });
+      }
+      masked.push(reference);
+    }
+
+    // 没有被引用的内嵌注释也归入本章
+    for (const inline of findInlineNotes(html)) {
+      masked.push(inline);
+      if (!inline.text) continue;
+
+      const id = `${file}#${inline.id ?? offset + inline.start}`;
+      if (!notes.has(id)) {
+        notes.set(id, { id, marker: '', text: inline.text, source: { href: file, start: offset + inline.start, end: offset + inline.end } });
+      }
+    }
+
+    // 覆盖而不是删除，保持结构化内容块的来源偏移不变
+    const body = masked.length > 0 ? maskRanges(html, masked) : html;
+    if (blocks) {
+      blocks.push(...htmlToBlocks(body, file, offset));
+    }
+    return this.extractTextFromHtml(body);
+  }
+
+  /**
+   * 解析注释引用的目标文件和锚点，href相对于引用所在文件
+   */
+  private resolveNoteTarget(file: string, href: string): { file: string; anchor: string } | null {
+    const hashIndex = href.indexOf('#');
+    const filePart = href.substring(0, hashIndex);
+    let anchor = href.substring(hashIndex + 1);
+    if (!anchor || /^[a-z][a-z0-9+.-]*:/i.test(filePart)) {
+      return null;
+    }
+
+    try {
+      anchor = decodeURIComponent(anchor);
+    } catch {
+      // 保留无法解码的原始锚点
+    }
+    if (!filePart) {
+      return { file, anchor };
+    }
+
+    let decoded = filePart;
+    try {
+      decoded = decodeURIComponent(filePart);
+    } catch {
+      // 保留无法解码的原始路径
+    }
+    return { file: path.posix.join(path.posix.dirname(file), decoded), anchor };
+  }
+
+  /**
+   * 目录项是否指向尾注章节：被分类为注释，或所在文件整体标记为注释集合
+   */
+  private async isNotesSection(tocItem: TocItem): Promise<boolean> {
+    if (tocItem.role === 'endnotes') {
+      return true;
+    }
+    return tocItem.href ? this.isNotesFile(this.resolveHref(tocItem.href)) : false;
+  }
+
+  private async isNotesFile(file: string): Promise<boolean> {
+    if (!this.notesFiles.has(file)) {
+      let isNotes = false;
+      try {
+        isNotes = isNotesDocument(await this.getFileContent(file));
+      } catch {
+        // 文件不存在时视为普通章节
+      }
+      this.notesFiles.set(file, isNotes);
+    }
+    return this.notesFiles.get(file)!;
+  }
+
+  /**
+   * 计算目录项覆盖的spine范围：从目录项的文件和锚点开始，
+   * 到下一个同级或更高级目录项的文件和锚点之前，
+   * 这样部分、章、节都能得到各自完整的正文，多个章节共用一个文件时也不会重复
+   */
+  private getSpineRange(tocItem: TocItem, tableOfContents: TocItem[]): SpineRange | null {
+    const start = this.getSpinePosition(tocItem.href);
+    if (!start) {
+      return null;
+    }
+
+    const index = tableOfContents.findIndex(item => item.id === tocItem.id);
+    for (let i = index + 1; i < tableOfContents.length; i++) {
+      const next = tableOfContents[i];
+      if (next.level > tocItem.level || !next.href) {
+        continue;
+      }
+
+      const end = this.getSpinePosition(next.href);
+      if (!end || end.index < start.index) {
+        continue;
+      }
+      // 同一文件中，下一个目录项没有锚点或锚点相同，无法作为结束位置，取到文件末尾
+      if (end.index === start.index && (!end.anchor || end.anchor === start.anchor)) {
+        return { start, end: { index: start.index + 1, anchor: null } };
+      }
+      return { start, end };
+    }
+
+    return { start, end: null };
+  }
+
+  private getSpinePosition(href: string): SpinePosition | null {
+    const index = this.spine.indexOf(this.resolveHref(href));
+    if (index < 0) {
+      return null;
+    }
+
+    const hashIndex = href.indexOf('#');
+    let anchor = hashIndex >= 0 ? href.substring(hashIndex + 1) : '';
+    try {
+      anchor = decodeURIComponent(anchor);
+    } catch {
+      // 保留无法解码的原始锚点
+    }
+    return { index, anchor: anchor || null };
+  }
+
+  /**
+   * 查找锚点元素（id或name属性）的起始位置，找不到时返回null
+   */
+  private findAnchorOffset(html: string, anchor: string | null): number | null {
+    if (!anchor) {
+      return null;
+    }
+
+    const escaped = anchor.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const match = new RegExp(`<[^>]*\\s(?:id|name)\\s*=\\s*["']${escaped}["']`, 'i').exec(html);
+    return match ? match.index : null;
+  }
+
+  /**
+   * 只保留body内的HTML，避免head中的title等混入正文
+   * offset为body内容在原文件中的起始位置，用于结构化内容块的来源偏移
+   */
+  private extractBody(html: string): { html: string; offset: number } {
+    const match = /(<body[^>]*>)([\s\S]*?)(?:<\/body>|$)/i.exec(html);
+    return match
+      ? { html: match[2], offset: match.index + match[1].length }
+      : { html, offset: 0 };
+  }
+
+  /**
+   * 从OPF读取spine，返回按阅读顺序排列的文件路径
+   */
+  private extractSpine(opfData: OpfSpineData): string[] {
+    const manifestItems = opfData?.package?.manifest?.[0]?.item || [];
+    const spineItems = opfData?.package?.spine?.[0]?.itemref || [];
+
+    const hrefById = new Map<string, string>();
+    for (const item of manifestItems) {
+      if (item.$?.id && item.$?.href) {
+        hrefById.set(item.$.id, item.$.href);
+      }
+    }
+
+    return spineItems
+      .map(itemref => hrefById.get(itemref.$?.idref))
+      .filter((href): href is string => !!href)
+      .map(href => this.resolveHref(href));
+  }
+
+  /**
+   * 将目录或清单中的href（相对OPF目录）转换为ZIP内路径，去掉#锚点
+   */
+  private resolveHref(href: string): string {
+    let filePart = href.split('#')[0];
+    try {
+      filePart = decodeURIComponent(filePart);
+    } catch {
+      // 保留无法解码的原始路径
+    }
+
+    if (!this.opfDir || this.opfDir === '.') {
+      return path.posix.normalize(filePart);
+    }
+    return path.posix.join(this.opfDir, filePart);
+  }
+
+  /**
+   * 通过解析器提取非EPUB格式的章节内容
+   */
+  private async extractExternalChapterContent(
+    tocItem: TocItem,
+    tableOfContents: TocItem[],
+    options: SplitOptions
+  ): Promise<ChapterContent | null> {
+    try {
+      console.log(`[ChapterSplitter] 提取章节: ${tocItem.title}`);
+      const rawText = await this.textExtractor!.extractChapterText(this.filePath, tocItem, tableOfContents);
+      let textContent = this.cleanText(rawText);
+
+      if (options.maxChapterLength && textContent.length > options.maxChapterLength) {
+        textContent = textContent.substring(0, options.maxChapterLength) + '...';
+      }
+
+      return {
+        index: 0,
+        title: tocItem.title,
+        content: textContent,
+        wordCount: this.countWords(textContent),
+        level: tocItem.level,
+        role: tocItem.role,
+        ...(options.structured ? { blocks: this.textToBlocks(rawText, tocItem.href) } : {})
+      };
+    } catch (error) {
+      console.error(`提取章节内容错误 [${tocItem.title}]:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * 非EPUB格式没有HTML结构，按空行或换行把解析器提取的文本切分为段落块
+   */
+  private textToBlocks(text: string, href: string): ChapterBlock[] {
+    const blocks: ChapterBlock[] = [];
+    const pattern = /[^\n]+/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      const paragraph = match[0].replace(/\s+/g, ' ').trim();
+      if (paragraph) {
+        blocks.push({
+          type: 'paragraph',
+          text: paragraph,
+          source: { href, start: match.index, end: match.index + match[0].length }
+        });
+      }
+    }
+    return blocks;
+  }
+
   private extractTextFromHtml(html: string): string {
     try {
-      // 移除HTML标签，保留文本内容
-      let text = html
-        // 移除script和style标签及其内容
-        .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
-        .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
-        // 将块级元素转换为换行
-        .replace(/<\/(div|p|h[1-6]|li|section|article)>/gi, '\n')
-        .replace(/<(br|hr)\s*\/?>/gi, '\n')
-        // 移除所有HTML标签
-        .replace(/<[^>]+>/g, '')
-        // 解码HTML实体
-        .replace(/&nbsp;/g, ' ')
-        .replace(/&amp;/g, '&')
-        .replace(/&lt;/g, '<')
-        .replace(/&gt;/g, '>')
-        .replace(/&quot;/g, '"')
-        .replace(/&#39;/g, "'")
-        .replace(/&hellip;/g, '...')
-        .replace(/&mdash;/g, '—')
-        .replace(/&ndash;/g, '–');
-      
-      return text;
+      return htmlToText(html);
     } catch (error) {
       console.error('HTML文本提取错误:', error);
       return '';
@@ -179,12 +516,19 @@ export class ChapterSplitter {
       throw new Error('ZIP文件未加载');
     }
     
+    const cached = this.documents.get(filePath);
+    if (cached !== undefined) {
+      return cached;
+    }
+
     const file = this.zip.file(filePath);
     if (!file) {
       throw new Error(`文件不存在: ${filePath}`);
     }
     
-    return await file.async('text');
+    const content = await file.async('text');
+    this.documents.set(filePath, content);
+    return content;
   }
 
   /**
@@ -226,132 +570,6 @@ export class ChapterSplitter {
     };
   }
 
-  /**
-   * 检查是否是部分标题（如"第一部分"、"第二部分"等）
-   */
-  private isPartTitle(title: string): boolean {
-    return /第[一二三四五六七八九十\d]+部分/.test(title) || 
-           /Part\s+[IVX\d]+/i.test(title) ||
-           title.includes('部分');
-  }
-
-  /**
-   * 提取部分内容，合并该部分下的所有章节
-   */
-  private async extractPartContent(partItem: TocItem, options: SplitOptions): Promise<string> {
-    try {
-      // 首先获取部分标题所在文件的内容
-      const href = partItem.href.split('#')[0];
-      let fullPath: string;
-      if (!this.opfDir || this.opfDir === '.' || this.opfDir === '') {
-        fullPath = href;
-      } else {
-        fullPath = `${this.opfDir}/${href}`;
-      }
-      
-      console.log(`[ChapterSplitter] 提取部分内容，起始文件: ${fullPath}`);
-      
-      let combinedContent = '';
-      
-      // 读取起始文件内容
-      const startHtmlContent = await this.getFileContent(fullPath);
-      combinedContent += this.extractTextFromHtml(startHtmlContent);
-      
-      // 根据部分标题确定需要合并的章节范围
-      const chapterRange = this.getChapterRangeForPart(partItem.title);
-      if (chapterRange) {
-        console.log(`[ChapterSplitter] 需要合并第${chapterRange.start}-${chapterRange.end}章`);
-        
-        // 查找并合并相关章节文件
-        const additionalContent = await this.extractChapterRangeContent(chapterRange);
-        if (additionalContent) {
-          combinedContent += '\n\n' + additionalContent;
-        }
-      }
-      
-      console.log(`[ChapterSplitter] 合并后内容长度: ${combinedContent.length} 字符`);
-      return combinedContent;
-    } catch (error) {
-      console.error('提取部分内容失败:', error);
-      return '';
-    }
-  }
-
-  /**
-   * 根据部分标题确定章节范围
-   */
-  private getChapterRangeForPart(partTitle: string): { start: number; end: number } | null {
-    if (partTitle.includes('第一部分')) {
-      return { start: 2, end: 4 }; // 第2-4章（第1章已经在起始文件中）
-    } else if (partTitle.includes('第二部分')) {
-      return { start: 5, end: 8 }; // 第5-8章
-    } else if (partTitle.includes('第三部分')) {
-      return { start: 9, end: 11 }; // 第9-11章
-    } else if (partTitle.includes('第四部分')) {
-      return { start: 12, end: 15 }; // 第12-15章
-    } else if (partTitle.includes('第五部分')) {
-      return { start: 16, end: 17 }; // 第16-17章
-    }
-    return null;
-  }
-
-  /**
-   * 提取指定章节范围的内容
-   */
-  private async extractChapterRangeContent(range: { start: number; end: number }): Promise<string> {
-    try {
-      let content = '';
-      
-      // 完整的章节文件映射表
-      const chapterFiles: { [key: number]: string } = {
-        // 第一部分 (第1-4章)
-        2: 'text/part0006.html',
-        3: 'text/part0007.html', 
-        4: 'text/part0008.html',
-        // 第二部分 (第5-8章)
-        5: 'text/part0009.html',
-        6: 'text/part0010.html',
-        7: 'text/part0011.html',
-        8: 'text/part0012.html',
-        // 第三部分 (第9-11章)
-        9: 'text/part0013.html',
-        10: 'text/part0014.html',
-        11: 'text/part0015.html',
-        // 第四部分 (第12-15章)
-        12: 'text/part0016.html',
-        13: 'text/part0017.html',
-        14: 'text/part0018.html',
-        15: 'text/part0019.html',
-        // 第五部分 (第16-17章)
-        16: 'text/part0020.html',
-        17: 'text/part0021.html'
-      };
-      
-      for (let chapterNum = range.start; chapterNum <= range.end; chapterNum++) {
-        const filePath = chapterFiles[chapterNum];
-        if (filePath) {
-          console.log(`[ChapterSplitter] 读取第${chapterNum}章文件: ${filePath}`);
-          try {
-            const htmlContent = await this.getFileContent(filePath);
-            const textContent = this.extractTextFromHtml(htmlContent);
-            if (textContent.trim()) {
-              content += '\n\n' + textContent;
-            }
-          } catch (error) {
-            console.warn(`[ChapterSplitter] 无法读取第${chapterNum}章文件 ${filePath}:`, error.message);
-          }
-        } else {
-          console.warn(`[ChapterSplitter] 第${chapterNum}章没有对应的文件映射`);
-        }
-      }
-      
-      return content;
-    } catch (error) {
-      console.error('提取章节范围内容失败:', error);
-      return '';
-    }
-  }
-
   private countWords(text: string): number {
     // 简单的中英文字数统计
     const chineseChars = (text.match(/[\u4e00-\u9fff]/g) || []).length;
@@ -399,7 +617,13 @@ export class ChapterSplitter {
    * 清理资源
    */
   dispose(): void {
+    this.textExtractor?.dispose?.();
+    this.textExtractor = null;
+    this.filePath = '';
     this.zip = null;
     this.opfDir = '';
+    this.spine = [];
+    this.documents.clear();
+    this.notesFiles.clear();
   }
 }
\ No newline at end of file
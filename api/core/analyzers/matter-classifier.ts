@@ -0,0 +1,170 @@
+// 前后辅文分类器
+import { TocItem, ChapterRole } from '../../types/book.types';
+
+// 默认跳过的非正文角色；序言、导言、后记、附录等可能包含实质内容，需要时通过skipRoles指定
+export const NON_BODY_ROLES: ChapterRole[] = [
+  'cover', 'titlepage', 'copyright', 'dedication', 'epigraph', 'toc',
+  'acknowledgements', 'bibliography', 'glossary', 'index', 'endnotes', 'about-author', 'colophon'
+];
+
+// 各角色的中文名称，用于日志和界面显示
+export const CHAPTER_ROLE_LABELS: Record<ChapterRole, string> = {
+  'cover': '封面',
+  'titlepage': '扉页',
+  'copyright': '版权页',
+  'dedication': '献词',
+  'epigraph': '题记',
+  'toc': '目录',
+  'foreword': '序',
+  'preface': '前言',
+  'introduction': '导言',
+  'prologue': '序章',
+  'body': '正文',
+  'epilogue': '尾声',
+  'afterword': '后记',
+  'appendix': '附录',
+  'acknowledgements': '致谢',
+  'bibliography': '参考文献',
+  'glossary': '术语表',
+  'index': '索引',
+  'endnotes': '注释',
+  'about-author': '作者简介',
+  'colophon': '版本说明'
+};
+
+// EPUB3结构语义（epub:type、landmarks）及EPUB2 guide的type与角色的对应关系
+const SEMANTIC_ROLES: Record<string, ChapterRole> = {
+  'cover': 'cover',
+  'titlepage': 'titlepage',
+  'title-page': 'titlepage',
+  'halftitlepage': 'titlepage',
+  'fulltitle': 'titlepage',
+  'copyright-page': 'copyright',
+  'copyright': 'copyright',
+  'dedication': 'dedication',
+  'epigraph': 'epigraph',
+  'toc': 'toc',
+  'foreword': 'foreword',
+  'preface': 'preface',
+  'introduction': 'introduction',
+  'prologue': 'prologue',
+  'bodymatter': 'body',
+  'text': 'body',
+  'chapter': 'body',
+  'part': 'body',
+  'epilogue': 'epilogue',
+  'afterword': 'afterword',
+  'conclusion': 'afterword',
+  'appendix': 'appendix',
+  'acknowledgments': 'acknowledgements',
+  'acknowledgements': 'acknowledgements',
+  'bibliography': 'bibliography',
+  'glossary': 'glossary',
+  'index': 'index',
+  'endnotes': 'endnotes',
+  'footnotes': 'endnotes',
+  'rearnotes': 'endnotes',
+  'notes': 'endnotes',
+  'contributors': 'about-author',
+  'colophon': 'colophon',
+  'imprint': 'colophon',
+  'other-credits': 'colophon'
+};
+
+// 标题关键词（去掉编号和标点后整体匹配），按顺序匹配第一个
+const TITLE_PATTERNS: Array<[RegExp, ChapterRole]> = [
+  [/^(?:封面|cover)$/i, 'cover'],
+  [/^(?:扉页|书名页|title ?page|half ?title)$/i, 'titlepage'],
+  [/^(?:版权(?:信息|页|声明|所有)?|copyright(?: page| notice)?)$/i, 'copyright'],
+  [/^(?:献词|题献|献给.{0,20}|dedication)$/i, 'dedication'],
+  [/^(?:题记|卷首语|epigraph)$/i, 'epigraph'],
+  [/^(?:目录|目次|contents|table of contents)$/i, 'toc'],
+  [/^(?:序|序言|代序|推荐序.{0,20}|.{0,10}版序|foreword)$/i, 'foreword'],
+  [/^(?:前言|自序|preface)$/i, 'preface'],
+  [/^(?:导言|导论|引言|绪论|introduction)$/i, 'introduction'],
+  [/^(?:序章|序幕|楔子|prologue)$/i, 'prologue'],
+  [/^(?:尾声|终章|epilogue)$/i, 'epilogue'],
+  [/^(?:后记|跋|结语|译后记|afterword|postscript)$/i, 'afterword'],
+  [/^(?:附录.{0,30}|appendix.{0,40}|appendices)$/i, 'appendix'],
+  [/^(?:致谢|鸣谢|谢辞|acknowledge?ments?)$/i, 'acknowledgements'],
+  [/^(?:参考文献|参考书目|书目|延伸阅读|推荐阅读|bibliography|references|further reading|selected reading)$/i, 'bibliography'],
+  [/^(?:术语表|词汇表|名词解释|glossary)$/i, 'glossary'],
+  [/^(?:索引|人名索引|主题索引|index)$/i, 'index'],
+  [/^(?:注释|注解|尾注|附注|注|notes|endnotes|footnotes)$/i, 'endnotes'],
+  [/^(?:关于作者|作者简介|作者介绍|译者简介|about the authors?|about the translators?)$/i, 'about-author'],
+  [/^(?:版本记录|出版说明|colophon|also by .{1,40}|by the same author)$/i, 'colophon']
+];
+
+/**
+ * 根据结构语义类型（可包含多个空格分隔的值，支持doc-前缀的ARIA角色）识别角色
+ * @param type epub:type、role或guide的type属性
+ * @returns 识别出的角色，无法识别时返回null
+ */
+export function roleFromSemanticType(type: string | undefined): ChapterRole | null {
+  if (!type) {
+    return null;
+  }
+
+  for (const value of type.toLowerCase().split(/\s+/)) {
+    const role = SEMANTIC_ROLES[value.replace(/^doc-/, '')];
+    if (role) {
+      return role;
+    }
+  }
+  return null;
+}
+
+/**
+ * 根据标题识别角色
+ * @param title 目录项标题
+ * @returns 识别出的角色，无法识别时返回null
+ */
+export function roleFromTitle(title: string): ChapterRole | null {
+  const normalized = title
+    .trim()
+    // 去掉前置编号，如“1.”、“一、”、“Ⅰ”
+    .replace(/^(?:[\dIVXⅠ-Ⅻ]+|[一二三四五六七八九十]+)[.、．:：\s]+/i, '')
+    .replace(/[\s\u3000]+/g, ' ')
+    .replace(/^[【[（(<《]+|[】\]）)>》:：.。]+$/g, '')
+    .trim();
+
+  for (const [pattern, role] of TITLE_PATTERNS) {
+    if (pattern.test(normalized)) {
+      return role;
+    }
+  }
+  return null;
+}
+
+/**
+ * 为目录项标注角色：已有角色的保留，其次是结构语义，再次是标题关键词；
+ * 无法识别的子项沿用父项的角色（如附录下的各节），其余视为正文
+ * @param tableOfContents 目录项（按阅读顺序，父项在前）
+ * @param semanticRoles 结构语义提供的角色，键为目录项href（可带#锚点）
+ * @returns 标注了角色的新目录项数组
+ */
+export function classifyTableOfContents(
+  tableOfContents: TocItem[],
+  semanticRoles: Map<string, ChapterRole> = new Map()
+): TocItem[] {
+  const roleById = new Map<string, ChapterRole>();
+
+  return tableOfContents.map(item => {
+    const role = item.role
+      ?? lookupSemanticRole(item.href, semanticRoles)
+      ?? roleFromTitle(item.title)
+      ?? (item.parent_id ? roleById.get(item.parent_id) : undefined)
+      ?? 'body';
+    roleById.set(item.id, role);
+    return { ...item, role };
+  });
+}
+
+function lookupSemanticRole(href: string, semanticRoles: Map<string, ChapterRole>): ChapterRole | null {
+  if (!href || semanticRoles.size === 0) {
+    return null;
+  }
+
+  // 优先精确匹配（含锚点），其次匹配整个文件
+  return semanticRoles.get(href) ?? semanticRoles.get(href.split('#')[0]) ?? null;
+}
@@ -1,5 +1,6 @@
 // EPUB解析器基础接口
-import { ParseResult } from '../../types/book.types';
+import { ParseResult, TocItem } from '../../types/book.types';
+import { classifyTableOfContents } from '../analyzers/matter-classifier';
 
 // 基础解析器接口
 export interface IBaseParser {
@@ -8,11 +9,28 @@ export interface IBaseParser {
   getSupportedFormats(): string[];
 }
 
+// 章节文本提取接口
+// EPUB之外的格式由解析器自行按目录项提取正文，供ChapterSplitter拆分章节
+export interface IChapterTextExtractor {
+  extractChapterText(filePath: string, tocItem: TocItem, tableOfContents: TocItem[]): Promise<string>;
+  dispose?(): void;
+}
+
+/**
+ * 判断解析器是否支持按目录项提取章节文本
+ */
+export function isChapterTextExtractor(parser: IBaseParser): parser is IBaseParser & IChapterTextExtractor {
+  return typeof (parser as Partial<IChapterTextExtractor>).extractChapterText === 'function';
+}
+
 // 解析器类型
 export enum ParserType {
   EPUB = 'epub',
   PDF = 'pdf',
-  TXT = 'txt'
+  TXT = 'txt',
+  MOBI = 'mobi',
+  FB2 = 'fb2',
+  DOCX = 'docx'
 }
 
 // 解析配置
@@ -81,9 +99,10 @@ export abstract class BaseParser implements IBaseParser {
         publication_date: '',
         language: ''
       },
-      tableOfContents: data.tableOfContents || [],
       success: true,
-      ...data
+      ...data,
+      // 各格式统一按标题识别前后辅文，解析器已标注的角色保持不变
+      tableOfContents: classifyTableOfContents(data.tableOfContents || [])
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,368 @@
+// DOCX（Word文档）解析器实现
+import * as fs from 'fs';
+import { promisify } from 'util';
+import JSZip from 'jszip';
+import { v4 as uuidv4 } from 'uuid';
+import { BaseParser, ParseConfig, IChapterTextExtractor } from './base-parser';
+import { ParseResult, BookInfo, TocItem } from '../../types/book.types';
+import { XmlNode, parseOrderedXml, localName, childElement, childElements, attribute, nodeText } from '../utils/xml-nodes';
+import { sampleFile } from '../utils/file-sniffer';
+import { detectDocx } from './format-detector';
+
+const readFile = promisify(fs.readFile);
+
+// 参与目录的最深标题级别（Heading 1-3）
+const MAX_HEADING_LEVEL = 3;
+
+// 没有任何标题样式时，按固定字数切分
+const CHARS_PER_FALLBACK_SECTION = 5000;
+
+// 遍历段落时跳过的元素：属性、删除修订、域代码
+const SKIPPED_ELEMENTS = new Set(['pPr', 'rPr', 'del', 'delText', 'instrText', 'commentReference', 'footnoteReference', 'endnoteReference']);
+
+// 文档中的段落
+interface DocxParagraph {
+  text: string;
+  headingLevel: number | null;
+}
+
+// 已解析的DOCX文档
+interface DocxDocument {
+  zip: JSZip;
+  // 按文档顺序排列的段落，目录项通过#block=N指向标题段落
+  blocks: string[];
+  tableOfContents: TocItem[];
+}
+
+/**
+ * 判断文件内容是否为DOCX（包含word/document.xml的ZIP）
+ * 文件不存在时（如上传前只有文件名）按扩展名判断
+ * @param filePath 文件路径
+ */
+export function isDocxFile(filePath: string): boolean {
+  if (!fs.existsSync(filePath)) {
+    return filePath.toLowerCase().endsWith('.docx');
+  }
+
+  const sample = sampleFile(filePath);
+  return !!sample && detectDocx(sample) > 0;
+}
+
+export class DocxParser extends BaseParser implements IChapterTextExtractor {
+  private documents: Map<string, Promise<DocxDocument>> = new Map();
+
+  constructor(config?: Partial<ParseConfig>) {
+    super(config);
+  }
+
+  getSupportedFormats(): string[] {
+    return ['.docx'];
+  }
+
+  /**
+   * 验证DOCX文件的有效性
+   * @param filePath 文件路径
+   * @returns 验证结果
+   */
+  async validate(filePath: string): Promise<boolean> {
+    try {
+      if (!fs.existsSync(filePath)) {
+        console.warn(`DOCX验证失败: 文件不存在 - ${filePath}`);
+        return false;
+      }
+
+      const stats = fs.statSync(filePath);
+      if (stats.size > 100 * 1024 * 1024) { // 100MB限制
+        console.warn(`DOCX验证失败: 文件过大 (${Math.round(stats.size / 1024 / 1024)}MB) - ${filePath}`);
+        return false;
+      }
+
+      if (!isDocxFile(filePath)) {
+        console.warn(`DOCX验证失败: 缺少word/document.xml - ${filePath}`);
+        return false;
+      }
+
+      console.log(`DOCX验证成功: ${filePath}`);
+      return true;
+    } catch (error) {
+      console.error(`DOCX验证异常: ${filePath}`, error);
+      return false;
+    }
+  }
+
+  /**
+   * 解析DOCX文件
+   * @param filePath 文件路径
+   * @returns 解析结果
+   */
+  async parse(filePath: string): Promise<ParseResult> {
+    console.log(`开始解析DOCX文件: ${filePath}`);
+
+    try {
+      console.log('步骤1: 验证DOCX文件格式...');
+      const isValid = await this.validate(filePath);
+      if (!isValid) {
+        return this.createError('无效的DOCX文件');
+      }
+
+      console.log('步骤2: 解析文档段落与标题样式...');
+      const document = await this.loadDocument(filePath);
+      console.log(`共 ${document.blocks.length} 个段落`);
+
+      console.log('步骤3: 提取书籍基本信息...');
+      const bookInfo = await this.extractBookInfo(document.zip);
+      console.log(`书籍信息: ${bookInfo.title} - ${bookInfo.author}`);
+
+      console.log('步骤4: 提取目录结构...');
+      const tableOfContents = this.config.extractToc ? document.tableOfContents : [];
+      console.log(`提取到 ${tableOfContents.length} 个目录项`);
+
+      console.log('DOCX解析完成');
+      return this.createSuccess({
+        bookInfo,
+        coverInfo: {
+          cover_image: '',
+          cover_alt_text: 'Word文档无封面'
+        },
+        tableOfContents
+      });
+    } catch (error) {
+      console.error('DOCX解析错误:', error);
+      return this.createError(`解析失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    } finally {
+      this.dispose();
+    }
+  }
+
+  /**
+   * 提取目录项对应的正文：从标题段落之后到下一个同级或更高级目录项之前
+   * @param filePath 文件路径
+   * @param tocItem 目录项
+   * @param tableOfContents 完整目录
+   * @returns 章节文本
+   */
+  async extractChapterText(filePath: string, tocItem: TocItem, tableOfContents: TocItem[]): Promise<string> {
+    const { blocks } = await this.loadDocument(filePath);
+    const start = this.getBlockFromHref(tocItem.href);
+    if (start === null) {
+      throw new Error(`目录项缺少段落位置: ${tocItem.title}`);
+    }
+
+    let end = blocks.length;
+    const index = tableOfContents.findIndex(item => item.id === tocItem.id);
+    for (let i = index + 1; i < tableOfContents.length; i++) {
+      const next = tableOfContents[i];
+      const nextBlock = this.getBlockFromHref(next.href);
+      if (next.level <= tocItem.level && nextBlock !== null) {
+        end = nextBlock;
+        break;
+      }
+    }
+
+    // 自动生成的分段没有标题段落，需要包含起始段落
+    const isHeadingBlock = blocks[start] === tocItem.title;
+    return blocks.slice(isHeadingBlock ? start + 1 : start, end).join('\n');
+  }
+
+  /**
+   * 释放已解析的文档
+   */
+  dispose(): void {
+    this.documents.clear();
+  }
+
+  private loadDocument(filePath: string): Promise<DocxDocument> {
+    let loading = this.documents.get(filePath);
+    if (!loading) {
+      loading = this.readDocument(filePath);
+      this.documents.set(filePath, loading);
+    }
+    return loading;
+  }
+
+  private async readDocument(filePath: string): Promise<DocxDocument> {
+    const zip = await JSZip.loadAsync(await readFile(filePath));
+    const documentXml = await zip.file('word/document.xml')?.async('text');
+    if (!documentXml) {
+      throw new Error('缺少word/document.xml');
+    }
+
+    const styleLevels = await this.readHeadingStyles(zip);
+    const body = childElement(await parseOrderedXml(documentXml), 'body');
+    const paragraphs: DocxParagraph[] = [];
+    this.collectParagraphs(body, styleLevels, paragraphs);
+
+    const blocks: string[] = [];
+    const tableOfContents: TocItem[] = [];
+    const parents: Array<string | null> = new Array(MAX_HEADING_LEVEL).fill(null);
+
+    for (const paragraph of paragraphs) {
+      if (paragraph.headingLevel !== null) {
+        const level = paragraph.headingLevel;
+        const id = uuidv4();
+        tableOfContents.push({
+          id,
+          title: paragraph.text,
+          level,
+          href: `#block=${blocks.length}`,
+          // 跳级的标题（如Heading 1后直接Heading 3）挂到最近的上级标题下
+          parent_id: parents.slice(0, level - 1).reverse().find(parentId => parentId !== null) ?? null
+        });
+        parents[level - 1] = id;
+        for (let i = level; i < parents.length; i++) {
+          parents[i] = null;
+        }
+      }
+      blocks.push(paragraph.text);
+    }
+
+    if (tableOfContents.length === 0) {
+      console.log('未找到标题样式，按字数生成分段目录...');
+      tableOfContents.push(...this.buildFallbackToc(blocks));
+    }
+
+    return { zip, blocks, tableOfContents };
+  }
+
+  /**
+   * 从styles.xml读取标题样式：样式名为"heading N"或设置了大纲级别，并沿basedOn继承
+   * @returns 样式ID到标题级别的映射
+   */
+  private async readHeadingStyles(zip: JSZip): Promise<Map<string, number>> {
+    const levels = new Map<string, number>();
+    const stylesXml = await zip.file('word/styles.xml')?.async('text');
+    if (!stylesXml) {
+      return levels;
+    }
+
+    const styles = childElements(await parseOrderedXml(stylesXml), 'style')
+      .filter(style => attribute(style, 'type') === 'paragraph');
+    const byId = new Map(styles.map(style => [attribute(style, 'styleId') || '', style]));
+
+    const resolve = (styleId: string, depth: number): number | null => {
+      const style = byId.get(styleId);
+      if (!style || depth > 10) return null;
+
+      const name = attribute(childElement(style, 'name'), 'val') || '';
+      const nameMatch = name.match(/^heading\s*(\d)$/i);
+      if (nameMatch) return parseInt(nameMatch[1], 10);
+
+      const outline = attribute(childElement(childElement(style, 'pPr'), 'outlineLvl'), 'val');
+      if (outline !== undefined) return parseInt(outline, 10) + 1;
+
+      const basedOn = attribute(childElement(style, 'basedOn'), 'val');
+      return basedOn ? resolve(basedOn, depth + 1) : null;
+    };
+
+    for (const styleId of byId.keys()) {
+      const level = resolve(styleId, 0);
+      if (level !== null) {
+        levels.set(styleId, level);
+      }
+    }
+
+    return levels;
+  }
+
+  /**
+   * 按文档顺序收集段落，表格和内容控件中的段落同样展开
+   */
+  private collectParagraphs(node: XmlNode | undefined, styleLevels: Map<string, number>, paragraphs: DocxParagraph[]): void {
+    for (const child of node?.['$$'] || []) {
+      const name = localName(child);
+      if (name === 'p') {
+        const text = this.paragraphText(child).replace(/[ \t\u00a0]+/g, ' ').trim();
+        if (!text) continue;
+
+        const level = this.paragraphHeadingLevel(child, styleLevels);
+        paragraphs.push({
+          text,
+          headingLevel: level !== null && level >= 1 && level <= MAX_HEADING_LEVEL ? level : null
+        });
+      } else if (!SKIPPED_ELEMENTS.has(name)) {
+        this.collectParagraphs(child, styleLevels, paragraphs);
+      }
+    }
+  }
+
+  private paragraphHeadingLevel(paragraph: XmlNode, styleLevels: Map<string, number>): number | null {
+    const properties = childElement(paragraph, 'pPr');
+    const outline = attribute(childElement(properties, 'outlineLvl'), 'val');
+    if (outline !== undefined) {
+      return parseInt(outline, 10) + 1;
+    }
+
+    const styleId = attribute(childElement(properties, 'pStyle'), 'val');
+    return styleId ? styleLevels.get(styleId) ?? null : null;
+  }
+
+  private paragraphText(node: XmlNode): string {
+    let text = '';
+    for (const child of node['$$'] || []) {
+      const name = localName(child);
+      if (name === 't') {
+        text += nodeText(child);
+      } else if (name === 'tab') {
+        text += '\t';
+      } else if (name === 'br' || name === 'cr') {
+        text += ' ';
+      } else if (name !== '__text__' && !SKIPPED_ELEMENTS.has(name)) {
+        text += this.paragraphText(child);
+      }
+    }
+    return text;
+  }
+
+  private buildFallbackToc(blocks: string[]): TocItem[] {
+    const tocItems: TocItem[] = [];
+    let sectionChars = CHARS_PER_FALLBACK_SECTION;
+
+    blocks.forEach((block, index) => {
+      if (sectionChars >= CHARS_PER_FALLBACK_SECTION) {
+        tocItems.push({
+          id: uuidv4(),
+          title: `第${tocItems.length + 1}部分`,
+          level: 1,
+          href: `#block=${index}`,
+          parent_id: null
+        });
+        sectionChars = 0;
+      }
+      sectionChars += block.length;
+    });
+
+    return tocItems;
+  }
+
+  /**
+   * 从docProps/core.xml读取元数据，出版方取docProps/app.xml中的Company
+   */
+  private async extractBookInfo(zip: JSZip): Promise<BookInfo> {
+    const readProps = async (name: string): Promise<XmlNode | undefined> => {
+      const xml = await zip.file(name)?.async('text');
+      return xml ? parseOrderedXml(xml) : undefined;
+    };
+    const core = await readProps('docProps/core.xml');
+    const app = await readProps('docProps/app.xml');
+    const text = (node: XmlNode | undefined, name: string) => nodeText(childElement(node, name)).trim();
+
+    const identifier = text(core, 'identifier');
+    const isbnMatch = identifier.replace(/-/g, '').match(/97[89]\d{10}|\d{9}[\dX]/i);
+    const created = text(core, 'created').match(/\d{4}-\d{2}-\d{2}/);
+
+    return {
+      title: text(core, 'title') || '未知标题',
+      author: text(core, 'creator') || '未知作者',
+      publisher: text(app, 'Company') || '未知出版社',
+      isbn: isbnMatch ? isbnMatch[0] : '',
+      publication_date: created ? created[0] : '',
+      language: text(core, 'language') || 'zh',
+      description: text(core, 'description') || text(core, 'subject') || undefined
+    };
+  }
+
+  private getBlockFromHref(href: string): number | null {
+    const match = href?.match(/#block=(\d+)/);
+    return match ? parseInt(match[1], 10) : null;
+  }
+}
@@ -7,10 +7,20 @@ import JSZip from 'jszip';
 import sharp from 'sharp';
 import { v4 as uuidv4 } from 'uuid';
 import { BaseParser, ParseConfig } from './base-parser';
-import { ParseResult, BookInfo, CoverInfo, TocItem } from '../../types/book.types';
+import { ParseResult, BookInfo, CoverInfo, TocItem, ChapterRole } from '../../types/book.types';
+import { classifyTableOfContents, roleFromSemanticType } from '../analyzers/matter-classifier';
+import { getAttribute } from '../utils/html-tree';
 
 const readFile = promisify(fs.readFile);
 
+// xml2js解析出的OPF中与结构语义相关的部分
+interface OpfSemanticData {
+  package?: {
+    manifest?: Array<{ item?: Array<{ $?: Record<string, string> }> }>;
+    guide?: Array<{ reference?: Array<{ $?: Record<string, string> }> }>;
+  };
+}
+
 export class EPUBParser extends BaseParser {
   constructor(config?: Partial<ParseConfig>) {
     super(config);
@@ -156,11 +166,16 @@ export class EPUBParser extends BaseParser {
       const tableOfContents = await this.extractTableOfContents(zip, opfData, opfDir);
       console.log(`提取到 ${tableOfContents.length} 个目录项`);
 
+      // 根据landmarks、guide和文档的epub:type标注前后辅文
+      console.log('步骤8: 识别前后辅文...');
+      const semanticRoles = await this.extractSemanticRoles(zip, opfData, opfDir, tableOfContents);
+      console.log(`从landmarks、guide和文档语义识别到 ${semanticRoles.size} 个语义标记`);
+
       console.log('EPUB解析完成');
       return this.createSuccess({
         bookInfo,
         coverInfo,
-        tableOfContents
+        tableOfContents: classifyTableOfContents(tableOfContents, semanticRoles)
       });
     } catch (error) {
       console.error('EPUB解析错误:', error);
@@ -505,6 +520,72 @@ export class EPUBParser extends BaseParser {
     }
   }
 
+  /**
+   * 提取结构语义标记：EPUB3导航文件中的landmarks、EPUB2 OPF中的guide，
+   * 以及目录项所指文件body或顶层section上的epub:type
+   * @param zip EPUB文件的ZIP对象
+   * @param opfData OPF数据
+   * @param opfDir OPF文件所在目录
+   * @param tableOfContents 目录项
+   * @returns href到角色的映射，href与目录项的href写法一致
+   */
+  private async extractSemanticRoles(zip: JSZip, opfData: OpfSemanticData, opfDir: string, tableOfContents: TocItem[]): Promise<Map<string, ChapterRole>> {
+    const roles = new Map<string, ChapterRole>();
+
+    try {
+      // EPUB2 guide
+      const references = opfData.package?.guide?.[0]?.reference || [];
+      for (const reference of references) {
+        const role = roleFromSemanticType(reference.$?.type);
+        if (role && reference.$?.href) {
+          roles.set(reference.$.href, role);
+        }
+      }
+
+      // EPUB3 landmarks，优先级高于guide
+      const manifest = opfData.package?.manifest?.[0]?.item || [];
+      const navItem = manifest.find(item => (item.$?.properties || '').split(/\s+/).includes('nav'));
+      const navPath = navItem?.$?.href;
+      const navFile = navPath && (zip.file(navPath) || zip.file(opfDir && opfDir !== '.' ? `${opfDir}/${navPath}` : navPath));
+      if (navFile) {
+        const navContent = await navFile.async('text');
+        const landmarks = navContent.match(/<nav\b[^>]*epub:type\s*=\s*["'][^"']*\blandmarks\b[^"']*["'][^>]*>([\s\S]*?)<\/nav>/i);
+        const anchorPattern = /<a\b([^>]*)>/gi;
+        let match;
+        while (landmarks && (match = anchorPattern.exec(landmarks[1])) !== null) {
+          const role = roleFromSemanticType(getAttribute(match[1], 'epub:type'));
+          const href = getAttribute(match[1], 'href');
+          if (role && href) {
+            roles.set(href, role);
+          }
+        }
+      }
+
+      // 文档自身的epub:type，优先级最低
+      const documentHrefs = new Set(tableOfContents.map(item => item.href.split('#')[0]).filter(Boolean));
+      for (const href of documentHrefs) {
+        if (roles.has(href)) continue;
+
+        const file = zip.file(href) || zip.file(opfDir && opfDir !== '.' ? `${opfDir}/${href}` : href);
+        if (!file) continue;
+
+        const content = await file.async('text');
+        // 只看body和紧随其后的第一个容器，避免正文中内嵌的脚注区等影响整个文件
+        const match = content.match(/<body\b([^>]*)>\s*(?:<(?:section|article|div)\b([^>]*)>)?/i);
+        const role = match
+          ? roleFromSemanticType(getAttribute(match[1], 'epub:type')) ?? roleFromSemanticType(getAttribute(match[2] || '', 'epub:type'))
+          : null;
+        if (role) {
+          roles.set(href, role);
+        }
+      }
+    } catch (error) {
+      console.error('提取结构语义标记失败:', error);
+    }
+
+    return roles;
+  }
+
   /**
    * 从nav.xhtml文件提取目录结构
    * @param zip EPUB文件的ZIP对象
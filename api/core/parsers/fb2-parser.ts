@@ -0,0 +1,395 @@
+// FB2（FictionBook 2）解析器实现
+import * as fs from 'fs';
+import { promisify } from 'util';
+import JSZip from 'jszip';
+import sharp from 'sharp';
+import { v4 as uuidv4 } from 'uuid';
+import { BaseParser, ParseConfig, IChapterTextExtractor } from './base-parser';
+import { ParseResult, BookInfo, CoverInfo, TocItem } from '../../types/book.types';
+import { XmlNode, parseOrderedXml, localName, childElement, childElements, attribute, nodeText } from '../utils/xml-nodes';
+import { sampleFile, isZipFile } from '../utils/file-sniffer';
+import { detectFb2 } from './format-detector';
+
+const readFile = promisify(fs.readFile);
+
+// 直接作为一段正文的元素
+const TEXT_ELEMENTS = new Set(['p', 'v', 'subtitle', 'text-author']);
+
+// 需要向下展开的容器元素
+const CONTAINER_ELEMENTS = new Set(['epigraph', 'cite', 'poem', 'stanza']);
+
+// 已解析的FB2文档
+interface Fb2Document {
+  root: XmlNode;
+  // 按文档顺序排列的段落，目录项通过#block=N指向标题段落
+  blocks: string[];
+  tableOfContents: TocItem[];
+}
+
+/**
+ * 判断文件内容是否为FB2（XML或包含.fb2的ZIP）
+ * 文件不存在时（如上传前只有文件名）按扩展名判断
+ * @param filePath 文件路径
+ */
+export function isFb2File(filePath: string): boolean {
+  const lowerPath = filePath.toLowerCase();
+  if (!fs.existsSync(filePath)) {
+    return lowerPath.endsWith('.fb2') || lowerPath.endsWith('.fb2.zip');
+  }
+
+  const sample = sampleFile(filePath);
+  return !!sample && detectFb2(sample) > 0;
+}
+
+export class FB2Parser extends BaseParser implements IChapterTextExtractor {
+  private documents: Map<string, Promise<Fb2Document>> = new Map();
+
+  constructor(config?: Partial<ParseConfig>) {
+    super(config);
+  }
+
+  getSupportedFormats(): string[] {
+    return ['.fb2', '.fb2.zip'];
+  }
+
+  /**
+   * 验证FB2文件的有效性
+   * @param filePath 文件路径
+   * @returns 验证结果
+   */
+  async validate(filePath: string): Promise<boolean> {
+    try {
+      if (!fs.existsSync(filePath)) {
+        console.warn(`FB2验证失败: 文件不存在 - ${filePath}`);
+        return false;
+      }
+
+      const stats = fs.statSync(filePath);
+      if (stats.size > 100 * 1024 * 1024) { // 100MB限制
+        console.warn(`FB2验证失败: 文件过大 (${Math.round(stats.size / 1024 / 1024)}MB) - ${filePath}`);
+        return false;
+      }
+
+      if (!isFb2File(filePath)) {
+        console.warn(`FB2验证失败: 缺少FictionBook根元素 - ${filePath}`);
+        return false;
+      }
+
+      console.log(`FB2验证成功: ${filePath}`);
+      return true;
+    } catch (error) {
+      console.error(`FB2验证异常: ${filePath}`, error);
+      return false;
+    }
+  }
+
+  /**
+   * 解析FB2文件
+   * @param filePath 文件路径
+   * @returns 解析结果
+   */
+  async parse(filePath: string): Promise<ParseResult> {
+    console.log(`开始解析FB2文件: ${filePath}`);
+
+    try {
+      console.log('步骤1: 验证FB2文件格式...');
+      const isValid = await this.validate(filePath);
+      if (!isValid) {
+        return this.createError('无效的FB2文件');
+      }
+
+      console.log('步骤2: 解析FictionBook文档...');
+      const document = await this.loadDocument(filePath);
+      console.log(`共 ${document.blocks.length} 个段落`);
+
+      console.log('步骤3: 提取书籍基本信息...');
+      const bookInfo = this.extractBookInfo(document.root);
+      console.log(`书籍信息: ${bookInfo.title} - ${bookInfo.author}`);
+
+      console.log('步骤4: 提取封面信息...');
+      const coverInfo = await this.extractCoverInfo(document.root);
+      console.log(`封面提取${coverInfo?.cover_image ? '成功' : '失败'}`);
+
+      console.log('步骤5: 提取目录结构...');
+      const tableOfContents = this.config.extractToc ? document.tableOfContents : [];
+      console.log(`提取到 ${tableOfContents.length} 个目录项`);
+
+      console.log('FB2解析完成');
+      return this.createSuccess({
+        bookInfo,
+        coverInfo,
+        tableOfContents
+      });
+    } catch (error) {
+      console.error('FB2解析错误:', error);
+      return this.createError(`解析失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    } finally {
+      this.dispose();
+    }
+  }
+
+  /**
+   * 提取目录项对应的正文：从标题段落之后到下一个同级或更高级目录项之前
+   * @param filePath 文件路径
+   * @param tocItem 目录项
+   * @param tableOfContents 完整目录
+   * @returns 章节文本
+   */
+  async extractChapterText(filePath: string, tocItem: TocItem, tableOfContents: TocItem[]): Promise<string> {
+    const { blocks } = await this.loadDocument(filePath);
+    const start = this.getBlockFromHref(tocItem.href);
+    if (start === null) {
+      throw new Error(`目录项缺少段落位置: ${tocItem.title}`);
+    }
+
+    let end = blocks.length;
+    const index = tableOfContents.findIndex(item => item.id === tocItem.id);
+    for (let i = index + 1; i < tableOfContents.length; i++) {
+      const next = tableOfContents[i];
+      const nextBlock = this.getBlockFromHref(next.href);
+      if (next.level <= tocItem.level && nextBlock !== null) {
+        end = nextBlock;
+        break;
+      }
+    }
+
+    return blocks.slice(start + 1, end).join('\n');
+  }
+
+  /**
+   * 释放已解析的文档
+   */
+  dispose(): void {
+    this.documents.clear();
+  }
+
+  private loadDocument(filePath: string): Promise<Fb2Document> {
+    let loading = this.documents.get(filePath);
+    if (!loading) {
+      loading = this.readDocument(filePath);
+      this.documents.set(filePath, loading);
+    }
+    return loading;
+  }
+
+  private async readDocument(filePath: string): Promise<Fb2Document> {
+    let buffer = await readFile(filePath);
+
+    // .fb2.zip：取压缩包中的第一个.fb2文件
+    if (isZipFile(filePath)) {
+      const zip = await JSZip.loadAsync(buffer);
+      const entry = Object.values(zip.files).find(file => !file.dir && file.name.toLowerCase().endsWith('.fb2'));
+      if (!entry) {
+        throw new Error('压缩包中未找到FB2文件');
+      }
+      buffer = await entry.async('nodebuffer');
+    }
+
+    const root = await parseOrderedXml(this.decodeXml(buffer));
+    if (localName(root) !== 'FictionBook') {
+      throw new Error('缺少FictionBook根元素');
+    }
+
+    const blocks: string[] = [];
+    const tableOfContents: TocItem[] = [];
+    const bodies = childElements(root, 'body').filter(body => attribute(body, 'name') !== 'notes');
+    for (const body of bodies) {
+      for (const section of childElements(body, 'section')) {
+        this.walkSection(section, 1, null, blocks, tableOfContents);
+      }
+    }
+
+    if (tableOfContents.length === 0) {
+      console.log('未找到章节标题，按顶级section生成目录...');
+      this.buildFallbackToc(bodies, blocks, tableOfContents);
+    }
+
+    return { root, blocks, tableOfContents };
+  }
+
+  /**
+   * XML声明中可能指定windows-1251等编码，按声明解码
+   */
+  private decodeXml(buffer: Buffer): string {
+    const declaration = buffer.toString('latin1', 0, 200).match(/<\?xml[^>]*encoding=["']([\w-]+)["']/i);
+    try {
+      return new TextDecoder(declaration ? declaration[1].toLowerCase() : 'utf-8').decode(buffer);
+    } catch {
+      return new TextDecoder('utf-8').decode(buffer);
+    }
+  }
+
+  /**
+   * 按文档顺序遍历section，带标题的section生成目录项，嵌套深度即目录层级
+   */
+  private walkSection(
+    section: XmlNode,
+    level: number,
+    parentId: string | null,
+    blocks: string[],
+    tableOfContents: TocItem[]
+  ): void {
+    let currentId = parentId;
+    let childLevel = level;
+
+    for (const child of section['$$'] || []) {
+      const name = localName(child);
+      if (name === 'title') {
+        const title = childElements(child, 'p').map(p => this.normalizeText(nodeText(p))).filter(Boolean).join(' ')
+          || this.normalizeText(nodeText(child));
+        if (!title || currentId !== parentId) {
+          continue;
+        }
+        currentId = uuidv4();
+        childLevel = level + 1;
+        tableOfContents.push({
+          id: currentId,
+          title,
+          level,
+          href: `#block=${blocks.length}`,
+          parent_id: parentId
+        });
+        blocks.push(title);
+      } else if (name === 'section') {
+        this.walkSection(child, childLevel, currentId, blocks, tableOfContents);
+      } else {
+        this.collectText(child, blocks);
+      }
+    }
+  }
+
+  private collectText(node: XmlNode, blocks: string[]): void {
+    const name = localName(node);
+    if (TEXT_ELEMENTS.has(name)) {
+      const text = this.normalizeText(nodeText(node));
+      if (text) {
+        blocks.push(text);
+      }
+    } else if (CONTAINER_ELEMENTS.has(name) || name === 'title' || name === 'table' || name === 'tr') {
+      for (const child of node['$$'] || []) {
+        this.collectText(child, blocks);
+      }
+    } else if (name === 'td' || name === 'th') {
+      const text = this.normalizeText(nodeText(node));
+      if (text) {
+        blocks.push(text);
+      }
+    }
+  }
+
+  private buildFallbackToc(bodies: XmlNode[], blocks: string[], tableOfContents: TocItem[]): void {
+    blocks.length = 0;
+    const sections = bodies.flatMap(body => childElements(body, 'section'));
+
+    sections.forEach((section, index) => {
+      const title = `第${index + 1}部分`;
+      tableOfContents.push({
+        id: uuidv4(),
+        title,
+        level: 1,
+        href: `#block=${blocks.length}`,
+        parent_id: null
+      });
+      blocks.push(title);
+      for (const child of section['$$'] || []) {
+        this.collectText(child, blocks);
+      }
+    });
+  }
+
+  private extractBookInfo(root: XmlNode): BookInfo {
+    const description = childElement(root, 'description');
+    const titleInfo = childElement(description, 'title-info');
+    const publishInfo = childElement(description, 'publish-info');
+    const text = (node: XmlNode | undefined) => this.normalizeText(nodeText(node));
+
+    const authors = childElements(titleInfo, 'author').map(author => this.formatPerson(author)).filter(Boolean);
+    const translators = childElements(titleInfo, 'translator').map(person => this.formatPerson(person)).filter(Boolean);
+
+    // date元素的value属性为机器可读日期，其次使用文本
+    const dateNode = childElement(titleInfo, 'date');
+    const publicationDate = text(childElement(publishInfo, 'year')) || attribute(dateNode, 'value') || text(dateNode);
+
+    const annotation = childElement(titleInfo, 'annotation');
+    const annotationText = annotation
+      ? childElements(annotation, 'p').map(p => text(p)).filter(Boolean).join('\n') || text(annotation)
+      : '';
+
+    return {
+      title: text(childElement(titleInfo, 'book-title')) || text(childElement(publishInfo, 'book-name')) || '未知标题',
+      author: authors.join(', ') || '未知作者',
+      translator: translators.join(', '),
+      publisher: text(childElement(publishInfo, 'publisher')) || '未知出版社',
+      isbn: text(childElement(publishInfo, 'isbn')),
+      publication_date: publicationDate,
+      language: text(childElement(titleInfo, 'lang')) || 'zh',
+      description: annotationText || undefined
+    };
+  }
+
+  private formatPerson(person: XmlNode): string {
+    const part = (name: string) => this.normalizeText(nodeText(childElement(person, name)));
+    const fullName = [part('first-name'), part('middle-name'), part('last-name')].filter(Boolean).join(' ');
+    return fullName || part('nickname');
+  }
+
+  /**
+   * 封面由title-info/coverpage/image引用，图片以base64保存在binary元素中
+   */
+  private async extractCoverInfo(root: XmlNode): Promise<CoverInfo | undefined> {
+    if (!this.config.extractCover) {
+      console.log('封面提取已禁用');
+      return undefined;
+    }
+
+    try {
+      const titleInfo = childElement(childElement(root, 'description'), 'title-info');
+      const image = childElement(childElement(titleInfo, 'coverpage'), 'image');
+      const href = attribute(image, 'href');
+      if (!href || !href.startsWith('#')) {
+        console.warn('未找到封面引用');
+        return {
+          cover_image: '',
+          cover_alt_text: '无封面图片'
+        };
+      }
+
+      const binary = childElements(root, 'binary').find(node => attribute(node, 'id') === href.substring(1));
+      const data = binary ? nodeText(binary).replace(/\s+/g, '') : '';
+      if (!data) {
+        return {
+          cover_image: '',
+          cover_alt_text: '封面图片数据为空'
+        };
+      }
+
+      const processedImage = await sharp(Buffer.from(data, 'base64'))
+        .resize(this.config.maxCoverSize, this.config.maxCoverSize, {
+          fit: 'inside',
+          withoutEnlargement: true
+        })
+        .jpeg({ quality: this.config.imageQuality })
+        .toBuffer();
+
+      return {
+        cover_image: `data:image/jpeg;base64,${processedImage.toString('base64')}`,
+        cover_alt_text: '书籍封面'
+      };
+    } catch (error) {
+      console.warn('封面提取过程中发生错误:', error);
+      return {
+        cover_image: '',
+        cover_alt_text: '封面提取失败'
+      };
+    }
+  }
+
+  private normalizeText(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+
+  private getBlockFromHref(href: string): number | null {
+    const match = href?.match(/#block=(\d+)/);
+    return match ? parseInt(match[1], 10) : null;
+  }
+}
@@ -0,0 +1,86 @@
+// 基于文件内容（魔数）的格式识别，返回0-1的置信度
+import { FileSample, readFirstStoredZipEntry } from '../utils/file-sniffer';
+
+/**
+ * EPUB：第一个条目为未压缩的mimetype且内容为application/epub+zip
+ */
+export function detectEpub(sample: FileSample): number {
+  const firstEntry = readFirstStoredZipEntry(sample.head);
+  if (firstEntry?.name === 'mimetype' && firstEntry.content.toString('ascii').trim() === 'application/epub+zip') {
+    return 1;
+  }
+
+  const entries = sample.zipEntries || [];
+  if (entries.includes('META-INF/container.xml')) {
+    // 打包不规范的EPUB：mimetype缺失或被压缩
+    return entries.some(name => name.toLowerCase().endsWith('.opf')) ? 0.9 : 0.8;
+  }
+  return 0;
+}
+
+/**
+ * PDF：文件头为%PDF-，部分文件在头部前有少量垃圾字节
+ */
+export function detectPdf(sample: FileSample): number {
+  const index = sample.head.subarray(0, 1024).indexOf('%PDF-');
+  if (index === 0) return 1;
+  return index > 0 ? 0.9 : 0;
+}
+
+/**
+ * MOBI/AZW3：PalmDB头的类型与创建者为BOOKMOBI
+ */
+export function detectMobi(sample: FileSample): number {
+  return sample.head.length >= 68 && sample.head.toString('latin1', 60, 68) === 'BOOKMOBI' ? 1 : 0;
+}
+
+/**
+ * FB2：XML根元素为FictionBook，或ZIP中包含.fb2文件
+ */
+export function detectFb2(sample: FileSample): number {
+  if (sample.zipEntries) {
+    return sample.zipEntries.some(name => name.toLowerCase().endsWith('.fb2')) ? 0.9 : 0;
+  }
+
+  // 兼容UTF-16编码的XML
+  const text = sample.head.toString('latin1').replace(/\0/g, '');
+  if (/<(?:\w+:)?FictionBook[\s>]/.test(text)) {
+    return 1;
+  }
+  return 0;
+}
+
+/**
+ * DOCX：ZIP中包含word/document.xml
+ */
+export function detectDocx(sample: FileSample): number {
+  const entries = sample.zipEntries || [];
+  if (!entries.includes('word/document.xml')) {
+    return 0;
+  }
+  return entries.includes('[Content_Types].xml') ? 1 : 0.9;
+}
+
+/**
+ * 纯文本：没有魔数，只能根据控制字符比例给出较低的置信度
+ */
+export function detectTxt(sample: FileSample): number {
+  const { head } = sample;
+  if (head.length === 0 || sample.zipEntries) {
+    return 0;
+  }
+
+  // UTF-16 BOM
+  if ((head[0] === 0xFF && head[1] === 0xFE) || (head[0] === 0xFE && head[1] === 0xFF)) {
+    return 0.4;
+  }
+
+  let controlBytes = 0;
+  for (const byte of head) {
+    if (byte === 0) return 0;
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0A && byte !== 0x0D && byte !== 0x0C && byte !== 0x1B) {
+      controlBytes++;
+    }
+  }
+  return controlBytes / head.length < 0.01 ? 0.3 : 0;
+}
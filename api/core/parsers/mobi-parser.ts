@@ -0,0 +1,838 @@
+// MOBI/AZW3（KF8）解析器实现
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import sharp from 'sharp';
+import { v4 as uuidv4 } from 'uuid';
+import { BaseParser, ParseConfig, IChapterTextExtractor } from './base-parser';
+import { ParseResult, BookInfo, CoverInfo, TocItem } from '../../types/book.types';
+import { htmlToText } from '../utils/html-text';
+
+const readFile = promisify(fs.readFile);
+
+// 压缩类型
+const COMPRESSION_NONE = 1;
+const COMPRESSION_PALMDOC = 2;
+const COMPRESSION_HUFF_CDIC = 17480;
+
+// MOBI头中"无效索引"的取值
+const NULL_INDEX = 0xFFFFFFFF;
+
+// EXTH记录类型
+const EXTH_AUTHOR = 100;
+const EXTH_PUBLISHER = 101;
+const EXTH_DESCRIPTION = 103;
+const EXTH_ISBN = 104;
+const EXTH_PUBLISH_DATE = 106;
+const EXTH_CONTRIBUTOR = 108;
+const EXTH_KF8_BOUNDARY = 121;
+const EXTH_COVER_OFFSET = 201;
+const EXTH_THUMB_OFFSET = 202;
+const EXTH_UPDATED_TITLE = 503;
+const EXTH_LANGUAGE = 524;
+
+// MOBI头（record 0中PalmDOC头之后）
+interface MobiHeader {
+  compression: number;
+  textRecordCount: number;
+  encoding: 'utf-8' | 'windows-1252';
+  version: number;
+  fullName: string;
+  firstImageIndex: number;
+  huffRecordOffset: number;
+  huffRecordCount: number;
+  extraDataFlags: number;
+  ncxIndex: number;
+  fragmentIndex: number;
+  skeletonIndex: number;
+  exth: Map<number, Buffer[]>;
+}
+
+// 已加载的MOBI文件
+interface MobiBook {
+  records: Buffer[];
+  // KF8部分的起始记录号，纯MOBI7为0
+  base: number;
+  header: MobiHeader;
+  // 记录0的头信息，图片索引以它为准
+  primaryHeader: MobiHeader;
+  // 解压后的正文（HTML字节）
+  text: Buffer;
+}
+
+// 索引表条目
+interface IndexEntry {
+  name: string;
+  tags: Map<number, number[]>;
+}
+
+/**
+ * 读取正向变长整数（每字节7位，最高位为1表示结束）
+ */
+function readForwardVarLen(data: Buffer, offset: number): { value: number; length: number } {
+  let value = 0;
+  let length = 0;
+  for (let i = offset; i < Math.min(offset + 4, data.length); i++) {
+    const byte = data[i];
+    value = (value * 128) + (byte & 0x7F);
+    length++;
+    if (byte & 0x80) break;
+  }
+  return { value, length };
+}
+
+/**
+ * 读取记录末尾的反向变长整数，用于计算尾随数据长度
+ */
+function readBackwardVarLen(data: Buffer, end: number): number {
+  let value = 0;
+  for (let i = Math.max(0, end - 4); i < end; i++) {
+    const byte = data[i];
+    if (byte & 0x80) value = 0;
+    value = (value * 128) + (byte & 0x7F);
+  }
+  return value;
+}
+
+/**
+ * 去掉文本记录末尾的尾随数据（由extra data flags描述）
+ */
+function stripTrailingEntries(record: Buffer, flags: number): Buffer {
+  let size = record.length;
+  for (let bits = flags >> 1; bits > 0; bits >>= 1) {
+    if (bits & 1) {
+      size -= readBackwardVarLen(record, size);
+    }
+  }
+  if (flags & 1) {
+    size -= (record[size - 1] & 0x3) + 1;
+  }
+  return record.subarray(0, Math.max(0, size));
+}
+
+/**
+ * PalmDOC（LZ77变体）解压
+ */
+function decompressPalmDoc(data: Buffer): Buffer {
+  const output: number[] = [];
+  let i = 0;
+
+  while (i < data.length) {
+    const c = data[i++];
+    if (c === 0 || (c >= 0x09 && c <= 0x7F)) {
+      output.push(c);
+    } else if (c >= 0x01 && c <= 0x08) {
+      for (let j = 0; j < c && i < data.length; j++) {
+        output.push(data[i++]);
+      }
+    } else if (c >= 0xC0) {
+      output.push(0x20, c ^ 0x80);
+    } else {
+      const pair = (c << 8) | data[i++];
+      const distance = (pair >> 3) & 0x7FF;
+      const length = (pair & 0x7) + 3;
+      const start = output.length - distance;
+      for (let j = 0; j < length; j++) {
+        output.push(output[start + j]);
+      }
+    }
+  }
+
+  return Buffer.from(output);
+}
+
+/**
+ * HUFF/CDIC解压器
+ */
+class HuffCdicReader {
+  private dict1: Array<{ codeLength: number; terminal: boolean; maxCode: number }> = [];
+  private minCodes: number[] = [0];
+  private maxCodes: number[] = [0];
+  private dictionary: Array<{ data: Buffer; decompressed: boolean }> = [];
+
+  constructor(huff: Buffer, cdics: Buffer[]) {
+    if (huff.toString('latin1', 0, 4) !== 'HUFF') {
+      throw new Error('无效的HUFF记录');
+    }
+
+    const offset1 = huff.readUInt32BE(8);
+    const offset2 = huff.readUInt32BE(12);
+
+    for (let i = 0; i < 256; i++) {
+      const value = huff.readUInt32BE(offset1 + i * 4);
+      const codeLength = value & 0x1F;
+      this.dict1.push({
+        codeLength,
+        terminal: (value & 0x80) !== 0,
+        maxCode: ((value >>> 8) + 1) * 2 ** (32 - codeLength) - 1
+      });
+    }
+
+    for (let codeLength = 1; codeLength <= 32; codeLength++) {
+      const min = huff.readUInt32BE(offset2 + (codeLength - 1) * 8);
+      const max = huff.readUInt32BE(offset2 + (codeLength - 1) * 8 + 4);
+      this.minCodes.push(min * 2 ** (32 - codeLength));
+      this.maxCodes.push((max + 1) * 2 ** (32 - codeLength) - 1);
+    }
+
+    for (const cdic of cdics) {
+      if (cdic.toString('latin1', 0, 4) !== 'CDIC') {
+        throw new Error('无效的CDIC记录');
+      }
+      const phrases = cdic.readUInt32BE(8);
+      const bits = cdic.readUInt32BE(12);
+      const count = Math.min(1 << bits, phrases - this.dictionary.length);
+      for (let i = 0; i < count; i++) {
+        const offset = cdic.readUInt16BE(16 + i * 2);
+        const blen = cdic.readUInt16BE(16 + offset);
+        this.dictionary.push({
+          data: cdic.subarray(18 + offset, 18 + offset + (blen & 0x7FFF)),
+          decompressed: (blen & 0x8000) !== 0
+        });
+      }
+    }
+  }
+
+  unpack(data: Buffer): Buffer {
+    const padded = Buffer.concat([data, Buffer.alloc(8)]);
+    const chunks: Buffer[] = [];
+    let bitsLeft = data.length * 8;
+    let bitPos = 0;
+
+    while (bitsLeft > 0) {
+      const code = this.read32Bits(padded, bitPos);
+      let { codeLength, maxCode } = this.dict1[Math.floor(code / 2 ** 24)];
+      if (!this.dict1[Math.floor(code / 2 ** 24)].terminal) {
+        while (code < this.minCodes[codeLength]) {
+          codeLength++;
+        }
+        maxCode = this.maxCodes[codeLength];
+      }
+
+      bitPos += codeLength;
+      bitsLeft -= codeLength;
+      if (bitsLeft < 0) break;
+
+      const index = Math.floor((maxCode - code) / 2 ** (32 - codeLength));
+      const entry = this.dictionary[index];
+      if (!entry.decompressed) {
+        entry.data = this.unpack(entry.data);
+        entry.decompressed = true;
+      }
+      chunks.push(entry.data);
+    }
+
+    return Buffer.concat(chunks);
+  }
+
+  private read32Bits(data: Buffer, bitPos: number): number {
+    const byteIndex = bitPos >>> 3;
+    const shift = bitPos & 7;
+    const value = data[byteIndex] * 2 ** 32
+      + data[byteIndex + 1] * 2 ** 24
+      + data[byteIndex + 2] * 2 ** 16
+      + data[byteIndex + 3] * 2 ** 8
+      + data[byteIndex + 4];
+    return Math.floor(value / 2 ** (8 - shift)) % 2 ** 32;
+  }
+}
+
+export class MobiParser extends BaseParser implements IChapterTextExtractor {
+  private books: Map<string, Promise<MobiBook>> = new Map();
+
+  constructor(config?: Partial<ParseConfig>) {
+    super(config);
+  }
+
+  getSupportedFormats(): string[] {
+    return ['.mobi', '.azw3', '.azw'];
+  }
+
+  /**
+   * 验证MOBI文件的有效性
+   * @param filePath 文件路径
+   * @returns 验证结果
+   */
+  async validate(filePath: string): Promise<boolean> {
+    try {
+      if (!fs.existsSync(filePath)) {
+        console.warn(`MOBI验证失败: 文件不存在 - ${filePath}`);
+        return false;
+      }
+
+      const ext = path.extname(filePath).toLowerCase();
+      if (!this.getSupportedFormats().includes(ext)) {
+        console.warn(`MOBI验证失败: 不支持的文件格式 - ${ext}`);
+        return false;
+      }
+
+      const stats = fs.statSync(filePath);
+      if (stats.size < 78) {
+        console.warn(`MOBI验证失败: 文件过小 - ${filePath}`);
+        return false;
+      }
+      if (stats.size > 100 * 1024 * 1024) { // 100MB限制
+        console.warn(`MOBI验证失败: 文件过大 (${Math.round(stats.size / 1024 / 1024)}MB) - ${filePath}`);
+        return false;
+      }
+
+      // PalmDB类型与创建者标识应为BOOKMOBI
+      const buffer = await readFile(filePath);
+      if (buffer.toString('latin1', 60, 68) !== 'BOOKMOBI') {
+        console.warn(`MOBI验证失败: 缺少BOOKMOBI标识 - ${filePath}`);
+        return false;
+      }
+
+      console.log(`MOBI验证成功: ${filePath}`);
+      return true;
+    } catch (error) {
+      console.error(`MOBI验证异常: ${filePath}`, error);
+      return false;
+    }
+  }
+
+  /**
+   * 解析MOBI/AZW3文件
+   * @param filePath 文件路径
+   * @returns 解析结果
+   */
+  async parse(filePath: string): Promise<ParseResult> {
+    console.log(`开始解析MOBI文件: ${filePath}`);
+
+    try {
+      console.log('步骤1: 验证MOBI文件格式...');
+      const isValid = await this.validate(filePath);
+      if (!isValid) {
+        return this.createError('无效的MOBI文件');
+      }
+
+      console.log('步骤2: 读取PalmDB记录并解压正文...');
+      const book = await this.loadBook(filePath);
+      console.log(`共 ${book.records.length} 条记录，${book.base > 0 ? 'KF8' : 'MOBI7'}格式，正文 ${book.text.length} 字节`);
+
+      console.log('步骤3: 提取书籍基本信息...');
+      const bookInfo = this.extractBookInfo(book);
+      console.log(`书籍信息: ${bookInfo.title} - ${bookInfo.author}`);
+
+      console.log('步骤4: 提取封面信息...');
+      const coverInfo = await this.extractCoverInfo(book);
+      console.log(`封面提取${coverInfo?.cover_image ? '成功' : '失败'}`);
+
+      console.log('步骤5: 提取目录结构...');
+      const tableOfContents = this.config.extractToc ? this.extractTableOfContents(book) : [];
+      console.log(`提取到 ${tableOfContents.length} 个目录项`);
+
+      console.log('MOBI解析完成');
+      return this.createSuccess({
+        bookInfo,
+        coverInfo,
+        tableOfContents
+      });
+    } catch (error) {
+      console.error('MOBI解析错误:', error);
+      return this.createError(`解析失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    } finally {
+      this.dispose();
+    }
+  }
+
+  /**
+   * 提取目录项对应的正文
+   * 从目录项的filepos开始，到下一个同级或更高级目录项之前
+   * @param filePath 文件路径
+   * @param tocItem 目录项
+   * @param tableOfContents 完整目录
+   * @returns 章节文本
+   */
+  async extractChapterText(filePath: string, tocItem: TocItem, tableOfContents: TocItem[]): Promise<string> {
+    const book = await this.loadBook(filePath);
+    const start = this.getFilePosFromHref(tocItem.href);
+    if (start === null) {
+      throw new Error(`目录项缺少位置信息: ${tocItem.title}`);
+    }
+
+    let end = book.text.length;
+    const index = tableOfContents.findIndex(item => item.id === tocItem.id);
+    for (let i = index + 1; i < tableOfContents.length; i++) {
+      const next = tableOfContents[i];
+      const nextPos = this.getFilePosFromHref(next.href);
+      if (next.level <= tocItem.level && nextPos !== null && nextPos > start) {
+        end = nextPos;
+        break;
+      }
+    }
+
+    const html = new TextDecoder(book.header.encoding).decode(book.text.subarray(start, end));
+    // 切片起点可能落在标签中间，去掉残留的半个标签
+    return htmlToText(html.replace(/^[^<]*?>/, ''));
+  }
+
+  /**
+   * 释放已加载的文件
+   */
+  dispose(): void {
+    this.books.clear();
+  }
+
+  private loadBook(filePath: string): Promise<MobiBook> {
+    let loading = this.books.get(filePath);
+    if (!loading) {
+      loading = readFile(filePath).then(buffer => this.readBook(buffer));
+      this.books.set(filePath, loading);
+    }
+    return loading;
+  }
+
+  private readBook(buffer: Buffer): MobiBook {
+    // PalmDB头：78字节，之后每条记录8字节（偏移量 + 属性）
+    const recordCount = buffer.readUInt16BE(76);
+    const offsets: number[] = [];
+    for (let i = 0; i < recordCount; i++) {
+      offsets.push(buffer.readUInt32BE(78 + i * 8));
+    }
+    const records = offsets.map((offset, i) => buffer.subarray(offset, i + 1 < offsets.length ? offsets[i + 1] : buffer.length));
+
+    const primaryHeader = this.readMobiHeader(records[0]);
+
+    // 混合格式（MOBI7 + KF8）优先使用KF8部分
+    let base = 0;
+    let header = primaryHeader;
+    const boundary = primaryHeader.exth.get(EXTH_KF8_BOUNDARY)?.[0];
+    if (boundary && boundary.length >= 4) {
+      const kf8Start = boundary.readUInt32BE(0);
+      if (kf8Start !== NULL_INDEX && kf8Start < records.length && records[kf8Start]?.toString('latin1', 16, 20) === 'MOBI') {
+        base = kf8Start;
+        header = this.readMobiHeader(records[kf8Start]);
+      }
+    }
+
+    const text = this.decompressText(records, base, header);
+    return { records, base, header, primaryHeader, text };
+  }
+
+  private readMobiHeader(record0: Buffer): MobiHeader {
+    if (record0.toString('latin1', 16, 20) !== 'MOBI') {
+      throw new Error('缺少MOBI头');
+    }
+
+    const headerLength = record0.readUInt32BE(20);
+    const uint32At = (offset: number): number =>
+      16 + headerLength >= offset + 4 && record0.length >= offset + 4 ? record0.readUInt32BE(offset) : NULL_INDEX;
+
+    const encodingCode = record0.readUInt32BE(28);
+    const encoding = encodingCode === 65001 ? 'utf-8' : 'windows-1252';
+    const fullNameOffset = record0.readUInt32BE(84);
+    const fullNameLength = record0.readUInt32BE(88);
+    const fullName = new TextDecoder(encoding).decode(record0.subarray(fullNameOffset, fullNameOffset + fullNameLength));
+
+    const exth = new Map<number, Buffer[]>();
+    const exthFlags = record0.readUInt32BE(128);
+    const exthStart = 16 + headerLength;
+    if ((exthFlags & 0x40) && record0.toString('latin1', exthStart, exthStart + 4) === 'EXTH') {
+      const count = record0.readUInt32BE(exthStart + 8);
+      let pos = exthStart + 12;
+      for (let i = 0; i < count && pos + 8 <= record0.length; i++) {
+        const type = record0.readUInt32BE(pos);
+        const length = record0.readUInt32BE(pos + 4);
+        if (length < 8) break;
+        const values = exth.get(type) || [];
+        values.push(record0.subarray(pos + 8, pos + length));
+        exth.set(type, values);
+        pos += length;
+      }
+    }
+
+    return {
+      compression: record0.readUInt16BE(0),
+      textRecordCount: record0.readUInt16BE(8),
+      encoding,
+      version: record0.readUInt32BE(36),
+      fullName,
+      firstImageIndex: uint32At(108),
+      huffRecordOffset: uint32At(112),
+      huffRecordCount: uint32At(116),
+      extraDataFlags: headerLength >= 0xE4 ? record0.readUInt16BE(242) : 0,
+      ncxIndex: uint32At(244),
+      fragmentIndex: uint32At(248),
+      skeletonIndex: uint32At(252),
+      exth
+    };
+  }
+
+  private decompressText(records: Buffer[], base: number, header: MobiHeader): Buffer {
+    let decompress: (data: Buffer) => Buffer;
+    switch (header.compression) {
+      case COMPRESSION_NONE:
+        decompress = data => data;
+        break;
+      case COMPRESSION_PALMDOC:
+        decompress = decompressPalmDoc;
+        break;
+      case COMPRESSION_HUFF_CDIC: {
+        const huffStart = base + header.huffRecordOffset;
+        const reader = new HuffCdicReader(
+          records[huffStart],
+          records.slice(huffStart + 1, huffStart + header.huffRecordCount)
+        );
+        decompress = data => reader.unpack(data);
+        break;
+      }
+      default:
+        throw new Error(`不支持的压缩类型: ${header.compression}`);
+    }
+
+    const chunks: Buffer[] = [];
+    for (let i = 1; i <= header.textRecordCount; i++) {
+      const record = records[base + i];
+      if (!record) break;
+      chunks.push(decompress(stripTrailingEntries(record, header.extraDataFlags)));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  private getExthString(header: MobiHeader, type: number): string {
+    const values = header.exth.get(type);
+    if (!values || values.length === 0) return '';
+    return values
+      .map(value => new TextDecoder(header.encoding).decode(value).trim())
+      .filter(Boolean)
+      .join(', ');
+  }
+
+  private extractBookInfo(book: MobiBook): BookInfo {
+    const header = book.header.exth.size > 0 ? book.header : book.primaryHeader;
+    const exth = (type: number) => this.getExthString(header, type) || this.getExthString(book.primaryHeader, type);
+
+    const contributors = exth(EXTH_CONTRIBUTOR);
+    const date = exth(EXTH_PUBLISH_DATE).match(/\d{4}(-\d{2}(-\d{2})?)?/);
+
+    return {
+      title: exth(EXTH_UPDATED_TITLE) || header.fullName || '未知标题',
+      author: exth(EXTH_AUTHOR) || '未知作者',
+      // calibre等工具会把自身写入贡献者字段，排除这类值
+      translator: /calibre|kindlegen/i.test(contributors) ? '' : contributors,
+      publisher: exth(EXTH_PUBLISHER) || '未知出版社',
+      isbn: exth(EXTH_ISBN),
+      publication_date: date ? date[0] : '',
+      language: exth(EXTH_LANGUAGE) || 'zh',
+      description: htmlToText(exth(EXTH_DESCRIPTION)).trim() || undefined
+    };
+  }
+
+  private async extractCoverInfo(book: MobiBook): Promise<CoverInfo | undefined> {
+    if (!this.config.extractCover) {
+      console.log('封面提取已禁用');
+      return undefined;
+    }
+
+    try {
+      const header = book.primaryHeader;
+      const offsetValue = header.exth.get(EXTH_COVER_OFFSET)?.[0] || header.exth.get(EXTH_THUMB_OFFSET)?.[0];
+      if (!offsetValue || header.firstImageIndex === NULL_INDEX) {
+        console.warn('EXTH中未找到封面偏移');
+        return {
+          cover_image: '',
+          cover_alt_text: '无封面图片'
+        };
+      }
+
+      const record = book.records[header.firstImageIndex + offsetValue.readUInt32BE(0)];
+      if (!record || record.length === 0) {
+        return {
+          cover_image: '',
+          cover_alt_text: '封面图片数据为空'
+        };
+      }
+
+      const processedImage = await sharp(record)
+        .resize(this.config.maxCoverSize, this.config.maxCoverSize, {
+          fit: 'inside',
+          withoutEnlargement: true
+        })
+        .jpeg({ quality: this.config.imageQuality })
+        .toBuffer();
+
+      return {
+        cover_image: `data:image/jpeg;base64,${processedImage.toString('base64')}`,
+        cover_alt_text: '书籍封面'
+      };
+    } catch (error) {
+      console.warn('封面提取过程中发生错误:', error);
+      return {
+        cover_image: '',
+        cover_alt_text: '封面提取失败'
+      };
+    }
+  }
+
+  private extractTableOfContents(book: MobiBook): TocItem[] {
+    try {
+      if (book.header.ncxIndex !== NULL_INDEX) {
+        console.log('方法1: 从NCX索引提取目录...');
+        const tocItems = this.extractTocFromNcx(book);
+        if (tocItems.length > 0) {
+          return tocItems;
+        }
+      }
+    } catch (error) {
+      console.error('NCX索引解析失败:', error);
+    }
+
+    console.log('方法2: 从正文标题提取目录...');
+    const headingItems = this.extractTocFromHeadings(book);
+    if (headingItems.length > 0) {
+      return headingItems;
+    }
+
+    console.log('方法3: 按分页标记生成目录...');
+    return this.extractTocFromPageBreaks(book);
+  }
+
+  /**
+   * 解析NCX索引，MOBI7使用正文偏移（标签1），KF8使用fid:off位置（标签6）
+   */
+  private extractTocFromNcx(book: MobiBook): TocItem[] {
+    const { entries, cncx } = this.readIndex(book, book.base + book.header.ncxIndex);
+    const fragmentPositions = book.base > 0 || book.header.version >= 8 ? this.readFragmentPositions(book) : null;
+
+    const ids = entries.map(() => uuidv4());
+    const tocItems: TocItem[] = [];
+
+    entries.forEach((entry, index) => {
+      let filePos: number | undefined;
+      const pos = entry.tags.get(6);
+      if (fragmentPositions && pos && pos.length >= 2) {
+        const fragmentStart = fragmentPositions[pos[0]];
+        filePos = fragmentStart !== undefined ? fragmentStart + pos[1] : undefined;
+      } else {
+        filePos = entry.tags.get(1)?.[0];
+      }
+
+      const labelOffset = entry.tags.get(3)?.[0];
+      const depth = entry.tags.get(4)?.[0] ?? 0;
+      const parentIndex = entry.tags.get(21)?.[0];
+
+      tocItems.push({
+        id: ids[index],
+        title: (labelOffset !== undefined ? cncx.get(labelOffset) : '') || `第${index + 1}章`,
+        level: depth + 1,
+        href: filePos !== undefined ? `#filepos=${filePos}` : '',
+        parent_id: parentIndex !== undefined && ids[parentIndex] ? ids[parentIndex] : null
+      });
+    });
+
+    return tocItems;
+  }
+
+  /**
+   * 根据骨架表与片段表计算每个片段在原始正文中的起始位置
+   * 原始正文依次存放：骨架1、骨架1的各片段、骨架2……
+   */
+  private readFragmentPositions(book: MobiBook): number[] | null {
+    const { header, base } = book;
+    if (header.fragmentIndex === NULL_INDEX || header.skeletonIndex === NULL_INDEX) {
+      return null;
+    }
+
+    const skeletons = this.readIndex(book, base + header.skeletonIndex).entries;
+    const fragments = this.readIndex(book, base + header.fragmentIndex).entries;
+    const positions: number[] = [];
+
+    let fragmentIndex = 0;
+    for (const skeleton of skeletons) {
+      const fragmentCount = skeleton.tags.get(1)?.[0] ?? 0;
+      const [skeletonOffset = 0, skeletonLength = 0] = skeleton.tags.get(6) || [];
+      let position = skeletonOffset + skeletonLength;
+      for (let i = 0; i < fragmentCount && fragmentIndex < fragments.length; i++, fragmentIndex++) {
+        positions[fragmentIndex] = position;
+        position += fragments[fragmentIndex].tags.get(6)?.[1] ?? 0;
+      }
+    }
+
+    return positions;
+  }
+
+  /**
+   * 读取INDX索引：主记录包含TAGX标签定义，其后为条目记录和CNCX字符串记录
+   */
+  private readIndex(book: MobiBook, indexRecord: number): { entries: IndexEntry[]; cncx: Map<number, string> } {
+    const main = book.records[indexRecord];
+    if (!main || main.toString('latin1', 0, 4) !== 'INDX') {
+      throw new Error(`无效的INDX记录: ${indexRecord}`);
+    }
+
+    const headerLength = main.readUInt32BE(4);
+    const entryRecordCount = main.readUInt32BE(24);
+    const cncxRecordCount = main.readUInt32BE(52);
+
+    const tagx = main.subarray(headerLength);
+    if (tagx.toString('latin1', 0, 4) !== 'TAGX') {
+      throw new Error('INDX记录缺少TAGX');
+    }
+    const tagxLength = tagx.readUInt32BE(4);
+    const controlByteCount = tagx.readUInt32BE(8);
+    const tagTable: Array<{ tag: number; valueCount: number; mask: number; end: number }> = [];
+    for (let pos = 12; pos + 4 <= tagxLength; pos += 4) {
+      tagTable.push({ tag: tagx[pos], valueCount: tagx[pos + 1], mask: tagx[pos + 2], end: tagx[pos + 3] });
+    }
+
+    // CNCX记录存放标签文本，偏移量按每条记录0x10000递增
+    const cncx = new Map<number, string>();
+    for (let i = 0; i < cncxRecordCount; i++) {
+      const record = book.records[indexRecord + entryRecordCount + 1 + i];
+      if (!record) break;
+      let pos = 0;
+      while (pos < record.length) {
+        const start = pos;
+        const { value, length } = readForwardVarLen(record, pos);
+        if (length === 0) break;
+        pos += length;
+        cncx.set(i * 0x10000 + start, new TextDecoder(book.header.encoding).decode(record.subarray(pos, pos + value)));
+        pos += value;
+      }
+    }
+
+    const entries: IndexEntry[] = [];
+    for (let i = 0; i < entryRecordCount; i++) {
+      const record = book.records[indexRecord + 1 + i];
+      if (!record || record.toString('latin1', 0, 4) !== 'INDX') continue;
+
+      const idxtOffset = record.readUInt32BE(20);
+      const entryCount = record.readUInt32BE(24);
+      for (let j = 0; j < entryCount; j++) {
+        const offset = record.readUInt16BE(idxtOffset + 4 + j * 2);
+        entries.push(this.readIndexEntry(record, offset, tagTable, controlByteCount));
+      }
+    }
+
+    return { entries, cncx };
+  }
+
+  private readIndexEntry(
+    record: Buffer,
+    offset: number,
+    tagTable: Array<{ tag: number; valueCount: number; mask: number; end: number }>,
+    controlByteCount: number
+  ): IndexEntry {
+    const nameLength = record[offset];
+    const name = record.toString('latin1', offset + 1, offset + 1 + nameLength);
+    const controlStart = offset + 1 + nameLength;
+    let pos = controlStart + controlByteCount;
+    let controlIndex = 0;
+
+    // 先根据控制字节确定每个标签的值数量（或值字节数），再依次读取
+    const layouts: Array<{ tag: number; valueCount: number; count: number | null; byteLength: number | null }> = [];
+    for (const { tag, valueCount, mask, end } of tagTable) {
+      if (end & 1) {
+        controlIndex++;
+        continue;
+      }
+      const value = record[controlStart + controlIndex] & mask;
+      if (value === 0) continue;
+
+      if (value === mask && this.countBits(mask) > 1) {
+        const { value: byteLength, length } = readForwardVarLen(record, pos);
+        pos += length;
+        layouts.push({ tag, valueCount, count: null, byteLength });
+      } else {
+        let shifted = value;
+        let shiftMask = mask;
+        while ((shiftMask & 1) === 0) {
+          shiftMask >>= 1;
+          shifted >>= 1;
+        }
+        layouts.push({ tag, valueCount, count: shifted, byteLength: null });
+      }
+    }
+
+    const tags = new Map<number, number[]>();
+    for (const { tag, valueCount, count, byteLength } of layouts) {
+      const values: number[] = [];
+      if (count !== null) {
+        for (let i = 0; i < count * valueCount; i++) {
+          const { value, length } = readForwardVarLen(record, pos);
+          values.push(value);
+          pos += length;
+        }
+      } else {
+        let consumed = 0;
+        while (consumed < (byteLength ?? 0)) {
+          const { value, length } = readForwardVarLen(record, pos);
+          values.push(value);
+          pos += length;
+          consumed += length;
+        }
+      }
+      tags.set(tag, values);
+    }
+
+    return { name, tags };
+  }
+
+  private countBits(value: number): number {
+    let count = 0;
+    for (let v = value; v > 0; v >>= 1) {
+      count += v & 1;
+    }
+    return count;
+  }
+
+  /**
+   * 没有NCX索引时，以正文中的h1-h3标题作为目录
+   * 使用latin1解码保证字符下标与字节偏移一致
+   */
+  private extractTocFromHeadings(book: MobiBook): TocItem[] {
+    const raw = book.text.toString('latin1');
+    const headingPattern = /<h([1-3])\b[^>]*>([\s\S]*?)<\/h\1>/gi;
+    const tocItems: TocItem[] = [];
+    const parents: Array<string | null> = [null, null, null];
+    let match: RegExpExecArray | null;
+
+    while ((match = headingPattern.exec(raw)) !== null) {
+      const titleBytes = Buffer.from(match[2], 'latin1');
+      const title = htmlToText(new TextDecoder(book.header.encoding).decode(titleBytes)).replace(/\s+/g, ' ').trim();
+      if (!title) continue;
+
+      const level = parseInt(match[1], 10);
+      const id = uuidv4();
+      tocItems.push({
+        id,
+        title,
+        level,
+        href: `#filepos=${match.index}`,
+        parent_id: level > 1 ? parents[level - 2] : null
+      });
+      parents[level - 1] = id;
+      for (let i = level; i < parents.length; i++) {
+        parents[i] = null;
+      }
+    }
+
+    return tocItems;
+  }
+
+  private extractTocFromPageBreaks(book: MobiBook): TocItem[] {
+    const raw = book.text.toString('latin1');
+    const starts = [0];
+    const pageBreakPattern = /<mbp:pagebreak\s*\/?>/gi;
+    let match: RegExpExecArray | null;
+    while ((match = pageBreakPattern.exec(raw)) !== null) {
+      starts.push(match.index + match[0].length);
+    }
+
+    return starts
+      .filter((start, i) => htmlToText(raw.substring(start, starts[i + 1] ?? raw.length)).trim().length > 0)
+      .map((start, i) => ({
+        id: uuidv4(),
+        title: `第${i + 1}部分`,
+        level: 1,
+        href: `#filepos=${start}`,
+        parent_id: null
+      }));
+  }
+
+  private getFilePosFromHref(href: string): number | null {
+    const match = href?.match(/#filepos=(\d+)/);
+    return match ? parseInt(match[1], 10) : null;
+  }
+}
@@ -1,16 +1,53 @@
 // 解析器工厂
+import * as fs from 'fs';
 import * as path from 'path';
 import { IBaseParser, ParseConfig } from './base-parser';
 import { EPUBParser } from './epub-parser';
+import { PDFParser } from './pdf-parser';
+import { TxtParser } from './txt-parser';
+import { MobiParser } from './mobi-parser';
+import { FB2Parser } from './fb2-parser';
+import { DocxParser } from './docx-parser';
+import { detectEpub, detectPdf, detectMobi, detectFb2, detectDocx, detectTxt } from './format-detector';
+import { FileSample, sampleFile, sampleBuffer } from '../utils/file-sniffer';
+
+// 内容识别的置信度达到该值时，优先于扩展名
+const CONTENT_CONFIDENCE_THRESHOLD = 0.5;
+
+// 仅凭扩展名匹配时的置信度
+const EXTENSION_CONFIDENCE = 0.5;
+
+// 看起来像扩展名的文件名后缀；"第1卷. 风起"这类文件名中的点不算扩展名
+const FILE_EXTENSION_PATTERN = /\.[a-z0-9]{1,5}$/i;
+
+// 解析器能力说明
+export interface ParserCapabilities {
+  cover: boolean; // 能否提取封面
+  metadata: boolean; // 能否读取作者、出版社等元数据
+  nativeToc: boolean; // 是否读取文件自带目录（否则根据标题或分段推断）
+}
 
 // 解析策略配置
 export interface ParseStrategy {
   name: string;
+  label: string;
   priority: number;
   matcher: (filePath: string) => boolean;
+  // 根据文件内容返回0-1的置信度
+  detector?: (sample: FileSample) => number;
+  capabilities: ParserCapabilities;
   createParser: (config?: Partial<ParseConfig>) => IBaseParser;
 }
 
+// 格式识别结果
+export interface FormatDetection {
+  strategy: string;
+  confidence: number;
+  method: 'content' | 'extension';
+  // 保存文件时使用的扩展名
+  extension: string;
+}
+
 // 解析器工厂类
 export class ParserFactory {
   private static strategies: Map<string, ParseStrategy> = new Map();
@@ -19,13 +56,86 @@ export class ParserFactory {
     // 注册EPUB解析策略
     ParserFactory.registerStrategy({
       name: 'epub',
+      label: 'EPUB电子书',
       priority: 100,
       matcher: (filePath: string) => {
         const ext = path.extname(filePath).toLowerCase();
         return ext === '.epub';
       },
+      detector: detectEpub,
+      capabilities: { cover: true, metadata: true, nativeToc: true },
       createParser: (config?: Partial<ParseConfig>) => new EPUBParser(config)
     });
+
+    // 注册PDF解析策略
+    ParserFactory.registerStrategy({
+      name: 'pdf',
+      label: 'PDF文档',
+      priority: 90,
+      matcher: (filePath: string) => {
+        const ext = path.extname(filePath).toLowerCase();
+        return ext === '.pdf';
+      },
+      detector: detectPdf,
+      capabilities: { cover: true, metadata: true, nativeToc: true },
+      createParser: (config?: Partial<ParseConfig>) => new PDFParser(config)
+    });
+
+    // 注册MOBI/AZW3解析策略
+    ParserFactory.registerStrategy({
+      name: 'mobi',
+      label: 'Kindle电子书（MOBI/AZW3）',
+      priority: 80,
+      matcher: (filePath: string) => {
+        const ext = path.extname(filePath).toLowerCase();
+        return ['.mobi', '.azw3', '.azw'].includes(ext);
+      },
+      detector: detectMobi,
+      capabilities: { cover: true, metadata: true, nativeToc: true },
+      createParser: (config?: Partial<ParseConfig>) => new MobiParser(config)
+    });
+
+    // 注册FB2解析策略：FictionBook文档或包含.fb2的压缩包
+    ParserFactory.registerStrategy({
+      name: 'fb2',
+      label: 'FictionBook电子书',
+      priority: 70,
+      matcher: (filePath: string) => {
+        const lowerPath = filePath.toLowerCase();
+        return lowerPath.endsWith('.fb2') || lowerPath.endsWith('.fb2.zip');
+      },
+      detector: detectFb2,
+      capabilities: { cover: true, metadata: true, nativeToc: true },
+      createParser: (config?: Partial<ParseConfig>) => new FB2Parser(config)
+    });
+
+    // 注册DOCX解析策略：包含word/document.xml的压缩包
+    ParserFactory.registerStrategy({
+      name: 'docx',
+      label: 'Word文档',
+      priority: 60,
+      matcher: (filePath: string) => {
+        const ext = path.extname(filePath).toLowerCase();
+        return ext === '.docx';
+      },
+      detector: detectDocx,
+      capabilities: { cover: false, metadata: true, nativeToc: false },
+      createParser: (config?: Partial<ParseConfig>) => new DocxParser(config)
+    });
+
+    // 注册TXT解析策略
+    ParserFactory.registerStrategy({
+      name: 'txt',
+      label: '纯文本',
+      priority: 50,
+      matcher: (filePath: string) => {
+        const ext = path.extname(filePath).toLowerCase();
+        return ext === '.txt';
+      },
+      detector: detectTxt,
+      capabilities: { cover: false, metadata: false, nativeToc: false },
+      createParser: (config?: Partial<ParseConfig>) => new TxtParser(config)
+    });
   }
 
   /**
@@ -37,20 +147,35 @@ export class ParserFactory {
 
   /**
    * 创建解析器
+   * 文件存在时按内容识别格式，否则按扩展名
    */
   static createParser(filePath: string, config?: Partial<ParseConfig>): IBaseParser {
-    // 根据优先级排序策略
-    const strategies = Array.from(this.strategies.values())
-      .sort((a, b) => b.priority - a.priority);
-
-    // 查找匹配的策略
-    for (const strategy of strategies) {
-      if (strategy.matcher(filePath)) {
-        return strategy.createParser(config);
-      }
+    const detection = this.detectFormat(filePath);
+    if (!detection) {
+      throw new Error(`不支持的文件格式: ${path.extname(filePath) || '未知'}`);
     }
 
-    throw new Error(`不支持的文件格式: ${path.extname(filePath)}`);
+    return this.strategies.get(detection.strategy)!.createParser(config);
+  }
+
+  /**
+   * 识别磁盘上文件的格式
+   * @param filePath 文件路径
+   * @returns 识别结果；无法识别时返回null
+   */
+  static detectFormat(filePath: string): FormatDetection | null {
+    const sample = fs.existsSync(filePath) ? sampleFile(filePath) : null;
+    return this.resolveFormat(sample, filePath);
+  }
+
+  /**
+   * 识别内存中文件内容的格式（用于上传）
+   * @param buffer 文件内容
+   * @param fileName 原始文件名
+   * @returns 识别结果；无法识别时返回null
+   */
+  static detectBuffer(buffer: Buffer, fileName: string): FormatDetection | null {
+    return this.resolveFormat(sampleBuffer(buffer), fileName);
   }
 
   /**
@@ -85,4 +210,55 @@ export class ParserFactory {
   static getStrategies(): ParseStrategy[] {
     return Array.from(this.strategies.values());
   }
-}
\ No newline at end of file
+
+  /**
+   * 综合内容与扩展名选择策略：
+   * 内容置信度足够高时以内容为准（扩展名错误或缺失也能识别），
+   * 否则使用扩展名匹配的策略，最后才采用低置信度的内容识别结果（如纯文本）；
+   * 低置信度的结果只用于没有扩展名的文件，HTML、CSV、Markdown等其他扩展名的文本文件不当作纯文本书籍
+   */
+  private static resolveFormat(sample: FileSample | null, fileName: string): FormatDetection | null {
+    const strategies = Array.from(this.strategies.values())
+      .sort((a, b) => b.priority - a.priority);
+
+    let best: { strategy: ParseStrategy; confidence: number } | null = null;
+    if (sample) {
+      for (const strategy of strategies) {
+        const confidence = strategy.detector ? strategy.detector(sample) : 0;
+        if (confidence > 0 && (!best || confidence > best.confidence)) {
+          best = { strategy, confidence };
+        }
+      }
+    }
+
+    if (best && best.confidence >= CONTENT_CONFIDENCE_THRESHOLD) {
+      return this.createDetection(best.strategy, best.confidence, 'content', fileName);
+    }
+
+    const extensionMatch = strategies.find(strategy => strategy.matcher(fileName));
+    if (extensionMatch) {
+      return this.createDetection(extensionMatch, EXTENSION_CONFIDENCE, 'extension', fileName);
+    }
+
+    if (best && !FILE_EXTENSION_PATTERN.test(path.basename(fileName))) {
+      return this.createDetection(best.strategy, best.confidence, 'content', fileName);
+    }
+    return null;
+  }
+
+  private static createDetection(
+    strategy: ParseStrategy,
+    confidence: number,
+    method: FormatDetection['method'],
+    fileName: string
+  ): FormatDetection {
+    // 原扩展名属于该格式时保留（如.azw3），否则使用该格式的首选扩展名
+    const formats = strategy.createParser().getSupportedFormats();
+    const lowerName = fileName.toLowerCase();
+    const extension = formats
+      .filter(format => lowerName.endsWith(format))
+      .sort((a, b) => b.length - a.length)[0] || formats[0];
+
+    return { strategy: strategy.name, confidence, method, extension };
+  }
+}
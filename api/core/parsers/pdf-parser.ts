@@ -0,0 +1,435 @@
+// PDF解析器实现
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import { createRequire } from 'module';
+import { getDocument, type PDFDocumentProxy } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import sharp from 'sharp';
+import { v4 as uuidv4 } from 'uuid';
+import { BaseParser, ParseConfig, IChapterTextExtractor } from './base-parser';
+import { ParseResult, BookInfo, CoverInfo, TocItem } from '../../types/book.types';
+
+const readFile = promisify(fs.readFile);
+const require = createRequire(import.meta.url);
+
+// pdfjs自带的CMap与标准字体目录，中文PDF的文本提取依赖CMap
+const PDFJS_DIR = path.dirname(require.resolve('pdfjs-dist/package.json'));
+
+// 没有书签时，按固定页数生成目录项
+const PAGES_PER_FALLBACK_SECTION = 20;
+
+// 目录项对应的页码范围（从1开始，包含首尾）
+export interface PageRange {
+  start: number;
+  end: number;
+}
+
+// PDF书签节点（pdfjs getOutline返回结构的子集）
+interface OutlineNode {
+  title: string;
+  dest: string | unknown[] | null;
+  items: OutlineNode[];
+}
+
+export class PDFParser extends BaseParser implements IChapterTextExtractor {
+  private documents: Map<string, Promise<PDFDocumentProxy>> = new Map();
+
+  constructor(config?: Partial<ParseConfig>) {
+    super(config);
+  }
+
+  getSupportedFormats(): string[] {
+    return ['.pdf'];
+  }
+
+  /**
+   * 验证PDF文件的有效性
+   * @param filePath 文件路径
+   * @returns 验证结果
+   */
+  async validate(filePath: string): Promise<boolean> {
+    try {
+      if (!fs.existsSync(filePath)) {
+        console.warn(`PDF验证失败: 文件不存在 - ${filePath}`);
+        return false;
+      }
+
+      const ext = path.extname(filePath).toLowerCase();
+      if (!this.getSupportedFormats().includes(ext)) {
+        console.warn(`PDF验证失败: 不支持的文件格式 - ${ext}`);
+        return false;
+      }
+
+      const stats = fs.statSync(filePath);
+      if (stats.size === 0) {
+        console.warn(`PDF验证失败: 文件为空 - ${filePath}`);
+        return false;
+      }
+      if (stats.size > 100 * 1024 * 1024) { // 100MB限制
+        console.warn(`PDF验证失败: 文件过大 (${Math.round(stats.size / 1024 / 1024)}MB) - ${filePath}`);
+        return false;
+      }
+
+      // 检查文件头标识 %PDF-
+      const buffer = await readFile(filePath);
+      if (buffer.subarray(0, 1024).indexOf('%PDF-') === -1) {
+        console.warn(`PDF验证失败: 缺少%PDF文件头 - ${filePath}`);
+        return false;
+      }
+
+      console.log(`PDF验证成功: ${filePath}`);
+      return true;
+    } catch (error) {
+      console.error(`PDF验证异常: ${filePath}`, error);
+      return false;
+    }
+  }
+
+  /**
+   * 解析PDF文件
+   * @param filePath 文件路径
+   * @returns 解析结果
+   */
+  async parse(filePath: string): Promise<ParseResult> {
+    console.log(`开始解析PDF文件: ${filePath}`);
+
+    try {
+      console.log('步骤1: 验证PDF文件格式...');
+      const isValid = await this.validate(filePath);
+      if (!isValid) {
+        console.error('PDF文件验证失败');
+        return this.createError('无效的PDF文件');
+      }
+
+      console.log('步骤2: 加载PDF文档...');
+      const doc = await this.loadDocument(filePath);
+      console.log(`成功加载PDF文档，共 ${doc.numPages} 页`);
+
+      console.log('步骤3: 提取书籍基本信息...');
+      const bookInfo = await this.extractBookInfo(doc);
+      console.log(`书籍信息: ${bookInfo.title} - ${bookInfo.author}`);
+
+      console.log('步骤4: 提取封面信息...');
+      const coverInfo = await this.extractCoverInfo(doc);
+      console.log(`封面提取${coverInfo?.cover_image ? '成功' : '失败'}`);
+
+      console.log('步骤5: 提取目录结构...');
+      const tableOfContents = await this.extractTableOfContents(doc);
+      console.log(`提取到 ${tableOfContents.length} 个目录项`);
+
+      console.log('PDF解析完成');
+      return this.createSuccess({
+        bookInfo,
+        coverInfo,
+        tableOfContents
+      });
+    } catch (error) {
+      console.error('PDF解析错误:', error);
+      return this.createError(`解析失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    } finally {
+      this.dispose();
+    }
+  }
+
+  /**
+   * 计算每个目录项覆盖的页码范围
+   * 目录项从自身页码开始，到下一个同级或更高级目录项的前一页结束
+   * @param filePath 文件路径
+   * @param tableOfContents 目录项列表
+   * @returns 目录项ID到页码范围的映射
+   */
+  async getPageRanges(filePath: string, tableOfContents: TocItem[]): Promise<Map<string, PageRange>> {
+    const doc = await this.loadDocument(filePath);
+    const ranges = new Map<string, PageRange>();
+
+    tableOfContents.forEach((item, index) => {
+      const start = this.getPageFromHref(item.href);
+      if (!start) return;
+
+      let end = doc.numPages;
+      for (let i = index + 1; i < tableOfContents.length; i++) {
+        const next = tableOfContents[i];
+        const nextPage = this.getPageFromHref(next.href);
+        if (next.level <= item.level && nextPage) {
+          end = Math.max(start, nextPage - 1);
+          break;
+        }
+      }
+
+      ranges.set(item.id, { start, end: Math.min(end, doc.numPages) });
+    });
+
+    return ranges;
+  }
+
+  /**
+   * 提取目录项对应页码范围内的文本
+   * @param filePath 文件路径
+   * @param tocItem 目录项
+   * @param tableOfContents 完整目录
+   * @returns 章节文本
+   */
+  async extractChapterText(filePath: string, tocItem: TocItem, tableOfContents: TocItem[]): Promise<string> {
+    const ranges = await this.getPageRanges(filePath, tableOfContents);
+    const range = ranges.get(tocItem.id);
+    if (!range) {
+      throw new Error(`目录项缺少页码信息: ${tocItem.title}`);
+    }
+
+    console.log(`[PDFParser] 提取章节 ${tocItem.title}: 第${range.start}-${range.end}页`);
+    const doc = await this.loadDocument(filePath);
+    const pages: string[] = [];
+    for (let pageNumber = range.start; pageNumber <= range.end; pageNumber++) {
+      pages.push(await this.extractPageText(doc, pageNumber));
+    }
+    return pages.join('\n');
+  }
+
+  /**
+   * 释放已加载的PDF文档
+   */
+  dispose(): void {
+    for (const loading of this.documents.values()) {
+      loading.then(doc => doc.destroy()).catch(() => undefined);
+    }
+    this.documents.clear();
+  }
+
+  private loadDocument(filePath: string): Promise<PDFDocumentProxy> {
+    let loading = this.documents.get(filePath);
+    if (!loading) {
+      loading = readFile(filePath).then(buffer => getDocument({
+        data: new Uint8Array(buffer),
+        cMapUrl: path.join(PDFJS_DIR, 'cmaps') + path.sep,
+        cMapPacked: true,
+        standardFontDataUrl: path.join(PDFJS_DIR, 'standard_fonts') + path.sep,
+        isEvalSupported: false,
+        verbosity: 0
+      }).promise);
+      this.documents.set(filePath, loading);
+    }
+    return loading;
+  }
+
+  private async extractPageText(doc: PDFDocumentProxy, pageNumber: number): Promise<string> {
+    const page = await doc.getPage(pageNumber);
+    const content = await page.getTextContent();
+    return content.items
+      .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+      .join('');
+  }
+
+  /**
+   * 从文档信息字典与XMP元数据中提取书籍信息，XMP优先
+   */
+  private async extractBookInfo(doc: PDFDocumentProxy): Promise<BookInfo> {
+    const { info, metadata } = await doc.getMetadata();
+    const infoDict = (info || {}) as Record<string, unknown>;
+
+    const xmp = (name: string): string => {
+      if (!metadata || !metadata.has(name)) return '';
+      const value = metadata.get(name);
+      return Array.isArray(value) ? value.join(', ') : String(value ?? '').trim();
+    };
+    const dict = (name: string): string => {
+      const value = infoDict[name];
+      return typeof value === 'string' ? value.trim() : '';
+    };
+
+    const title = xmp('dc:title') || dict('Title') || '未知标题';
+    const author = xmp('dc:creator') || dict('Author') || '未知作者';
+    const publisher = xmp('dc:publisher') || dict('Publisher') || '未知出版社';
+    const language = xmp('dc:language') || dict('Language') || 'zh';
+    const description = xmp('dc:description') || dict('Subject');
+    const date = this.formatPdfDate(xmp('xmp:createdate') || xmp('dc:date') || dict('CreationDate'));
+    const isbn = this.findIsbn(xmp('prism:isbn') || xmp('dc:identifier') || dict('ISBN'))
+      || await this.findIsbnInFrontPages(doc);
+
+    return {
+      title,
+      author,
+      translator: '',
+      publisher,
+      isbn,
+      publication_date: date,
+      language,
+      description: description || undefined
+    };
+  }
+
+  /**
+   * 将PDF日期（D:YYYYMMDDHHmmSS）或ISO日期转换为YYYY-MM-DD
+   */
+  private formatPdfDate(value: string): string {
+    if (!value) return '';
+    const match = value.match(/(\d{4})-?(\d{2})?-?(\d{2})?/);
+    if (!match) return '';
+    return [match[1], match[2], match[3]].filter(Boolean).join('-');
+  }
+
+  private findIsbn(text: string): string {
+    const match = text.match(/(?:ISBN[-:：\s]*)?((?:97[89][-\s]?)?\d{1,5}[-\s]?\d{1,7}[-\s]?\d{1,7}[-\s]?[\dX])/i);
+    if (!match) return '';
+    const digits = match[1].replace(/[-\s]/g, '');
+    return digits.length === 10 || digits.length === 13 ? match[1] : '';
+  }
+
+  /**
+   * 元数据中没有ISBN时，在版权页所在的前几页中查找
+   */
+  private async findIsbnInFrontPages(doc: PDFDocumentProxy): Promise<string> {
+    try {
+      const lastPage = Math.min(doc.numPages, 6);
+      for (let pageNumber = 1; pageNumber <= lastPage; pageNumber++) {
+        const text = await this.extractPageText(doc, pageNumber);
+        const index = text.search(/ISBN/i);
+        if (index !== -1) {
+          const isbn = this.findIsbn(text.substring(index, index + 40));
+          if (isbn) return isbn;
+        }
+      }
+    } catch (error) {
+      console.warn('在正文中查找ISBN失败:', error);
+    }
+    return '';
+  }
+
+  /**
+   * 将第一页渲染为封面图片
+   */
+  private async extractCoverInfo(doc: PDFDocumentProxy): Promise<CoverInfo | undefined> {
+    if (!this.config.extractCover) {
+      console.log('封面提取已禁用');
+      return undefined;
+    }
+
+    try {
+      const page = await doc.getPage(1);
+      const baseViewport = page.getViewport({ scale: 1 });
+      // 以两倍目标尺寸渲染，缩放后保证清晰度
+      const scale = Math.min(4, (this.config.maxCoverSize * 2) / Math.max(baseViewport.width, baseViewport.height));
+      const viewport = page.getViewport({ scale });
+
+      const canvasFactory = doc.canvasFactory as {
+        create(width: number, height: number): {
+          canvas: { toBuffer(mimeType: string): Buffer };
+          context: CanvasRenderingContext2D;
+        };
+      };
+      const { canvas, context } = canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+      await page.render({ canvasContext: context, viewport }).promise;
+
+      const processedImage = await sharp(canvas.toBuffer('image/png'))
+        .resize(this.config.maxCoverSize, this.config.maxCoverSize, {
+          fit: 'inside',
+          withoutEnlargement: true
+        })
+        .jpeg({ quality: this.config.imageQuality })
+        .toBuffer();
+
+      return {
+        cover_image: `data:image/jpeg;base64,${processedImage.toString('base64')}`,
+        cover_alt_text: '书籍封面（PDF首页）'
+      };
+    } catch (error) {
+      console.warn('PDF封面渲染失败:', error);
+      return {
+        cover_image: '',
+        cover_alt_text: '封面提取失败'
+      };
+    }
+  }
+
+  private async extractTableOfContents(doc: PDFDocumentProxy): Promise<TocItem[]> {
+    if (!this.config.extractToc) {
+      console.log('目录提取已禁用');
+      return [];
+    }
+
+    try {
+      const outline = (await doc.getOutline()) as OutlineNode[] | null;
+      if (outline && outline.length > 0) {
+        console.log('方法1: 从PDF书签提取目录...');
+        const tocItems = await this.parseOutline(doc, outline);
+        if (tocItems.length > 0) {
+          return tocItems;
+        }
+      }
+    } catch (error) {
+      console.error('PDF书签解析失败:', error);
+    }
+
+    console.log('方法2: PDF没有可用书签，按页数生成目录...');
+    return this.extractTocFromPages(doc);
+  }
+
+  private async parseOutline(
+    doc: PDFDocumentProxy,
+    nodes: OutlineNode[],
+    level: number = 1,
+    parentId: string | null = null
+  ): Promise<TocItem[]> {
+    const tocItems: TocItem[] = [];
+
+    for (const node of nodes) {
+      const id = uuidv4();
+      const pageNumber = await this.resolveDestinationPage(doc, node.dest);
+
+      tocItems.push({
+        id,
+        title: (node.title || '').trim() || `未命名书签`,
+        level,
+        href: pageNumber ? `#page=${pageNumber}` : '',
+        parent_id: parentId
+      });
+
+      if (node.items && node.items.length > 0) {
+        tocItems.push(...await this.parseOutline(doc, node.items, level + 1, id));
+      }
+    }
+
+    return tocItems;
+  }
+
+  /**
+   * 将书签目标解析为页码（从1开始）
+   */
+  private async resolveDestinationPage(doc: PDFDocumentProxy, dest: OutlineNode['dest']): Promise<number | null> {
+    try {
+      const explicitDest = typeof dest === 'string' ? await doc.getDestination(dest) : dest;
+      if (!Array.isArray(explicitDest) || explicitDest.length === 0) {
+        return null;
+      }
+
+      const target = explicitDest[0];
+      if (typeof target === 'number') {
+        return target + 1;
+      }
+      const pageIndex = await doc.getPageIndex(target as Parameters<PDFDocumentProxy['getPageIndex']>[0]);
+      return pageIndex + 1;
+    } catch (error) {
+      console.warn('书签目标解析失败:', error);
+      return null;
+    }
+  }
+
+  private extractTocFromPages(doc: PDFDocumentProxy): TocItem[] {
+    const tocItems: TocItem[] = [];
+    for (let start = 1; start <= doc.numPages; start += PAGES_PER_FALLBACK_SECTION) {
+      const end = Math.min(start + PAGES_PER_FALLBACK_SECTION - 1, doc.numPages);
+      tocItems.push({
+        id: uuidv4(),
+        title: `第${start}-${end}页`,
+        level: 1,
+        href: `#page=${start}`,
+        parent_id: null
+      });
+    }
+    return tocItems;
+  }
+
+  private getPageFromHref(href: string): number | null {
+    const match = href?.match(/#page=(\d+)/);
+    return match ? parseInt(match[1], 10) : null;
+  }
+}
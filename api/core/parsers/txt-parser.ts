@@ -0,0 +1,386 @@
+// TXT纯文本解析器实现
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import { v4 as uuidv4 } from 'uuid';
+import { BaseParser, ParseConfig, IChapterTextExtractor } from './base-parser';
+import { ParseResult, BookInfo, TocItem, ChapterContent } from '../../types/book.types';
+
+const readFile = promisify(fs.readFile);
+
+// 支持识别的文本编码
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'gb18030';
+
+// 标题行的最大长度，超过视为正文
+const MAX_HEADING_LENGTH = 40;
+
+// 没有识别到任何标题时，按固定字数切分
+const CHARS_PER_FALLBACK_SECTION = 5000;
+
+const CN_NUMBER = '[零〇一二两三四五六七八九十百千万\\d０-９]+';
+
+// 英文编号：数字、罗马数字和英文数词（one…twenty、first…twentieth）
+const EN_NUMBER_WORDS = [
+  'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen', 'twenty',
+  'first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth',
+  'eleventh', 'twelfth', 'thirteenth', 'fourteenth', 'fifteenth', 'sixteenth', 'seventeenth', 'eighteenth', 'nineteenth', 'twentieth'
+];
+const EN_NUMBER = `(?:\\d+|[IVXLC]+|${EN_NUMBER_WORDS.join('|')})`;
+// 编号之后为行尾，或为不以句末标点结尾的标题，避免"Part I was ..."这样的正文被识别为标题
+const EN_TITLE_REST = '(?:[.:]?|[\\s:：.·-].*[^.!?,;])$';
+
+// 卷/部/篇级标题，如"第一卷 风起"、"卷三"、"Part 2"
+const VOLUME_PATTERNS = [
+  new RegExp(`^第${CN_NUMBER}[卷部篇集](?:[\\s:：、.·-].*|$)`),
+  new RegExp(`^[卷部篇]${CN_NUMBER}(?:[\\s:：、.·-].*|$)`),
+  new RegExp(`^(?:Part|Book|Volume)\\s+${EN_NUMBER}${EN_TITLE_REST}`, 'i')
+];
+
+// 章级标题，如"第十二章 归来"、"Chapter 3"、"楔子"
+const CHAPTER_PATTERNS = [
+  new RegExp(`^第${CN_NUMBER}[章回节](?:[\\s:：、.·-].*|$)`),
+  new RegExp(`^Chapter\\s+${EN_NUMBER}${EN_TITLE_REST}`, 'i'),
+  /^(?:序章|序言|序|楔子|引子|引言|前言|尾声|后记|终章|番外.*)$/
+];
+
+// 编号行，如"1. 开端"、"001 初见"、"一、缘起"，仅在没有章级标题时使用
+const NUMBERED_PATTERN = /^(\d{1,4}|[一二三四五六七八九十百]+)[.、．\s]\s*\S.*$/;
+
+// 文本中的标题行
+interface HeadingLine {
+  lineIndex: number;
+  title: string;
+  kind: 'volume' | 'chapter' | 'numbered';
+}
+
+// 已解码的文本缓存
+interface DecodedText {
+  encoding: TextEncoding;
+  lines: string[];
+}
+
+export class TxtParser extends BaseParser implements IChapterTextExtractor {
+  private texts: Map<string, Promise<DecodedText>> = new Map();
+
+  constructor(config?: Partial<ParseConfig>) {
+    super(config);
+  }
+
+  getSupportedFormats(): string[] {
+    return ['.txt'];
+  }
+
+  /**
+   * 验证TXT文件的有效性
+   * @param filePath 文件路径
+   * @returns 验证结果
+   */
+  async validate(filePath: string): Promise<boolean> {
+    try {
+      if (!fs.existsSync(filePath)) {
+        console.warn(`TXT验证失败: 文件不存在 - ${filePath}`);
+        return false;
+      }
+
+      const ext = path.extname(filePath).toLowerCase();
+      if (!this.getSupportedFormats().includes(ext)) {
+        console.warn(`TXT验证失败: 不支持的文件格式 - ${ext}`);
+        return false;
+      }
+
+      const stats = fs.statSync(filePath);
+      if (stats.size === 0) {
+        console.warn(`TXT验证失败: 文件为空 - ${filePath}`);
+        return false;
+      }
+      if (stats.size > 100 * 1024 * 1024) { // 100MB限制
+        console.warn(`TXT验证失败: 文件过大 (${Math.round(stats.size / 1024 / 1024)}MB) - ${filePath}`);
+        return false;
+      }
+
+      console.log(`TXT验证成功: ${filePath}`);
+      return true;
+    } catch (error) {
+      console.error(`TXT验证异常: ${filePath}`, error);
+      return false;
+    }
+  }
+
+  /**
+   * 解析TXT文件
+   * 根据标题行推断目录层级，并直接生成章节内容
+   * @param filePath 文件路径
+   * @returns 解析结果
+   */
+  async parse(filePath: string): Promise<ParseResult> {
+    console.log(`开始解析TXT文件: ${filePath}`);
+
+    try {
+      console.log('步骤1: 验证TXT文件...');
+      const isValid = await this.validate(filePath);
+      if (!isValid) {
+        return this.createError('无效的TXT文件');
+      }
+
+      console.log('步骤2: 识别文本编码...');
+      const { encoding, lines } = await this.loadText(filePath);
+      console.log(`文本编码: ${encoding}，共 ${lines.length} 行`);
+
+      console.log('步骤3: 提取书籍基本信息...');
+      const bookInfo = this.extractBookInfo(lines);
+      console.log(`书籍信息: ${bookInfo.title} - ${bookInfo.author}`);
+
+      console.log('步骤4: 识别章节标题...');
+      const tableOfContents = this.config.extractToc ? this.buildTableOfContents(lines) : [];
+      console.log(`提取到 ${tableOfContents.length} 个目录项`);
+
+      // 以最深一级目录生成章节，可直接进入AI分析
+      const chapterLevel = tableOfContents.reduce((max, item) => Math.max(max, item.level), 1);
+      const chapters: ChapterContent[] = tableOfContents
+        .filter(item => item.level === chapterLevel)
+        .map((item, index) => {
+          const content = this.sliceTocItemText(lines, item, tableOfContents);
+          return {
+            index,
+            title: item.title,
+            content,
+            wordCount: this.countWords(content),
+            level: item.level
+          };
+        });
+
+      console.log('TXT解析完成');
+      return this.createSuccess({
+        bookInfo,
+        coverInfo: {
+          cover_image: '',
+          cover_alt_text: '纯文本文件无封面'
+        },
+        tableOfContents,
+        chapters
+      });
+    } catch (error) {
+      console.error('TXT解析错误:', error);
+      return this.createError(`解析失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    } finally {
+      this.dispose();
+    }
+  }
+
+  /**
+   * 提取目录项对应的正文
+   * @param filePath 文件路径
+   * @param tocItem 目录项
+   * @param tableOfContents 完整目录
+   * @returns 章节文本
+   */
+  async extractChapterText(filePath: string, tocItem: TocItem, tableOfContents: TocItem[]): Promise<string> {
+    const { lines } = await this.loadText(filePath);
+    return this.sliceTocItemText(lines, tocItem, tableOfContents);
+  }
+
+  /**
+   * 释放已解码的文本
+   */
+  dispose(): void {
+    this.texts.clear();
+  }
+
+  /**
+   * 识别文本编码：BOM优先，其次校验UTF-8，最后按GB18030（兼容GBK）解码
+   * @param buffer 文件内容
+   * @returns 编码名称
+   */
+  detectEncoding(buffer: Buffer): TextEncoding {
+    if (buffer.length >= 3 && buffer[0] === 0xEF && buffer[1] === 0xBB && buffer[2] === 0xBF) {
+      return 'utf-8';
+    }
+    if (buffer.length >= 2 && buffer[0] === 0xFF && buffer[1] === 0xFE) {
+      return 'utf-16le';
+    }
+    if (buffer.length >= 2 && buffer[0] === 0xFE && buffer[1] === 0xFF) {
+      return 'utf-16be';
+    }
+
+    try {
+      new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+      return 'utf-8';
+    } catch {
+      return 'gb18030';
+    }
+  }
+
+  private loadText(filePath: string): Promise<DecodedText> {
+    let loading = this.texts.get(filePath);
+    if (!loading) {
+      loading = readFile(filePath).then(buffer => {
+        const encoding = this.detectEncoding(buffer);
+        // TextDecoder默认会去掉BOM
+        const text = new TextDecoder(encoding).decode(buffer);
+        return {
+          encoding,
+          lines: text.split(/\r\n|\r|\n/)
+        };
+      });
+      this.texts.set(filePath, loading);
+    }
+    return loading;
+  }
+
+  /**
+   * 从文件开头查找书名和作者，如"《书名》"、"作者：某某"
+   */
+  private extractBookInfo(lines: string[]): BookInfo {
+    let title = '';
+    let author = '';
+
+    const headLines = lines.slice(0, 30).map(line => line.trim()).filter(Boolean);
+    for (const line of headLines) {
+      if (!title) {
+        const titleMatch = line.match(/^(?:书名[:：]\s*)?《(.+?)》/) || line.match(/^书名[:：]\s*(.+)$/);
+        if (titleMatch) title = titleMatch[1].trim();
+      }
+      if (!author) {
+        const authorMatch = line.match(/(?:作者|著者|Author)\s*[:：]\s*(.+)$/i);
+        if (authorMatch) author = authorMatch[1].trim();
+      }
+      if (title && author) break;
+    }
+
+    // 第一行较短且不是章节标题时，视为书名
+    if (!title && headLines.length > 0 && headLines[0].length <= MAX_HEADING_LENGTH && !this.matchHeading(headLines[0])) {
+      title = headLines[0];
+    }
+
+    return {
+      title: title || '未知标题',
+      author: author || '未知作者',
+      translator: '',
+      publisher: '未知出版社',
+      isbn: '',
+      publication_date: '',
+      language: 'zh'
+    };
+  }
+
+  private matchHeading(line: string): HeadingLine['kind'] | null {
+    const text = line.trim();
+    if (!text || text.length > MAX_HEADING_LENGTH) return null;
+    if (VOLUME_PATTERNS.some(pattern => pattern.test(text))) return 'volume';
+    if (CHAPTER_PATTERNS.some(pattern => pattern.test(text))) return 'chapter';
+    if (NUMBERED_PATTERN.test(text)) return 'numbered';
+    return null;
+  }
+
+  /**
+   * 根据标题行生成目录：卷为一级、章为二级；没有卷时章为一级
+   * 编号行只有在没有章级标题且出现三次以上时才作为章节
+   */
+  private buildTableOfContents(lines: string[]): TocItem[] {
+    const headings: HeadingLine[] = [];
+    lines.forEach((line, lineIndex) => {
+      const kind = this.matchHeading(line);
+      if (kind) {
+        headings.push({ lineIndex, title: line.trim(), kind });
+      }
+    });
+
+    const hasChapters = headings.some(heading => heading.kind === 'chapter');
+    const numbered = headings.filter(heading => heading.kind === 'numbered');
+    const useNumbered = !hasChapters && numbered.length >= 3;
+    const effective = headings.filter(heading =>
+      heading.kind === 'volume' || heading.kind === 'chapter' || (useNumbered && heading.kind === 'numbered')
+    );
+
+    if (effective.length === 0) {
+      console.log('未识别到章节标题，按固定字数切分');
+      return this.buildFallbackToc(lines);
+    }
+
+    const hasVolumes = effective.some(heading => heading.kind === 'volume');
+    const tocItems: TocItem[] = [];
+    let currentVolumeId: string | null = null;
+
+    for (const heading of effective) {
+      const id = uuidv4();
+      if (heading.kind === 'volume') {
+        currentVolumeId = id;
+        tocItems.push({ id, title: heading.title, level: 1, href: `#line=${heading.lineIndex}`, parent_id: null });
+      } else {
+        const nested = hasVolumes && currentVolumeId !== null;
+        tocItems.push({
+          id,
+          title: heading.title,
+          level: nested ? 2 : 1,
+          href: `#line=${heading.lineIndex}`,
+          parent_id: nested ? currentVolumeId : null
+        });
+      }
+    }
+
+    return tocItems;
+  }
+
+  private buildFallbackToc(lines: string[]): TocItem[] {
+    const tocItems: TocItem[] = [];
+    let charCount = CHARS_PER_FALLBACK_SECTION;
+
+    lines.forEach((line, lineIndex) => {
+      if (charCount >= CHARS_PER_FALLBACK_SECTION && line.trim()) {
+        tocItems.push({
+          id: uuidv4(),
+          title: `第${tocItems.length + 1}部分`,
+          level: 1,
+          href: `#line=${lineIndex}`,
+          parent_id: null
+        });
+        charCount = 0;
+      }
+      charCount += line.length;
+    });
+
+    return tocItems;
+  }
+
+  /**
+   * 截取目录项的正文：从标题下一行到下一个同级或更高级目录项之前
+   */
+  private sliceTocItemText(lines: string[], tocItem: TocItem, tableOfContents: TocItem[]): string {
+    const start = this.getLineFromHref(tocItem.href);
+    if (start === null) {
+      throw new Error(`目录项缺少行号信息: ${tocItem.title}`);
+    }
+
+    let end = lines.length;
+    const index = tableOfContents.findIndex(item => item.id === tocItem.id);
+    for (let i = index + 1; i < tableOfContents.length; i++) {
+      const next = tableOfContents[i];
+      const nextLine = this.getLineFromHref(next.href);
+      if (next.level <= tocItem.level && nextLine !== null) {
+        end = nextLine;
+        break;
+      }
+    }
+
+    // 自动生成的分段没有标题行，需要包含起始行
+    const isHeadingLine = (lines[start] || '').trim() === tocItem.title;
+    return lines
+      .slice(isHeadingLine ? start + 1 : start, end)
+      .map(line => line.trim())
+      .filter(Boolean)
+      .join('\n');
+  }
+
+  private getLineFromHref(href: string): number | null {
+    const match = href?.match(/#line=(\d+)/);
+    return match ? parseInt(match[1], 10) : null;
+  }
+
+  private countWords(text: string): number {
+    // 简单的中英文字数统计
+    const chineseChars = (text.match(/[\u4e00-\u9fff]/g) || []).length;
+    const englishWords = (text.match(/\b[a-zA-Z]+\b/g) || []).length;
+    return chineseChars + englishWords;
+  }
+}
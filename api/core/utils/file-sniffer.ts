@@ -0,0 +1,141 @@
+// 文件内容嗅探工具，供解析策略同步识别文件格式
+import * as fs from 'fs';
+
+// ZIP中央目录结束记录的签名与最大搜索范围（记录22字节 + 注释最长65535字节）
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const EOCD_SEARCH_LENGTH = 22 + 0xFFFF;
+
+// 用于识别格式的文件头长度
+const HEAD_LENGTH = 4096;
+
+// 文件内容样本
+export interface FileSample {
+  // 文件开头的字节
+  head: Buffer;
+  // ZIP条目名（按中央目录顺序），不是ZIP时为null
+  zipEntries: string[] | null;
+}
+
+// 按位置读取字节，文件和内存缓冲区共用同一套解析逻辑
+type RangeReader = (position: number, length: number) => Buffer | null;
+
+/**
+ * 读取文件样本
+ * @param filePath 文件路径
+ * @returns 文件样本；文件不存在或不可读时返回null
+ */
+export function sampleFile(filePath: string): FileSample | null {
+  let size: number;
+  try {
+    size = fs.statSync(filePath).size;
+  } catch {
+    return null;
+  }
+  return createSample(size, (position, length) => readFileRange(filePath, position, length));
+}
+
+/**
+ * 从内存中的文件内容读取样本（如multer的memoryStorage上传）
+ * @param buffer 文件内容
+ * @returns 文件样本
+ */
+export function sampleBuffer(buffer: Buffer): FileSample {
+  return createSample(buffer.length, (position, length) => buffer.subarray(position, position + length));
+}
+
+/**
+ * 判断文件是否为ZIP压缩包
+ */
+export function isZipFile(filePath: string): boolean {
+  const head = readFileRange(filePath, 0, 4);
+  return !!head && isZipHead(head);
+}
+
+/**
+ * 读取ZIP第一个条目的名称和未压缩内容（EPUB要求mimetype为第一个且不压缩）
+ * @param head 文件头
+ * @returns 条目名与内容；不是ZIP或首个条目被压缩时返回null
+ */
+export function readFirstStoredZipEntry(head: Buffer): { name: string; content: Buffer } | null {
+  if (!isZipHead(head) || head.length < 30) {
+    return null;
+  }
+
+  const compression = head.readUInt16LE(8);
+  const compressedSize = head.readUInt32LE(18);
+  const nameLength = head.readUInt16LE(26);
+  const extraLength = head.readUInt16LE(28);
+  const dataStart = 30 + nameLength + extraLength;
+  if (compression !== 0 || dataStart + compressedSize > head.length) {
+    return null;
+  }
+
+  return {
+    name: head.toString('utf8', 30, 30 + nameLength),
+    content: head.subarray(dataStart, dataStart + compressedSize)
+  };
+}
+
+function isZipHead(head: Buffer): boolean {
+  return head.length >= 4 && head.readUInt32LE(0) === LOCAL_HEADER_SIGNATURE;
+}
+
+function createSample(size: number, read: RangeReader): FileSample {
+  const head = read(0, Math.min(size, HEAD_LENGTH)) || Buffer.alloc(0);
+  return {
+    head,
+    zipEntries: isZipHead(head) ? readZipEntries(size, read) : null
+  };
+}
+
+function readZipEntries(size: number, read: RangeReader): string[] | null {
+  const tailStart = Math.max(0, size - EOCD_SEARCH_LENGTH);
+  const tail = read(tailStart, size - tailStart);
+  if (!tail) return null;
+
+  let eocd = -1;
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) return null;
+
+  const entryCount = tail.readUInt16LE(eocd + 10);
+  const directorySize = tail.readUInt32LE(eocd + 12);
+  const directoryOffset = tail.readUInt32LE(eocd + 16);
+  const directory = read(directoryOffset, directorySize);
+  if (!directory) return null;
+
+  const names: string[] = [];
+  let pos = 0;
+  for (let i = 0; i < entryCount && pos + 46 <= directory.length; i++) {
+    if (directory.readUInt32LE(pos) !== CENTRAL_HEADER_SIGNATURE) break;
+    const nameLength = directory.readUInt16LE(pos + 28);
+    const extraLength = directory.readUInt16LE(pos + 30);
+    const commentLength = directory.readUInt16LE(pos + 32);
+    names.push(directory.toString('utf8', pos + 46, pos + 46 + nameLength));
+    pos += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return names;
+}
+
+function readFileRange(filePath: string, position: number, length: number): Buffer | null {
+  let fd: number | null = null;
+  try {
+    fd = fs.openSync(filePath, 'r');
+    const buffer = Buffer.alloc(length);
+    const bytesRead = fs.readSync(fd, buffer, 0, length, position);
+    return buffer.subarray(0, bytesRead);
+  } catch {
+    return null;
+  } finally {
+    if (fd !== null) {
+      fs.closeSync(fd);
+    }
+  }
+}
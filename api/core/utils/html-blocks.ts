@@ -0,0 +1,179 @@
+// HTML结构化内容块解析
+import { ChapterBlock } from '../../types/book.types';
+import { htmlToText } from './html-text';
+import { HtmlNode, SKIPPED_ELEMENTS, parseHtmlTree, getAttribute, localName, findElements } from './html-tree';
+import { isNoteElement, isNotesContainer } from './html-notes';
+
+// 会被继续展开的容器元素，其中的零散文本按段落处理
+const CONTAINER_ELEMENTS = new Set([
+  'html', 'body', 'div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'nav',
+  'figure', 'figcaption', 'dl', 'dt', 'dd', 'center', 'svg', 'details', 'summary'
+]);
+
+/**
+ * 将HTML转换为结构化内容块（段落、标题、列表、引用、脚注、图片、表格）
+ * HTML可以是截取的片段，不完整的标签会被容忍
+ * @param html HTML内容
+ * @param href 来源文件，写入每个块的source
+ * @param baseOffset HTML在来源文件中的起始偏移
+ * @returns 内容块列表
+ */
+export function htmlToBlocks(html: string, href: string, baseOffset: number = 0): ChapterBlock[] {
+  const root = parseHtmlTree(html);
+  const collector = new BlockCollector(html, href, baseOffset);
+  collector.walk(root);
+  collector.flush();
+  return collector.blocks;
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+class BlockCollector {
+  blocks: ChapterBlock[] = [];
+  // 尚未归入任何块的零散行内内容范围
+  private pendingStart = -1;
+  private pendingEnd = -1;
+
+  constructor(private html: string, private href: string, private baseOffset: number) {}
+
+  walk(node: HtmlNode): void {
+    let cursor = node.innerStart;
+
+    for (const child of node.children) {
+      // 子元素之间的文本
+      this.addInline(cursor, child.start);
+      cursor = child.end;
+
+      const name = localName(child.name);
+      if (SKIPPED_ELEMENTS.has(name)) {
+        continue;
+      }
+
+      if (isNotesContainer(child)) {
+        this.flush();
+        this.collectFootnotes(child);
+      } else if (isNoteElement(child)) {
+        this.flush();
+        this.pushFootnote(child);
+      } else if (/^h[1-6]$/.test(name)) {
+        this.flush();
+        this.push(child, { type: 'heading', text: this.textOf(child), level: parseInt(name[1], 10) });
+      } else if (name === 'p') {
+        this.flush();
+        this.push(child, { type: 'paragraph', text: this.textOf(child) });
+        this.collectImages(child);
+      } else if (name === 'ul' || name === 'ol') {
+        this.flush();
+        const items = findElements(child, 'li').map(item => this.textOf(item)).filter(Boolean);
+        this.push(child, { type: 'list', text: items.join('\n'), ordered: name === 'ol', items });
+      } else if (name === 'blockquote') {
+        this.flush();
+        this.push(child, { type: 'quote', text: this.textOf(child) });
+      } else if (name === 'table') {
+        this.flush();
+        const rows = findElements(child, 'tr')
+          .map(row => row.children.filter(cell => ['td', 'th'].includes(localName(cell.name))).map(cell => this.textOf(cell)))
+          .filter(row => row.length > 0);
+        this.push(child, { type: 'table', text: rows.map(row => row.join('\t')).join('\n'), rows });
+      } else if (name === 'img' || name === 'image') {
+        this.flush();
+        this.pushImage(child);
+      } else if (name === 'br' || name === 'hr') {
+        this.flush();
+      } else if (CONTAINER_ELEMENTS.has(name) || this.hasBlockDescendant(child)) {
+        this.flush();
+        this.walk(child);
+      } else {
+        // 行内元素并入当前段落
+        this.addInline(child.start, child.end);
+      }
+    }
+
+    this.addInline(cursor, node.innerEnd);
+  }
+
+  flush(): void {
+    if (this.pendingStart < 0) return;
+
+    const text = normalize(htmlToText(this.html.substring(this.pendingStart, this.pendingEnd)));
+    if (text) {
+      this.blocks.push({
+        type: 'paragraph',
+        text,
+        source: { href: this.href, start: this.baseOffset + this.pendingStart, end: this.baseOffset + this.pendingEnd }
+      });
+    }
+    this.pendingStart = -1;
+    this.pendingEnd = -1;
+  }
+
+  private addInline(start: number, end: number): void {
+    if (end <= start) return;
+    if (this.pendingStart < 0) {
+      this.pendingStart = start;
+    }
+    this.pendingEnd = end;
+  }
+
+  private push(node: HtmlNode, block: Omit<ChapterBlock, 'source'>): void {
+    if (!block.text && block.type !== 'image') return;
+
+    const id = getAttribute(node.attrs, 'id');
+    this.blocks.push({
+      ...block,
+      ...(id && !block.id ? { id } : {}),
+      source: { href: this.href, start: this.baseOffset + node.start, end: this.baseOffset + node.end }
+    });
+  }
+
+  private pushImage(node: HtmlNode): void {
+    const src = getAttribute(node.attrs, 'src') || getAttribute(node.attrs, 'xlink:href') || getAttribute(node.attrs, 'href');
+    if (!src) return;
+
+    const alt = getAttribute(node.attrs, 'alt') || '';
+    this.push(node, { type: 'image', text: alt, src, alt });
+  }
+
+  private pushFootnote(node: HtmlNode): void {
+    // 脚注id可能在元素本身，也可能在其中的第一个锚点上
+    const anchor = findElements(node, 'a').find(a => getAttribute(a.attrs, 'id'));
+    const id = getAttribute(node.attrs, 'id') || (anchor ? getAttribute(anchor.attrs, 'id') : undefined);
+    this.push(node, { type: 'footnote', text: this.textOf(node), ...(id ? { id } : {}) });
+  }
+
+  private collectFootnotes(container: HtmlNode): void {
+    const notes = findElements(container, 'li');
+    if (notes.length > 0) {
+      notes.forEach(note => this.pushFootnote(note));
+      return;
+    }
+
+    for (const child of container.children) {
+      if (/^h[1-6]$/.test(localName(child.name))) {
+        this.push(child, { type: 'heading', text: this.textOf(child), level: parseInt(localName(child.name)[1], 10) });
+      } else {
+        this.pushFootnote(child);
+      }
+    }
+  }
+
+  private collectImages(node: HtmlNode): void {
+    for (const image of [...findElements(node, 'img'), ...findElements(node, 'image')]) {
+      this.pushImage(image);
+    }
+  }
+
+  private hasBlockDescendant(node: HtmlNode): boolean {
+    return node.children.some(child => {
+      const name = localName(child.name);
+      return name === 'p' || /^h[1-6]$/.test(name) || CONTAINER_ELEMENTS.has(name)
+        || ['ul', 'ol', 'blockquote', 'table'].includes(name) || this.hasBlockDescendant(child);
+    });
+  }
+
+  private textOf(node: HtmlNode): string {
+    return normalize(htmlToText(this.html.substring(node.innerStart, node.innerEnd)));
+  }
+}
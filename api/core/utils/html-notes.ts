@@ -0,0 +1,207 @@
+// 脚注与尾注识别工具
+import { HtmlNode, parseHtmlTree, getAttribute, localName, findElements, findElementById } from './html-tree';
+import { htmlToText } from './html-text';
+
+// 正文中的注释引用
+export interface NoteReference {
+  href: string; // 引用指向的地址（原始href）
+  marker: string; // 引用标记，如1、*、[2]
+  start: number; // 引用标记在HTML中的范围，移除标记时使用
+  end: number;
+}
+
+// 正文中内嵌的注释内容（如EPUB3的aside脚注）
+export interface InlineNote {
+  id: string | null;
+  text: string;
+  start: number;
+  end: number;
+}
+
+// 引用标记的常见形式：数字、字母、罗马数字、符号和圈码，可带括号
+const MARKER_PATTERN = /^[[(（【]?\s*(?:\d{1,4}|[a-z]{1,2}|[ivxlc]{1,6}|[*†‡§¶]{1,3}|[①-⑳㈠-㈩])\s*[\])）】]?[.．]?$/i;
+
+// 注释元素内的块级容器，按id找到行内锚点时向上取到这一级
+const NOTE_BLOCK_ELEMENTS = new Set(['p', 'li', 'aside', 'div', 'section', 'dd', 'dt', 'td', 'blockquote']);
+
+/**
+ * 单条注释：EPUB3的epub:type、DPUB-ARIA的role以及常见的class命名
+ */
+export function isNoteElement(node: HtmlNode): boolean {
+  const epubType = getAttribute(node.attrs, 'epub:type') || '';
+  const role = getAttribute(node.attrs, 'role') || '';
+  const className = getAttribute(node.attrs, 'class') || '';
+  return /(?:^|\s)(?:footnote|endnote|rearnote|note)(?:\s|$)/i.test(epubType)
+    || /\bdoc-(?:footnote|endnote)\b/i.test(role)
+    || /(?:^|\s)(?:footnote|endnote)(?:\s|$)/i.test(className);
+}
+
+/**
+ * 注释集合（脚注区、尾注章节）
+ */
+export function isNotesContainer(node: HtmlNode): boolean {
+  const epubType = getAttribute(node.attrs, 'epub:type') || '';
+  const role = getAttribute(node.attrs, 'role') || '';
+  const className = getAttribute(node.attrs, 'class') || '';
+  return /(?:^|\s)(?:footnotes|endnotes|rearnotes)(?:\s|$)/i.test(epubType)
+    || /\bdoc-endnotes\b/i.test(role)
+    || /(?:^|\s)(?:footnotes|endnotes|notes)(?:\s|$)/i.test(className);
+}
+
+/**
+ * 判断整个文档是否为尾注章节：body或包裹全部正文的section/div标记为注释集合
+ * @param html 完整的XHTML文件内容
+ */
+export function isNotesDocument(html: string): boolean {
+  let node = parseHtmlTree(html);
+  for (;;) {
+    const elements = node.children.filter(child => !['head', 'title', 'meta', 'link', 'style', 'script'].includes(localName(child.name)));
+    const headings = elements.filter(child => /^h[1-6]$/.test(localName(child.name)) || localName(child.name) === 'header');
+    // 只有一个主体元素（允许前面有章节标题）时继续向内查找
+    const bodies = elements.filter(child => !headings.includes(child));
+    if (bodies.length !== 1) {
+      return false;
+    }
+
+    node = bodies[0];
+    if (isNotesContainer(node)) {
+      return true;
+    }
+    if (!['html', 'body', 'section', 'div', 'article', 'main', 'aside', 'ol'].includes(localName(node.name))) {
+      return false;
+    }
+  }
+}
+
+/**
+ * 查找正文中的注释引用：显式标记为noteref的链接，或上标中形如标记的锚点链接
+ */
+export function findNoteReferences(html: string): NoteReference[] {
+  const references: NoteReference[] = [];
+
+  for (const anchor of findElements(parseHtmlTree(html), 'a')) {
+    const href = getAttribute(anchor.attrs, 'href');
+    if (!href || !href.includes('#')) continue;
+
+    const epubType = getAttribute(anchor.attrs, 'epub:type') || '';
+    const role = getAttribute(anchor.attrs, 'role') || '';
+    const marker = normalizeText(htmlToText(html.substring(anchor.innerStart, anchor.innerEnd)));
+    const explicit = /(?:^|\s)noteref(?:\s|$)/i.test(epubType) || /\bdoc-noteref\b/i.test(role);
+    const parent = anchor.parent;
+    const inSup = !!parent && localName(parent.name) === 'sup';
+
+    if (!explicit && !((inSup || findElements(anchor, 'sup').length > 0) && MARKER_PATTERN.test(marker))) {
+      continue;
+    }
+
+    // 上标中只有这个链接时，连同上标一起移除
+    const range = inSup && parent.children.length === 1 && !normalizeText(htmlToText(html.substring(parent.innerStart, anchor.start)))
+      ? parent
+      : anchor;
+    references.push({ href, marker, start: range.start, end: range.end });
+  }
+
+  return references;
+}
+
+/**
+ * 查找正文中内嵌的注释内容，注释集合按其中的每条注释返回
+ */
+export function findInlineNotes(html: string): InlineNote[] {
+  const notes: InlineNote[] = [];
+
+  const walk = (node: HtmlNode) => {
+    for (const child of node.children) {
+      if (isNotesContainer(child)) {
+        const items = child.children.filter(item => !/^h[1-6]$/.test(localName(item.name)));
+        const entries = items.length === 1 && ['ol', 'ul'].includes(localName(items[0].name))
+          ? findElements(items[0], 'li')
+          : items;
+        for (const entry of entries) {
+          const text = noteText(html, entry, null);
+          if (text) {
+            notes.push({ id: getAttribute(entry.attrs, 'id') || null, text, start: entry.start, end: entry.end });
+          }
+        }
+        // 集合整体（包括标题）都从正文中移除
+        notes.push({ id: null, text: '', start: child.start, end: child.end });
+      } else if (isNoteElement(child)) {
+        notes.push({ id: getAttribute(child.attrs, 'id') || null, text: noteText(html, child, null), start: child.start, end: child.end });
+      } else {
+        walk(child);
+      }
+    }
+  };
+  walk(parseHtmlTree(html));
+
+  return notes;
+}
+
+/**
+ * 读取指定id的注释内容
+ * @param html 注释所在文件的HTML
+ * @param id 注释元素的id
+ * @returns 注释纯文本及其在HTML中的范围，找不到时返回null
+ */
+export function readNote(html: string, id: string): { text: string; start: number; end: number } | null {
+  const target = findElementById(parseHtmlTree(html), id);
+  if (!target) {
+    return null;
+  }
+
+  // id在行内锚点上时（旧式尾注），取其所在的段落或列表项
+  let node = target;
+  while (!NOTE_BLOCK_ELEMENTS.has(localName(node.name)) && !isNoteElement(node) && node.parent && node.parent.name !== '#root') {
+    node = node.parent;
+  }
+
+  const text = noteText(html, node, node === target ? null : target);
+  return text ? { text, start: node.start, end: node.end } : null;
+}
+
+/**
+ * 用等长的HTML注释覆盖若干范围（范围可重叠），移除内容的同时保持其余内容的偏移不变
+ */
+export function maskRanges(html: string, ranges: Array<{ start: number; end: number }>): string {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  let result = '';
+  let cursor = 0;
+  for (const range of sorted) {
+    if (range.end <= cursor) continue;
+    const start = Math.max(cursor, range.start);
+    result += html.substring(cursor, start) + maskText(range.end - start);
+    cursor = range.end;
+  }
+  return result + html.substring(cursor);
+}
+
+function maskText(length: number): string {
+  // 被覆盖的都是完整元素，长度至少为7（<a></a>）；过短时退化为空格
+  return length >= 7 ? `<!--${' '.repeat(length - 7)}-->` : ' '.repeat(length);
+}
+
+/**
+ * 注释正文，去掉指回正文的返回链接和标记
+ */
+function noteText(html: string, node: HtmlNode, anchor: HtmlNode | null): string {
+  const backlinks = findElements(node, 'a').filter(link => {
+    if (link === anchor) return true;
+    const epubType = getAttribute(link.attrs, 'epub:type') || '';
+    const role = getAttribute(link.attrs, 'role') || '';
+    const text = normalizeText(htmlToText(html.substring(link.innerStart, link.innerEnd)));
+    return /\bbacklink\b/i.test(epubType) || /\bdoc-backlink\b/i.test(role) || MARKER_PATTERN.test(text) || /^(?:↑|↩\uFE0E?|⏎)+$/.test(text);
+  });
+  if (anchor && !backlinks.includes(anchor)) {
+    backlinks.push(anchor);
+  }
+
+  const inner = maskRanges(
+    html.substring(node.innerStart, node.innerEnd),
+    backlinks.map(link => ({ start: link.start - node.innerStart, end: link.end - node.innerStart }))
+  );
+  return normalizeText(htmlToText(inner));
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
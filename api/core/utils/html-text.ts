@@ -0,0 +1,28 @@
+// HTML文本工具
+
+/**
+ * 移除HTML标签并解码常见实体，块级元素转换为换行
+ * @param html HTML内容
+ * @returns 纯文本
+ */
+export function htmlToText(html: string): string {
+  return html
+    // 移除script和style标签及其内容
+    .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
+    .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
+    // 将块级元素转换为换行
+    .replace(/<\/(div|p|h[1-6]|li|section|article)>/gi, '\n')
+    .replace(/<(br|hr)\s*\/?>/gi, '\n')
+    // 移除所有HTML标签
+    .replace(/<[^>]+>/g, '')
+    // 解码HTML实体
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&hellip;/g, '...')
+    .replace(/&mdash;/g, '—')
+    .replace(/&ndash;/g, '–');
+}
@@ -0,0 +1,123 @@
+// 宽松的HTML元素树解析，供结构化内容块和注释解析共用
+
+// HTML节点，偏移量均相对于传入的HTML字符串
+export interface HtmlNode {
+  name: string;
+  attrs: string;
+  start: number;
+  innerStart: number;
+  innerEnd: number;
+  end: number;
+  parent: HtmlNode | null;
+  children: HtmlNode[];
+}
+
+// 没有结束标签的元素
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+// 内容不参与解析的元素
+export const SKIPPED_ELEMENTS = new Set(['script', 'style', 'head', 'title']);
+
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<[!?][^>]*>|<(\/?)([a-zA-Z][\w:.-]*)((?:"[^"]*"|'[^']*'|[^'">])*?)(\/?)>/g;
+
+/**
+ * 解析HTML为元素树，HTML可以是截取的片段，不完整的标签会被容忍
+ * @param html HTML内容
+ * @returns 虚拟根节点
+ */
+export function parseHtmlTree(html: string): HtmlNode {
+  const root: HtmlNode = { name: '#root', attrs: '', start: 0, innerStart: 0, innerEnd: html.length, end: html.length, parent: null, children: [] };
+  const stack: HtmlNode[] = [root];
+  const pattern = new RegExp(TOKEN_PATTERN.source, 'g');
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(html)) !== null) {
+    const [token, closing, rawName, attrs, selfClosing] = match;
+    if (!rawName) continue;
+
+    const name = rawName.toLowerCase();
+    const tokenEnd = match.index + token.length;
+
+    if (closing) {
+      // 向上查找对应的开始标签，找不到时忽略（片段开头可能缺少开始标签）
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].name === name) {
+          for (let j = stack.length - 1; j >= i; j--) {
+            stack[j].innerEnd = match.index;
+            stack[j].end = j === i ? tokenEnd : match.index;
+          }
+          stack.length = i;
+          break;
+        }
+      }
+      continue;
+    }
+
+    const parent = stack[stack.length - 1];
+    const node: HtmlNode = { name, attrs, start: match.index, innerStart: tokenEnd, innerEnd: tokenEnd, end: tokenEnd, parent, children: [] };
+    parent.children.push(node);
+
+    if (SKIPPED_ELEMENTS.has(localName(name)) && !selfClosing) {
+      const closeIndex = html.toLowerCase().indexOf(`</${name}`, tokenEnd);
+      const closeEnd = closeIndex >= 0 ? html.indexOf('>', closeIndex) + 1 : html.length;
+      node.innerEnd = closeIndex >= 0 ? closeIndex : html.length;
+      node.end = closeEnd;
+      pattern.lastIndex = closeEnd;
+      continue;
+    }
+
+    if (!selfClosing && !VOID_ELEMENTS.has(localName(name))) {
+      node.innerEnd = html.length;
+      node.end = html.length;
+      stack.push(node);
+    }
+  }
+
+  return root;
+}
+
+/**
+ * 读取标签中的属性值，属性名可带命名空间前缀（如epub:type）
+ */
+export function getAttribute(attrs: string, name: string): string | undefined {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = attrs.match(new RegExp(`(?:^|\\s)${escaped}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+))`, 'i'));
+  return match ? (match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+/**
+ * 去掉命名空间前缀的元素名
+ */
+export function localName(name: string): string {
+  const index = name.indexOf(':');
+  return index >= 0 ? name.substring(index + 1) : name;
+}
+
+/**
+ * 查找所有指定名称的后代元素（不进入已匹配元素的内部）
+ */
+export function findElements(node: HtmlNode, name: string): HtmlNode[] {
+  const result: HtmlNode[] = [];
+  for (const child of node.children) {
+    if (localName(child.name) === name) {
+      result.push(child);
+    } else {
+      result.push(...findElements(child, name));
+    }
+  }
+  return result;
+}
+
+/**
+ * 按id（或旧式锚点的name）查找元素
+ */
+export function findElementById(node: HtmlNode, id: string): HtmlNode | null {
+  for (const child of node.children) {
+    if (getAttribute(child.attrs, 'id') === id || (localName(child.name) === 'a' && getAttribute(child.attrs, 'name') === id)) {
+      return child;
+    }
+    const found = findElementById(child, id);
+    if (found) return found;
+  }
+  return null;
+}
@@ -0,0 +1,72 @@
+// 保留子节点顺序的XML工具
+import { parseStringPromise } from 'xml2js';
+
+// xml2js在preserveChildrenOrder模式下的节点结构
+export interface XmlNode {
+  '#name': string;
+  '$'?: Record<string, string>;
+  '$$'?: XmlNode[];
+  '_'?: string;
+}
+
+/**
+ * 解析XML并返回根节点，子节点按文档顺序保存在$$中，文本节点名为__text__
+ * @param xml XML内容
+ * @returns 根节点
+ */
+export async function parseOrderedXml(xml: string): Promise<XmlNode> {
+  const result = await parseStringPromise(xml, {
+    explicitChildren: true,
+    preserveChildrenOrder: true,
+    charsAsChildren: true,
+    includeWhiteChars: true
+  });
+  return Object.values(result)[0] as XmlNode;
+}
+
+/**
+ * 去掉命名空间前缀的节点名，如"w:p"返回"p"
+ */
+export function localName(node: XmlNode): string {
+  const name = node['#name'] || '';
+  const index = name.indexOf(':');
+  return index >= 0 ? name.substring(index + 1) : name;
+}
+
+/**
+ * 按本地名查找直接子元素
+ */
+export function childElements(node: XmlNode | undefined, name: string): XmlNode[] {
+  return (node?.['$$'] || []).filter(child => localName(child) === name);
+}
+
+/**
+ * 按本地名查找第一个直接子元素
+ */
+export function childElement(node: XmlNode | undefined, name: string): XmlNode | undefined {
+  return childElements(node, name)[0];
+}
+
+/**
+ * 按本地名读取属性，忽略命名空间前缀
+ */
+export function attribute(node: XmlNode | undefined, name: string): string | undefined {
+  const attrs = node?.['$'];
+  if (!attrs) return undefined;
+  for (const [key, value] of Object.entries(attrs)) {
+    const index = key.indexOf(':');
+    if ((index >= 0 ? key.substring(index + 1) : key) === name) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 拼接节点下的全部文本
+ */
+export function nodeText(node: XmlNode | undefined): string {
+  if (!node) return '';
+  if (node['#name'] === '__text__') return node['_'] || '';
+  return (node['$$'] || []).map(nodeText).join('');
+}
@@ -0,0 +1,277 @@
+/**
+ * Markdown和Obsidian库导出
+ * 基于json_template.txt格式的导出结果生成：单个Markdown文档，或每章一篇笔记的Obsidian库（ZIP），
+ * 笔记带YAML front matter（书籍信息、标签），关键词和章节之间以[[双链]]互相关联
+ */
+import JSZip from 'jszip';
+import { Argument, BookParseSession, BookTemplateExport, Chapter } from '../types/book.types';
+import { buildTemplateExport } from './template-export';
+
+// 文件名中不能使用的字符（包括Obsidian链接中有特殊含义的#^[]|）
+const INVALID_FILE_NAME_CHARS = /[\\/:*?"<>|#^[\]]/g;
+
+// 章节笔记和关键词笔记所在的目录
+const CHAPTER_DIR = '章节';
+const KEYWORD_DIR = '关键词';
+
+/**
+ * 转换为可用作文件名和链接目标的名称
+ */
+function toNoteName(text: string, fallback: string = '未命名'): string {
+  const name = text.replace(INVALID_FILE_NAME_CHARS, '').replace(/\s+/g, ' ').trim();
+  return name.substring(0, 100) || fallback;
+}
+
+/**
+ * 链接的显示文本不能包含[]|
+ */
+function toAlias(text: string): string {
+  return text.replace(/[[\]|]/g, '');
+}
+
+/**
+ * 转换为Obsidian标签：空格改为连字符，去掉标签中不能使用的标点
+ */
+function toTag(text: string): string {
+  return text.trim().replace(/\s+/g, '-').replace(/[#,.;:!?'"()[\]{}，。；：！？、（）【】《》]/g, '');
+}
+
+/**
+ * 生成YAML front matter；字符串使用JSON的双引号写法，也是合法的YAML
+ */
+function frontMatter(fields: Record<string, string | number | string[] | undefined>): string {
+  const lines = Object.entries(fields)
+    .filter(([, value]) => value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0))
+    .map(([key, value]) => Array.isArray(value)
+      ? `${key}:\n${value.map(item => `  - ${JSON.stringify(item)}`).join('\n')}`
+      : `${key}: ${typeof value === 'number' ? value : JSON.stringify(value)}`);
+  return `---\n${lines.join('\n')}\n---\n`;
+}
+
+function bookFrontMatter(data: BookTemplateExport, extra: Record<string, string | number | string[] | undefined> = {}): string {
+  const info = data.book_info;
+  return frontMatter({
+    title: info.title,
+    author: info.author,
+    translator: info.translator,
+    publisher: info.publisher,
+    isbn: info.isbn,
+    publication_date: info.publication_date,
+    language: info.language,
+    ...extra,
+    tags: (data.book_summary?.tags || []).map(toTag).filter(Boolean)
+  });
+}
+
+function bulletList(items: string[]): string {
+  return items.map(item => `- ${item}`).join('\n');
+}
+
+/**
+ * 论据树：论据为一级列表，正反案例和引用为下级列表
+ */
+function renderArguments(args: Argument[]): string {
+  return args.map((argument, index) => {
+    const lines = [`${index + 1}. **${argument.statement}**`];
+    if (argument.positive_case.length > 0) {
+      lines.push('    - 正面案例', ...argument.positive_case.map(item => `        - ${item}`));
+    }
+    if (argument.negative_case.length > 0) {
+      lines.push('    - 反面案例', ...argument.negative_case.map(item => `        - ${item}`));
+    }
+    if (argument.citations.length > 0) {
+      lines.push('    - 引用', ...argument.citations.map(citation =>
+        `        - ${citation.cited_source}（${citation.cited_type}）：${citation.viewpoint}`
+      ));
+    }
+    return lines.join('\n');
+  }).join('\n');
+}
+
+/**
+ * 章节正文：核心观点、关键词和论据
+ * @param linkKeyword 关键词的写法，Obsidian库中为指向关键词笔记的链接
+ */
+function renderChapterBody(chapter: Chapter, headingLevel: number, linkKeyword: (keyword: string) => string = keyword => keyword): string {
+  const heading = '#'.repeat(headingLevel);
+  if (!chapter.chapter_viewpoint) {
+    return '*尚未分析*\n';
+  }
+
+  const sections = [`${heading} 核心观点\n\n${chapter.chapter_viewpoint}`];
+  if (chapter.chapter_keywords.length > 0) {
+    sections.push(`${heading} 关键词\n\n${chapter.chapter_keywords.map(linkKeyword).join(' · ')}`);
+  }
+  if (chapter.arguments.length > 0) {
+    sections.push(`${heading} 论据\n\n${renderArguments(chapter.arguments)}`);
+  }
+  return sections.join('\n\n') + '\n';
+}
+
+/**
+ * 书籍总结部分
+ */
+function renderSummary(data: BookTemplateExport, headingLevel: number, linkKeyword: (keyword: string) => string = keyword => keyword): string {
+  const summary = data.book_summary;
+  if (!summary) {
+    return '';
+  }
+
+  const heading = '#'.repeat(headingLevel);
+  const sections = [
+    [`${heading} 书籍概述`, summary.book_intro],
+    [`${heading} 作者简介`, summary.author_intro],
+    [`${heading} 书籍结构`, summary.structure],
+    [`${heading} 核心问题`, summary.core_problem],
+    [`${heading} 核心洞察`, bulletList(summary.keyInsights)],
+    [`${heading} 核心概念`, bulletList(Object.entries(summary.core_keywords).map(([keyword, meaning]) => `${linkKeyword(keyword)}：${meaning}`))]
+  ];
+  return sections
+    .filter(([, content]) => content)
+    .map(([title, content]) => `${title}\n\n${content}`)
+    .join('\n\n') + '\n';
+}
+
+/**
+ * 书籍信息列表
+ */
+function renderBookInfo(data: BookTemplateExport): string {
+  const info = data.book_info;
+  return bulletList([
+    ['作者', info.author],
+    ['译者', info.translator],
+    ['出版社', info.publisher],
+    ['出版日期', info.publication_date],
+    ['ISBN', info.isbn],
+    ['语言', info.language]
+  ].filter(([, value]) => value).map(([label, value]) => `**${label}**：${value}`));
+}
+
+/**
+ * 生成单个Markdown文档
+ * @param session 已解析的会话
+ * @returns Markdown文本
+ */
+export function buildMarkdownDocument(session: BookParseSession): string {
+  const data = buildTemplateExport(session);
+  const title = data.book_info.title || '未命名书籍';
+
+  const parts = [
+    bookFrontMatter(data),
+    `# ${title}\n`,
+    renderBookInfo(data) + '\n'
+  ];
+
+  const summary = renderSummary(data, 3);
+  if (summary) {
+    parts.push(`## 书籍总结\n\n${summary}`);
+  }
+
+  if (data.chapters.length > 0) {
+    parts.push('## 章节分析\n');
+    data.chapters.forEach((chapter, index) => {
+      parts.push(`### ${index + 1}. ${chapter.chapter_title}\n\n${renderChapterBody(chapter, 4)}`);
+    });
+  }
+
+  return parts.join('\n');
+}
+
+/**
+ * 生成Obsidian库：书籍笔记（书籍信息、总结、章节列表）、每章一篇章节笔记、每个关键词一篇关键词笔记，
+ * 章节笔记中的关键词链接到关键词笔记，关键词笔记列出提到它的章节；封面保存为图片并嵌入书籍笔记
+ * @param session 已解析的会话
+ * @returns ZIP文件内容，根目录为以书名命名的库
+ */
+export async function buildObsidianVault(session: BookParseSession): Promise<Buffer> {
+  const data = buildTemplateExport(session);
+  const bookName = toNoteName(data.book_info.title, '未命名书籍');
+  const zip = new JSZip();
+  const vault = zip.folder(bookName);
+
+  // 章节笔记名：序号加标题，保证唯一且按顺序排列
+  const width = String(data.chapters.length).length;
+  const chapterNotes = data.chapters.map((chapter, index) =>
+    `${String(index + 1).padStart(width, '0')} ${toNoteName(chapter.chapter_title, `第${index + 1}章`)}`
+  );
+
+  // 关键词及提到它的章节；名称相同（忽略大小写）的关键词合并为一篇笔记
+  const keywords = new Map<string, { keyword: string; chapters: number[]; meaning?: string }>();
+  const keywordNote = (keyword: string) => {
+    const key = toNoteName(keyword).toLowerCase();
+    if (!keywords.has(key)) {
+      keywords.set(key, { keyword: toNoteName(keyword), chapters: [] });
+    }
+    return keywords.get(key);
+  };
+  data.chapters.forEach((chapter, index) => {
+    for (const keyword of chapter.chapter_keywords) {
+      const note = keywordNote(keyword);
+      if (!note.chapters.includes(index)) {
+        note.chapters.push(index);
+      }
+    }
+  });
+  for (const [keyword, meaning] of Object.entries(data.book_summary?.core_keywords || {})) {
+    keywordNote(keyword).meaning = meaning;
+  }
+
+  const linkKeyword = (keyword: string) => {
+    const name = keywordNote(keyword).keyword;
+    return name === keyword ? `[[${name}]]` : `[[${name}|${toAlias(keyword)}]]`;
+  };
+
+  // 封面
+  let coverFile: string | null = null;
+  const cover = data.cover_info?.cover_image.match(/^data:image\/(\w+);base64,(.+)$/);
+  if (cover) {
+    coverFile = `cover.${cover[1] === 'jpeg' ? 'jpg' : cover[1]}`;
+    vault.file(coverFile, cover[2], { base64: true });
+  }
+
+  // 书籍笔记
+  const bookNote = [
+    bookFrontMatter(data, { aliases: data.book_info.title && data.book_info.title !== bookName ? [data.book_info.title] : undefined }),
+    `# ${data.book_info.title || bookName}\n`,
+    coverFile ? `![[${coverFile}|200]]\n` : '',
+    renderBookInfo(data) + '\n',
+    data.book_summary ? `## 书籍总结\n\n${renderSummary(data, 3, linkKeyword)}` : '',
+    data.chapters.length > 0 ? `## 章节\n\n${chapterNotes.map((note, index) => `${index + 1}. [[${note}|${toAlias(data.chapters[index].chapter_title)}]]`).join('\n')}\n` : ''
+  ].filter(Boolean).join('\n');
+  vault.file(`${bookName}.md`, bookNote);
+
+  // 章节笔记
+  data.chapters.forEach((chapter, index) => {
+    const navigation = [
+      index > 0 ? `← [[${chapterNotes[index - 1]}|上一章]]` : '',
+      `[[${bookName}|目录]]`,
+      index < data.chapters.length - 1 ? `[[${chapterNotes[index + 1]}|下一章]] →` : ''
+    ].filter(Boolean).join(' | ');
+
+    vault.file(`${CHAPTER_DIR}/${chapterNotes[index]}.md`, [
+      frontMatter({
+        title: chapter.chapter_title,
+        book: `[[${bookName}]]`,
+        chapter: index + 1,
+        keywords: chapter.chapter_keywords,
+        tags: (data.book_summary?.tags || []).map(toTag).filter(Boolean)
+      }),
+      `# ${chapter.chapter_title}\n`,
+      renderChapterBody(chapter, 2, linkKeyword),
+      `---\n${navigation}\n`
+    ].join('\n'));
+  });
+
+  // 关键词笔记
+  for (const note of keywords.values()) {
+    const mentions = note.chapters.map(index => `- [[${chapterNotes[index]}|${toAlias(data.chapters[index].chapter_title)}]]`);
+    vault.file(`${KEYWORD_DIR}/${note.keyword}.md`, [
+      frontMatter({ book: `[[${bookName}]]`, tags: ['关键词'] }),
+      `# ${note.keyword}\n`,
+      note.meaning ? `${note.meaning}\n` : '',
+      mentions.length > 0 ? `## 出现的章节\n\n${mentions.join('\n')}\n` : `出自[[${bookName}]]的核心概念\n`
+    ].filter(Boolean).join('\n'));
+  }
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
@@ -0,0 +1,324 @@
+/**
+ * PDF分析报告导出
+ * 在本地用pdfkit生成可打印的报告：封面（封面图片和书籍信息）、书籍总结、核心洞察、各章节观点、论据树和引用；
+ * 中文字体嵌入到PDF中（只嵌入用到的字形），字体按PDF_FONT_PATH、项目fonts目录、系统常见中文字体的顺序查找
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import PDFDocument from 'pdfkit';
+import sharp from 'sharp';
+import { Argument, BookParseSession, BookTemplateExport, Chapter } from '../types/book.types';
+import { buildTemplateExport } from './template-export';
+
+// 字体文件；TTC字体集合需要指定其中字体的PostScript名称
+export interface FontSource {
+  path: string;
+  family?: string;
+}
+
+// 系统中常见的中文字体（Linux、macOS、Windows）
+const SYSTEM_FONTS: FontSource[] = [
+  { path: '/usr/share/fonts/opentype/noto/NotoSansCJK-Regular.ttc', family: 'NotoSansCJKsc-Regular' },
+  { path: '/usr/share/fonts/noto-cjk/NotoSansCJK-Regular.ttc', family: 'NotoSansCJKsc-Regular' },
+  { path: '/usr/share/fonts/google-noto-cjk/NotoSansCJK-Regular.ttc', family: 'NotoSansCJKsc-Regular' },
+  { path: '/usr/share/fonts/truetype/wqy/wqy-microhei.ttc', family: 'WenQuanYiMicroHei' },
+  { path: '/usr/share/fonts/wenquanyi/wqy-microhei/wqy-microhei.ttc', family: 'WenQuanYiMicroHei' },
+  { path: '/usr/share/fonts/truetype/wqy/wqy-zenhei.ttc', family: 'WenQuanYiZenHei' },
+  { path: '/System/Library/Fonts/PingFang.ttc', family: 'PingFangSC-Regular' },
+  { path: '/System/Library/Fonts/STHeiti Light.ttc', family: 'STHeitiSC-Light' },
+  { path: '/Library/Fonts/Arial Unicode.ttf' },
+  { path: 'C:\\Windows\\Fonts\\msyh.ttc', family: 'MicrosoftYaHei' },
+  { path: 'C:\\Windows\\Fonts\\simhei.ttf' },
+  { path: 'C:\\Windows\\Fonts\\simsun.ttc', family: 'SimSun' }
+];
+
+// 找不到中文字体时的提示
+export const PDF_FONT_MISSING_MESSAGE = '服务器上没有可用的中文字体，无法生成PDF报告。请安装Noto Sans CJK等中文字体，或用环境变量PDF_FONT_PATH指定TTF/OTF/TTC字体文件，也可以把字体文件放在项目的fonts目录中';
+
+// 项目fonts目录中可直接使用的字体格式
+const FONT_EXTENSIONS = ['.ttf', '.otf', '.woff', '.woff2'];
+
+// 版式：A4纸，单位为点
+const PAGE_MARGIN = 56;
+const COLORS = { text: '#1f2937', heading: '#1e3a8a', muted: '#6b7280', accent: '#2563eb', rule: '#d1d5db' };
+const FONT_SIZES = { title: 26, h1: 18, h2: 14, h3: 12, body: 10.5, small: 9 };
+const INDENT = 14;
+
+/**
+ * 查找用于报告的中文字体；导出前先检查，没有字体时不开始生成
+ * @returns 字体文件，找不到时返回null
+ */
+export function resolveReportFont(): FontSource | null {
+  if (process.env.PDF_FONT_PATH) {
+    if (fs.existsSync(process.env.PDF_FONT_PATH)) {
+      return { path: process.env.PDF_FONT_PATH, family: process.env.PDF_FONT_FAMILY || undefined };
+    }
+    console.warn(`⚠️ [导出] PDF_FONT_PATH指定的字体文件不存在: ${process.env.PDF_FONT_PATH}`);
+  }
+
+  const fontDir = path.join(process.cwd(), 'fonts');
+  if (fs.existsSync(fontDir)) {
+    const file = fs.readdirSync(fontDir).sort().find(name => FONT_EXTENSIONS.includes(path.extname(name).toLowerCase()));
+    if (file) {
+      return { path: path.join(fontDir, file) };
+    }
+  }
+
+  return SYSTEM_FONTS.find(font => fs.existsSync(font.path)) || null;
+}
+
+/**
+ * 读取封面图片；pdfkit只支持JPEG和PNG，其他格式先转换为PNG
+ * @returns 图片内容，没有封面或无法读取时返回null
+ */
+async function loadCoverImage(data: BookTemplateExport): Promise<Buffer | null> {
+  const match = data.cover_info?.cover_image.match(/^data:image\/([\w+.-]+);base64,(.+)$/);
+  if (!match) {
+    return null;
+  }
+
+  try {
+    const image = Buffer.from(match[2], 'base64');
+    return ['jpeg', 'jpg', 'png'].includes(match[1]) ? image : await sharp(image).png().toBuffer();
+  } catch (error) {
+    console.warn('⚠️ [导出] 封面图片无法读取，PDF中不包含封面:', error.message);
+    return null;
+  }
+}
+
+/**
+ * 报告的排版
+ */
+class ReportWriter {
+  constructor(private doc: PDFKit.PDFDocument) {}
+
+  private get contentWidth(): number {
+    return this.doc.page.width - PAGE_MARGIN * 2;
+  }
+
+  heading(text: string, level: 1 | 2 | 3): void {
+    const size = level === 1 ? FONT_SIZES.h1 : level === 2 ? FONT_SIZES.h2 : FONT_SIZES.h3;
+    // 标题不单独留在页尾
+    if (this.doc.y + size * 4 > this.doc.page.height - PAGE_MARGIN) {
+      this.doc.addPage();
+    }
+
+    this.doc.moveDown(level === 1 ? 0.2 : 0.6);
+    this.doc.fontSize(size).fillColor(level === 3 ? COLORS.accent : COLORS.heading)
+      .text(text, PAGE_MARGIN, this.doc.y, { width: this.contentWidth });
+    if (level === 1) {
+      const y = this.doc.y + 4;
+      this.doc.moveTo(PAGE_MARGIN, y).lineTo(PAGE_MARGIN + this.contentWidth, y).lineWidth(1).strokeColor(COLORS.rule).stroke();
+      this.doc.moveDown(0.6);
+    } else {
+      this.doc.moveDown(0.3);
+    }
+  }
+
+  paragraph(text: string, options: { indent?: number; color?: string; size?: number } = {}): void {
+    const indent = options.indent || 0;
+    this.doc.fontSize(options.size || FONT_SIZES.body).fillColor(options.color || COLORS.text)
+      .text(text, PAGE_MARGIN + indent, this.doc.y, { width: this.contentWidth - indent, lineGap: 3, align: 'justify' });
+    this.doc.moveDown(0.4);
+  }
+
+  bullet(text: string, level: number = 0, marker: string = '•'): void {
+    const indent = INDENT * level;
+    const markerWidth = 12;
+    const y = this.doc.y;
+    this.doc.fontSize(FONT_SIZES.body).fillColor(COLORS.muted)
+      .text(marker, PAGE_MARGIN + indent, y, { width: markerWidth, lineBreak: false });
+    this.doc.fillColor(COLORS.text)
+      .text(text, PAGE_MARGIN + indent + markerWidth, y, { width: this.contentWidth - indent - markerWidth, lineGap: 2 });
+    this.doc.moveDown(0.2);
+  }
+
+  /**
+   * 论据树：论据为第一级，正反案例和引用为下级
+   */
+  argumentTree(args: Argument[]): void {
+    args.forEach((argument, index) => {
+      this.bullet(argument.statement, 0, `${index + 1}.`);
+      const branches: Array<[string, string[]]> = [
+        ['正面案例', argument.positive_case],
+        ['反面案例', argument.negative_case],
+        ['引用', argument.citations.map(citation => `${citation.cited_source}（${citation.cited_type}）：${citation.viewpoint}`)]
+      ];
+      for (const [label, items] of branches) {
+        if (items.length === 0) {
+          continue;
+        }
+        this.bullet(label, 1, '–');
+        items.forEach(item => this.bullet(item, 2, '·'));
+      }
+      this.doc.moveDown(0.2);
+    });
+  }
+
+  /**
+   * 封面页：封面图片、书名和书籍信息
+   */
+  coverPage(data: BookTemplateExport, coverImage: Buffer | null): void {
+    const info = data.book_info;
+    const centerOptions = { width: this.contentWidth, align: 'center' as const };
+
+    this.doc.y = PAGE_MARGIN + 40;
+    if (coverImage) {
+      try {
+        this.doc.image(coverImage, PAGE_MARGIN + (this.contentWidth - 220) / 2, this.doc.y, { fit: [220, 300], align: 'center' });
+        this.doc.y += 320;
+      } catch (error) {
+        console.warn('⚠️ [导出] 封面图片无法嵌入PDF:', error.message);
+      }
+    }
+
+    this.doc.fontSize(FONT_SIZES.title).fillColor(COLORS.heading).text(info.title || '未命名书籍', PAGE_MARGIN, this.doc.y, centerOptions);
+    this.doc.moveDown(0.5);
+    this.doc.fontSize(FONT_SIZES.h3).fillColor(COLORS.text)
+      .text([info.author, info.translator && `${info.translator} 译`].filter(Boolean).join('　'), centerOptions);
+    this.doc.moveDown(1.5);
+
+    const details = [
+      ['出版社', info.publisher],
+      ['出版日期', info.publication_date],
+      ['ISBN', info.isbn],
+      ['语言', info.language]
+    ].filter(([, value]) => value);
+    this.doc.fontSize(FONT_SIZES.body).fillColor(COLORS.muted);
+    for (const [label, value] of details) {
+      this.doc.text(`${label}：${value}`, centerOptions);
+    }
+
+    this.doc.moveDown(2);
+    this.doc.fontSize(FONT_SIZES.small).text(`分析报告 · 生成于 ${new Date().toLocaleDateString('zh-CN')}`, centerOptions);
+  }
+
+  summary(data: BookTemplateExport): void {
+    const summary = data.book_summary;
+    this.heading('书籍总结', 1);
+    if (!summary) {
+      this.paragraph('尚未生成书籍总结', { color: COLORS.muted });
+      return;
+    }
+
+    const sections: Array<[string, string]> = [
+      ['书籍概述', summary.book_intro],
+      ['作者简介', summary.author_intro],
+      ['书籍结构', summary.structure],
+      ['核心问题', summary.core_problem]
+    ];
+    for (const [title, content] of sections) {
+      if (content) {
+        this.heading(title, 2);
+        this.paragraph(content);
+      }
+    }
+
+    if (summary.keyInsights.length > 0) {
+      this.heading('核心洞察', 2);
+      summary.keyInsights.forEach((insight, index) => this.bullet(insight, 0, `${index + 1}.`));
+    }
+
+    const keywords = Object.entries(summary.core_keywords);
+    if (keywords.length > 0) {
+      this.heading('核心概念', 2);
+      keywords.forEach(([keyword, meaning]) => this.bullet(`${keyword}：${meaning}`));
+    }
+
+    if (summary.tags.length > 0) {
+      this.heading('标签', 2);
+      this.paragraph(summary.tags.map(tag => `#${tag}`).join('　'), { color: COLORS.accent });
+    }
+  }
+
+  /**
+   * 章节：标题、核心观点、关键词和论据树
+   * @param outline 章节书签的上级书签
+   */
+  chapter(chapter: Chapter, index: number, outline: PDFKit.PDFOutline): void {
+    const title = `${index + 1}. ${chapter.chapter_title}`;
+    this.heading(title, 2);
+    // 标题可能换到下一页，书签在标题之后添加才能指向正确的页
+    outline.addItem(title);
+    if (!chapter.chapter_viewpoint) {
+      this.paragraph('尚未分析', { color: COLORS.muted });
+      return;
+    }
+
+    this.heading('核心观点', 3);
+    this.paragraph(chapter.chapter_viewpoint);
+
+    if (chapter.chapter_keywords.length > 0) {
+      this.heading('关键词', 3);
+      this.paragraph(chapter.chapter_keywords.join(' · '), { color: COLORS.accent });
+    }
+
+    if (chapter.arguments.length > 0) {
+      this.heading('论据', 3);
+      this.argumentTree(chapter.arguments);
+    }
+  }
+
+  /**
+   * 页脚：书名和页码，封面页不加
+   */
+  pageFooters(title: string): void {
+    const range = this.doc.bufferedPageRange();
+    for (let i = range.start + 1; i < range.start + range.count; i++) {
+      this.doc.switchToPage(i);
+      // 页脚在下边距内，临时取消下边距避免自动换页
+      const bottom = this.doc.page.margins.bottom;
+      this.doc.page.margins.bottom = 0;
+      this.doc.fontSize(FONT_SIZES.small).fillColor(COLORS.muted)
+        .text(`${title} · ${i - range.start}`, PAGE_MARGIN, this.doc.page.height - PAGE_MARGIN / 2 - FONT_SIZES.small,
+          { width: this.contentWidth, align: 'center', lineBreak: false });
+      this.doc.page.margins.bottom = bottom;
+    }
+  }
+}
+
+/**
+ * 生成PDF分析报告
+ * @param session 已解析的会话
+ * @param font 嵌入的中文字体，由resolveReportFont查找
+ * @returns PDF文件内容
+ */
+export async function buildPdfReport(session: BookParseSession, font: FontSource): Promise<Buffer> {
+  const data = buildTemplateExport(session);
+  const coverImage = await loadCoverImage(data);
+  const title = data.book_info.title || '未命名书籍';
+
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: PAGE_MARGIN,
+    bufferPages: true,
+    info: { Title: `${title} 分析报告`, Author: data.book_info.author || '', Subject: '书籍分析报告' }
+  });
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  doc.registerFont('report', font.path, font.family);
+  doc.font('report');
+
+  const writer = new ReportWriter(doc);
+  writer.coverPage(data, coverImage);
+
+  doc.addPage();
+  doc.outline.addItem('书籍总结');
+  writer.summary(data);
+
+  if (data.chapters.length > 0) {
+    doc.addPage();
+    const chapterOutline = doc.outline.addItem('章节分析');
+    writer.heading('章节分析', 1);
+    data.chapters.forEach((chapter, index) => writer.chapter(chapter, index, chapterOutline));
+  }
+
+  writer.pageFooters(title);
+  doc.end();
+  return finished;
+}
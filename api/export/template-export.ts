@@ -0,0 +1,68 @@
+/**
+ * json_template.txt格式的导出
+ * 按模板的结构和字段顺序组装书籍信息、封面、书籍总结、目录和章节分析，不包含会话中的其他元数据
+ */
+import { BookParseSession, BookTemplateExport, Chapter } from '../types/book.types';
+import { isFailedAnalysis, toTemplateChapter } from '../ai/analysis-schema';
+
+/**
+ * 尚未分析或分析失败的章节只保留标题
+ */
+function emptyChapter(title: string): Chapter {
+  return {
+    chapter_title: title,
+    chapter_viewpoint: '',
+    chapter_keywords: [],
+    arguments: []
+  };
+}
+
+/**
+ * 按json_template.txt组装会话的分析结果
+ * @param session 已解析的会话
+ * @returns 导出的JSON对象；缺少的文本为空字符串，没有封面或尚未生成总结时对应部分为null
+ */
+export function buildTemplateExport(session: BookParseSession): BookTemplateExport {
+  const parseResult = session.parseResult;
+  const bookInfo = parseResult?.bookInfo;
+  const coverInfo = parseResult?.coverInfo;
+  const bookSummary = parseResult?.bookSummary;
+  const analysis = parseResult?.chapterAnalysis || [];
+
+  return {
+    book_info: {
+      title: bookInfo?.title || '',
+      author: bookInfo?.author || '',
+      translator: bookInfo?.translator || '',
+      publisher: bookInfo?.publisher || '',
+      isbn: bookInfo?.isbn || '',
+      publication_date: bookInfo?.publication_date || '',
+      language: bookInfo?.language || ''
+    },
+    cover_info: coverInfo?.cover_image
+      ? { cover_image: coverInfo.cover_image, cover_alt_text: coverInfo.cover_alt_text || '' }
+      : null,
+    book_summary: bookSummary
+      ? {
+          book_intro: bookSummary.book_intro || '',
+          author_intro: bookSummary.author_intro || '',
+          structure: bookSummary.structure || '',
+          core_problem: bookSummary.core_problem || '',
+          keyInsights: bookSummary.keyInsights || [],
+          core_keywords: bookSummary.core_keywords || {},
+          tags: bookSummary.tags || []
+        }
+      : null,
+    table_of_contents: (parseResult?.tableOfContents || []).map(item => ({
+      id: item.id,
+      title: item.title,
+      level: item.level,
+      href: item.href,
+      parent_id: item.parent_id ?? null
+    })),
+    chapters: (parseResult?.chapters || []).map((chapter, index) => {
+      const result = analysis[index];
+      return isFailedAnalysis(result) ? emptyChapter(chapter.title) : toTemplateChapter(result);
+    })
+  };
+}
@@ -0,0 +1,173 @@
+/**
+ * json_template.txt导出的JSON Schema校验
+ * 缺少字段、值为null或为空（空字符串、空列表、空字典）记为缺失字段，类型或取值不符、多出模板以外的字段记为错误
+ */
+import Ajv, { ErrorObject } from 'ajv';
+import { CITED_TYPES } from '../ai/analysis-schema';
+import { BookTemplateExport } from '../types/book.types';
+
+// 导出结果的校验报告
+export interface TemplateValidationReport {
+  valid: boolean; // 没有缺失字段也没有错误
+  missingFields: string[]; // 缺失字段的路径，如chapters[2].chapter_viewpoint
+  errors: string[]; // 其他不符合模板的问题
+}
+
+const text = { type: 'string', minLength: 1 };
+const textList = { type: 'array', minItems: 1, items: { type: 'string' } };
+const optionalTextList = { type: 'array', items: { type: 'string' } };
+
+/**
+ * 按json_template.txt编写的Schema，字段说明见模板
+ */
+export const TEMPLATE_EXPORT_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['book_info', 'cover_info', 'book_summary', 'table_of_contents', 'chapters'],
+  properties: {
+    book_info: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['title', 'author', 'translator', 'publisher', 'isbn', 'publication_date', 'language'],
+      properties: {
+        title: text,
+        author: text,
+        translator: text,
+        publisher: text,
+        isbn: text,
+        publication_date: text,
+        language: text
+      }
+    },
+    cover_info: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['cover_image', 'cover_alt_text'],
+      properties: {
+        cover_image: text,
+        cover_alt_text: text
+      }
+    },
+    book_summary: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['book_intro', 'author_intro', 'structure', 'core_problem', 'keyInsights', 'core_keywords', 'tags'],
+      properties: {
+        book_intro: text,
+        author_intro: text,
+        structure: text,
+        core_problem: text,
+        keyInsights: textList,
+        core_keywords: { type: 'object', minProperties: 1, additionalProperties: { type: 'string' } },
+        tags: textList
+      }
+    },
+    table_of_contents: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['id', 'title', 'level', 'href', 'parent_id'],
+        properties: {
+          id: text,
+          title: text,
+          level: { type: 'integer', minimum: 1 },
+          href: { type: 'string' },
+          parent_id: { type: ['string', 'null'] }
+        }
+      }
+    },
+    chapters: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['chapter_title', 'chapter_viewpoint', 'chapter_keywords', 'arguments'],
+        properties: {
+          chapter_title: text,
+          chapter_viewpoint: text,
+          chapter_keywords: textList,
+          arguments: {
+            type: 'array',
+            items: {
+              type: 'object',
+              additionalProperties: false,
+              required: ['statement', 'positive_case', 'negative_case', 'citations'],
+              properties: {
+                statement: text,
+                positive_case: optionalTextList,
+                negative_case: optionalTextList,
+                citations: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    additionalProperties: false,
+                    required: ['cited_source', 'cited_type', 'viewpoint'],
+                    properties: {
+                      cited_source: text,
+                      cited_type: { type: 'string', enum: CITED_TYPES },
+                      viewpoint: text
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+};
+
+// 表示值为空的校验关键字
+const EMPTY_VALUE_KEYWORDS = new Set(['minLength', 'minItems', 'minProperties']);
+
+const ajv = new Ajv({ allErrors: true, allowUnionTypes: true, verbose: true });
+const validateTemplate = ajv.compile(TEMPLATE_EXPORT_SCHEMA);
+
+/**
+ * 把JSON Pointer转换为易读的字段路径：/chapters/0/chapter_title -> chapters[0].chapter_title
+ */
+function toFieldPath(pointer: string, property?: string): string {
+  const segments = pointer.split('/').slice(1).concat(property !== undefined ? [property] : []);
+  return segments
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((path, segment) => /^\d+$/.test(segment) ? `${path}[${segment}]` : path ? `${path}.${segment}` : segment, '');
+}
+
+function describeError(error: ErrorObject): string {
+  const path = toFieldPath(error.instancePath) || '(根)';
+  if (error.keyword === 'additionalProperties') {
+    return `${path}: 模板中没有字段 ${error.params.additionalProperty}`;
+  }
+  return `${path}: ${error.message}`;
+}
+
+/**
+ * 校验导出结果是否符合json_template.txt
+ * @param data 导出结果
+ * @returns 缺失字段和其他错误
+ */
+export function validateTemplateExport(data: BookTemplateExport): TemplateValidationReport {
+  validateTemplate(data);
+
+  const missingFields: string[] = [];
+  const errors: string[] = [];
+  for (const error of validateTemplate.errors || []) {
+    if (error.keyword === 'required') {
+      missingFields.push(toFieldPath(error.instancePath, error.params.missingProperty));
+    } else if (EMPTY_VALUE_KEYWORDS.has(error.keyword) || (error.keyword === 'type' && error.data == null)) {
+      missingFields.push(toFieldPath(error.instancePath));
+    } else {
+      errors.push(describeError(error));
+    }
+  }
+
+  return {
+    valid: missingFields.length === 0 && errors.length === 0,
+    missingFields: [...new Set(missingFields)],
+    errors
+  };
+}
@@ -0,0 +1,491 @@
+// 解析、拆分、分析的后台任务处理器
+import { v4 as uuidv4 } from 'uuid';
+import { FileManager } from '../storage/file-manager';
+import { ParserFactory } from '../core/parsers/parser-factory';
+import { ChapterSplitter } from '../core/analyzers/chapter-splitter';
+import { NON_BODY_ROLES } from '../core/analyzers/matter-classifier';
+import { ProviderRegistry } from '../ai/providers/provider-registry';
+import { AIConfig, AnalysisType } from '../ai/providers/base-provider';
+import { resolveOutputLanguage, getLanguageSample, OUTPUT_LANGUAGE_NAMES } from '../ai/output-language';
+import { isFailedAnalysis } from '../ai/analysis-schema';
+import { BookParseSession, ChapterAnalysisResult, ChapterAnalysisState, ChapterRole, Job } from '../types/book.types';
+import { JobQueue, JobContext, JobInterruptedError } from './job-queue';
+
+export interface BookJobDependencies {
+  fileManager: FileManager;
+}
+
+// 拆分任务参数
+interface SplitJobParams {
+  level?: number; // 按第几级目录拆分
+  structured?: boolean; // 是否同时生成结构化内容块
+  skipNonBody?: boolean; // 是否跳过默认的非正文角色
+  skipRoles?: ChapterRole[]; // 显式指定跳过的目录项角色
+}
+
+// 分析任务参数
+interface AnalyzeJobParams {
+  chapterIndexes?: number[]; // 要分析的章节，默认全部章节
+  analysisType?: AnalysisType;
+  resume?: boolean; // 只分析未完成的章节
+  outputLanguage?: string;
+  aiConfig?: AIConfig; // 请求中携带的AI配置
+}
+
+/**
+ * 注册解析、拆分、分析任务的处理器
+ */
+export function registerBookJobs(queue: JobQueue, deps: BookJobDependencies): void {
+  const { fileManager } = deps;
+
+  /**
+   * 任务出错时更新会话状态并记录日志；被取消或暂停时恢复到任务开始前的状态
+   */
+  const handleJobError = async (
+    fileId: string,
+    error: Error,
+    operation: string,
+    previousStatus: BookParseSession['status']
+  ): Promise<void> => {
+    if (error instanceof JobInterruptedError) {
+      await fileManager.updateSession(fileId, { status: previousStatus });
+      await fileManager.addLog(fileId, {
+        id: uuidv4(),
+        fileId,
+        timestamp: new Date(),
+        operation,
+        status: error.reason === 'paused' ? 'pending' : 'error',
+        message: error.message
+      });
+      return;
+    }
+
+    // 更新失败状态
+    await fileManager.updateSession(fileId, {
+      status: 'error',
+      error: error.message
+    });
+
+    // 添加错误日志
+    await fileManager.addLog(fileId, {
+      id: uuidv4(),
+      fileId,
+      timestamp: new Date(),
+      operation,
+      status: 'error',
+      message: error.message
+    });
+  };
+
+  const requireSession = (fileId: string): BookParseSession => {
+    const session = fileManager.getSession(fileId);
+    if (!session) {
+      throw new Error(`会话不存在: ${fileId}`);
+    }
+    return session;
+  };
+
+  // 解析电子书基本信息
+  queue.register('parse', async (job: Job, context: JobContext) => {
+    const { fileId } = job;
+    const session = requireSession(fileId);
+
+    try {
+      // 更新状态
+      await fileManager.updateSession(fileId, {
+        status: 'parsing',
+        progress: 20
+      });
+
+      // 添加日志
+      await fileManager.addLog(fileId, {
+        id: uuidv4(),
+        fileId,
+        timestamp: new Date(),
+        operation: '开始解析',
+        status: 'in_progress',
+        message: '正在解析电子书基本信息...'
+      });
+
+      // 创建解析器
+      const parser = ParserFactory.createParser(session.filepath);
+      if (!parser) {
+        throw new Error('不支持的文件格式');
+      }
+
+      // 解析基本信息
+      const parseResult = await parser.parse(session.filepath);
+      context.checkpoint();
+
+      // 元数据中没有书名时使用上传文件名
+      if (parseResult.bookInfo.title === '未知标题' && session.filename) {
+        parseResult.bookInfo.title = session.filename.replace(/\.[^.]+$/, '');
+      }
+
+      // 纯文本等格式在解析时已生成章节，补充统计信息后可直接进行AI分析
+      if (parseResult.chapters && parseResult.chapters.length > 0) {
+        parseResult.chapterStats = new ChapterSplitter().getChapterStats(parseResult.chapters);
+      }
+
+      // 更新会话
+      await fileManager.updateSession(fileId, {
+        status: 'parsed',
+        progress: 50,
+        parseResult
+      });
+
+      // 添加成功日志
+      await fileManager.addLog(fileId, {
+        id: uuidv4(),
+        fileId,
+        timestamp: new Date(),
+        operation: '解析完成',
+        status: 'completed',
+        message: '电子书基本信息解析完成',
+        details: {
+          title: parseResult.bookInfo.title,
+          author: parseResult.bookInfo.author,
+          chaptersCount: parseResult.tableOfContents.length
+        }
+      });
+
+      return {
+        title: parseResult.bookInfo.title,
+        author: parseResult.bookInfo.author,
+        chaptersCount: parseResult.tableOfContents.length
+      };
+    } catch (error) {
+      console.error('解析失败:', error);
+      await handleJobError(fileId, error, '解析失败', 'uploaded');
+      throw error;
+    }
+  });
+
+  // 拆分章节
+  queue.register('split', async (job: Job, context: JobContext) => {
+    const { fileId } = job;
+    const { level = 1, structured = false, skipNonBody = false, skipRoles } = job.params as SplitJobParams;
+    const session = requireSession(fileId);
+
+    if (!session.parseResult?.tableOfContents || session.parseResult.tableOfContents.length === 0) {
+      throw new Error('缺少目录结构，无法进行章节拆分');
+    }
+
+    try {
+      // 更新状态
+      await fileManager.updateSession(fileId, {
+        status: 'splitting',
+        progress: 60
+      });
+
+      // 添加日志
+      await fileManager.addLog(fileId, {
+        id: uuidv4(),
+        fileId,
+        timestamp: new Date(),
+        operation: '章节拆分',
+        status: 'in_progress',
+        message: `正在按第${level}级目录拆分章节...`
+      });
+
+      // 创建章节拆分器
+      const splitter = new ChapterSplitter();
+      await splitter.initialize(session.filepath);
+
+      try {
+        // 拆分章节 - 使用正确的方法和参数
+        const chapters = await splitter.splitChapters(session.parseResult.tableOfContents, {
+          level,
+          structured: !!structured,
+          // 显式指定的skipRoles优先，否则skipNonBody时跳过默认的非正文角色
+          skipRoles: Array.isArray(skipRoles) ? skipRoles : skipNonBody ? NON_BODY_ROLES : []
+        });
+        context.checkpoint();
+        const stats = splitter.getChapterStats(chapters);
+
+        // 更新解析结果；章节重新拆分后原有的章节分析结果和状态不再对应，按新的章节清空
+        const updatedParseResult = {
+          ...session.parseResult,
+          chapters,
+          chapterStats: stats,
+          chapterAnalysis: new Array(chapters.length).fill(null)
+        };
+
+        // 更新会话
+        await fileManager.updateSession(fileId, {
+          status: 'split',
+          progress: 70,
+          parseResult: updatedParseResult,
+          chapterStatuses: chapters.map(() => ({ status: 'pending' as const }))
+        });
+
+        // 添加成功日志
+        await fileManager.addLog(fileId, {
+          id: uuidv4(),
+          fileId,
+          timestamp: new Date(),
+          operation: '章节拆分完成',
+          status: 'completed',
+          message: `成功拆分为${chapters.length}个章节`,
+          details: {
+            chaptersCount: chapters.length,
+            totalWords: stats.totalWords,
+            averageWords: stats.averageWords
+          }
+        });
+
+        return {
+          chaptersCount: chapters.length,
+          totalWords: stats.totalWords
+        };
+      } finally {
+        // 清理资源
+        await splitter.cleanup();
+      }
+    } catch (error) {
+      console.error('章节拆分失败:', error);
+      await handleJobError(fileId, error, '章节拆分失败', 'parsed');
+      throw error;
+    }
+  });
+
+  // AI分析章节：每完成一个章节立即保存结果和状态，单个章节失败不影响其他章节
+  queue.register('analyze', async (job: Job, context: JobContext) => {
+    const { fileId } = job;
+    const params = job.params as AnalyzeJobParams;
+    const { chapterIndexes, analysisType = 'full' } = params;
+    // 重试或服务重启后重新执行的任务同样只分析未完成的章节
+    const resume = !!params.resume || job.attempts > 1;
+    const aiConfig: AIConfig | null = params.aiConfig || null;
+    const session = requireSession(fileId);
+
+    if (!session.parseResult?.chapters) {
+      throw new Error('请先拆分章节');
+    }
+    // API密钥不保存到任务文件，服务重启后重新执行的任务需要在继续或重试时重新提供
+    if (aiConfig && ProviderRegistry.getMissingFields(aiConfig).length > 0) {
+      throw new Error('任务的AI配置缺少API密钥，请在重试任务时重新提供AI配置');
+    }
+
+    // 请求中携带AI配置时按该配置创建提供者，否则使用默认提供者
+    const aiProvider = ProviderRegistry.resolveProvider(aiConfig);
+    console.log(aiConfig ? `使用动态AI配置: ${aiConfig.provider}` : `使用默认AI配置: ${aiProvider.getConfig().provider}`);
+
+    const chapters = session.parseResult.chapters;
+    console.log(`[DEBUG] 总章节数: ${chapters.length}, 请求分析章节索引:`, chapterIndexes, resume ? '（继续未完成的章节）' : '');
+
+    const requestedIndexes: number[] = (chapterIndexes || chapters.map((_, index) => index))
+      .filter((index: number) => {
+        if (index >= 0 && index < chapters.length) {
+          return true;
+        }
+        console.warn(`[DEBUG] 无效章节索引: ${index}`);
+        return false;
+      });
+    const targetIndexes = resume ? getPendingChapterIndexes(session, requestedIndexes) : requestedIndexes;
+    const skipped = requestedIndexes.length - targetIndexes.length;
+
+    console.log(`[DEBUG] 实际分析章节数: ${targetIndexes.length}${skipped > 0 ? `，跳过已完成的 ${skipped} 个章节` : ''}`);
+
+    // 输出语言按整本书确定一次，"auto"时跟随书籍语言
+    const outputLanguage = resolveOutputLanguage(params.outputLanguage, session.parseResult.bookInfo, getLanguageSample(chapters));
+
+    // 会话保存按顺序执行，每次保存时读取最新的会话再合并，避免并行完成的章节用旧数据覆盖彼此的结果
+    let persisting = Promise.resolve();
+    const persist = (buildUpdates: (current: BookParseSession) => Partial<BookParseSession>) => {
+      persisting = persisting.then(() => fileManager.updateSession(fileId, buildUpdates(fileManager.getSession(fileId) || session)));
+      return persisting;
+    };
+
+    // 记录单个章节的结果：成功时保存分析结果，失败（包括无法解析的占位结果）时保留已有结果只记录原因
+    const recordChapter = (chapterIndex: number, result: ChapterAnalysisResult | null, error?: Error) => persist(current => {
+      const chapterAnalysis = [...(current.parseResult?.chapterAnalysis || new Array(chapters.length).fill(null))];
+      const chapterStatuses = [...getChapterStatuses(current)];
+
+      if (!error && !isFailedAnalysis(result)) {
+        chapterAnalysis[chapterIndex] = result;
+        chapterStatuses[chapterIndex] = { status: 'done', updatedAt: new Date() };
+      } else {
+        chapterStatuses[chapterIndex] = { status: 'failed', error: error?.message || '未知错误', updatedAt: new Date() };
+      }
+
+      return {
+        parseResult: { ...current.parseResult, chapterAnalysis },
+        chapterStatuses
+      };
+    });
+
+    let completed = 0;
+    let failed = 0;
+    const onChapterFinished = async (position: number, result: ChapterAnalysisResult | null, error?: Error) => {
+      const chapterIndex = targetIndexes[position];
+      completed++;
+      // AI响应无法解析时提供者返回带failed标记的占位结果，按失败处理，继续分析时会重新分析
+      if (!error && isFailedAnalysis(result)) {
+        error = new Error('AI响应无法解析为章节分析结果');
+      }
+      if (error) {
+        failed++;
+        await fileManager.addLog(fileId, {
+          id: uuidv4(),
+          fileId,
+          timestamp: new Date(),
+          operation: '章节分析失败',
+          status: 'error',
+          message: `《${chapters[chapterIndex].title}》分析失败: ${error.message}`,
+          details: { chapterIndex }
+        });
+      } else {
+        // 每完成一个章节推送一次实时事件
+        fileManager.publish(fileId, {
+          type: 'chapter',
+          chapterIndex,
+          completed,
+          total: targetIndexes.length,
+          result
+        });
+      }
+      await recordChapter(chapterIndex, result, error);
+      await context.setProgress(completed / targetIndexes.length * 100, `已分析 ${completed}/${targetIndexes.length} 个章节`);
+    };
+
+    try {
+      // 更新状态，待分析章节标记为pending
+      const chapterStatuses = [...getChapterStatuses(session)];
+      targetIndexes.forEach(index => {
+        chapterStatuses[index] = { status: 'pending' };
+      });
+      await fileManager.updateSession(fileId, {
+        status: 'analyzing',
+        progress: 80,
+        error: undefined,
+        chapterStatuses
+      });
+
+      // 添加日志
+      await fileManager.addLog(fileId, {
+        id: uuidv4(),
+        fileId,
+        timestamp: new Date(),
+        operation: 'AI分析',
+        status: 'in_progress',
+        message: `正在进行AI章节分析...${aiConfig ? ` - 使用: ${aiConfig.provider}` : ''}，输出语言: ${OUTPUT_LANGUAGE_NAMES[outputLanguage]}${skipped > 0 ? `（跳过已完成的${skipped}个章节）` : ''}`
+      });
+
+      const targetChapters = targetIndexes.map(index => chapters[index]);
+
+      // 按提供商的并发数并行分析章节，请求由调度器限速
+      let nextPosition = 0;
+      const analyzeNext = async (): Promise<void> => {
+        while (nextPosition < targetChapters.length) {
+          context.checkpoint();
+          const position = nextPosition++;
+          const chapter = targetChapters[position];
+
+          // 超出模型上下文的长章节会分块分析，把分块计划记入操作日志
+          const plan = aiProvider.planChapterChunks(chapter, analysisType);
+          if (plan.chunks.length > 1) {
+            await fileManager.addLog(fileId, {
+              id: uuidv4(),
+              fileId,
+              timestamp: new Date(),
+              operation: '章节分块',
+              status: 'in_progress',
+              message: `《${chapter.title}》约${plan.totalTokens} tokens，分为${plan.chunks.length}块分析后合并`,
+              details: {
+                chunkTokens: plan.chunkTokens,
+                overlapTokens: plan.overlapTokens,
+                chunks: plan.chunks.map(({ index, start, end, tokens }) => ({ index, start, end, tokens }))
+              }
+            });
+          }
+
+          try {
+            const result = await aiProvider.analyzeChapter(chapter, analysisType, { bookInfo: session.parseResult.bookInfo, outputLanguage });
+            await onChapterFinished(position, result);
+          } catch (error) {
+            await onChapterFinished(position, null, error);
+          }
+        }
+      };
+
+      // 任一工作者被中断时等待其他正在分析的章节结束，再抛出中断
+      const workers = Array.from(
+        { length: Math.min(aiProvider.capabilities.concurrency, targetChapters.length) },
+        () => analyzeNext()
+      );
+      const interrupted = (await Promise.allSettled(workers)).find(outcome => outcome.status === 'rejected');
+      if (interrupted) {
+        throw (interrupted as PromiseRejectedResult).reason;
+      }
+
+      // 等待最后的结果写入
+      await persisting;
+
+      // 移除自动生成书籍总结的逻辑，改为由前端用户主动触发
+      // 章节分析完成后不再自动生成书籍总结
+      console.log(`[DEBUG] 章节分析完成，跳过自动书籍总结生成 - 等待用户主动触发`);
+
+      // 有章节失败时保留拆分状态，可以用resume模式继续分析未完成的章节
+      const latest = fileManager.getSession(fileId) || session;
+      await fileManager.updateSession(fileId, failed > 0
+        ? { status: 'split', progress: 70, error: `${failed}个章节分析失败，可继续分析未完成的章节` }
+        : { status: 'completed', progress: 100, error: undefined });
+
+      // 添加完成日志
+      const analyzed = completed - failed;
+      await fileManager.addLog(fileId, {
+        id: uuidv4(),
+        fileId,
+        timestamp: new Date(),
+        operation: 'AI分析完成',
+        status: failed > 0 ? 'error' : 'completed',
+        message: failed > 0 ? `成功分析${analyzed}个章节，${failed}个章节失败` : `成功分析${analyzed}个章节`,
+        details: {
+          analyzedChapters: analyzed,
+          failedChapters: failed,
+          skippedChapters: skipped,
+          pendingChapters: getPendingChapterIndexes(latest).length,
+          requestedIndexes: chapterIndexes || 'all',
+          aiProvider: aiConfig?.provider || 'deepseek'
+        }
+      });
+
+      return {
+        analyzedChapters: analyzed,
+        failedChapters: failed,
+        skippedChapters: skipped
+      };
+    } catch (error) {
+      await persisting.catch(() => undefined);
+      console.error('AI分析失败:', error);
+      await handleJobError(fileId, error, 'AI分析失败', 'split');
+      throw error;
+    }
+  });
+}
+
+/**
+ * 获取会话的章节分析状态；没有记录状态的旧会话按已有的分析结果推断
+ */
+export function getChapterStatuses(session: BookParseSession): ChapterAnalysisState[] {
+  const chapters = session.parseResult?.chapters || [];
+  if (session.chapterStatuses && session.chapterStatuses.length === chapters.length) {
+    return session.chapterStatuses;
+  }
+
+  const analysis = session.parseResult?.chapterAnalysis || [];
+  return chapters.map((_, index) => ({
+    status: isFailedAnalysis(analysis[index]) ? 'pending' : 'done'
+  }));
+}
+
+/**
+ * 获取尚未完成分析的章节索引
+ * @param session 会话
+ * @param indexes 限定范围的章节索引，默认全部章节
+ */
+export function getPendingChapterIndexes(session: BookParseSession, indexes?: number[]): number[] {
+  const statuses = getChapterStatuses(session);
+  return (indexes || statuses.map((_, index) => index)).filter(index => statuses[index]?.status !== 'done');
+}
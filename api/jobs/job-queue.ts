@@ -0,0 +1,374 @@
+// 后台任务队列
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import { v4 as uuidv4 } from 'uuid';
+import { Job, JobType, JobStatus } from '../types/book.types';
+
+const mkdir = promisify(fs.mkdir);
+const writeFile = promisify(fs.writeFile);
+const readFile = promisify(fs.readFile);
+const readdir = promisify(fs.readdir);
+const unlink = promisify(fs.unlink);
+
+// 任务执行上下文
+export interface JobContext {
+  /**
+   * 检查任务是否已被取消或暂停，是则抛出JobInterruptedError；
+   * 处理器应在各步骤之间调用，以便及时停止
+   */
+  checkpoint(): void;
+  /**
+   * 更新任务进度
+   */
+  setProgress(progress: number, message?: string): Promise<void>;
+}
+
+// 任务处理器，返回值作为任务结果摘要保存
+export type JobHandler = (job: Job, context: JobContext) => Promise<unknown>;
+
+// 任务被取消或暂停时由checkpoint抛出
+export class JobInterruptedError extends Error {
+  constructor(public readonly reason: 'cancelled' | 'paused') {
+    super(reason === 'cancelled' ? '任务已取消' : '任务已暂停');
+    this.name = 'JobInterruptedError';
+  }
+}
+
+export interface JobQueueConfig {
+  jobDir: string; // 任务持久化目录
+  concurrency: number; // 同时执行的任务数
+  redact?: (job: Job) => Job; // 保存到文件前去掉任务中的敏感信息，如AI配置中的API密钥
+}
+
+// 任务停止后不再自动执行的状态
+const SETTLED_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled', 'paused'];
+
+export class JobQueue {
+  private config: JobQueueConfig;
+  private jobs: Map<string, Job> = new Map();
+  private handlers: Map<JobType, JobHandler> = new Map();
+  private interrupts: Map<string, 'cancelled' | 'paused' | null> = new Map(); // 正在执行的任务及其中断请求
+  private waiters: Map<string, Array<(job: Job) => void>> = new Map();
+  private listeners: Array<(job: Job) => void> = [];
+
+  constructor(config: Partial<JobQueueConfig> = {}) {
+    this.config = {
+      jobDir: path.join(process.cwd(), 'sessions', 'jobs'),
+      concurrency: Math.max(1, parseInt(process.env.JOB_CONCURRENCY || '2')),
+      ...config
+    };
+  }
+
+  /**
+   * 注册任务处理器
+   */
+  register(type: JobType, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * 监听任务状态变化
+   */
+  onChange(listener: (job: Job) => void): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * 加载持久化的任务并开始执行；服务重启时正在执行的任务重新排队
+   */
+  async start(): Promise<void> {
+    try {
+      await mkdir(this.config.jobDir, { recursive: true });
+      const files = await readdir(this.config.jobDir);
+
+      for (const file of files) {
+        if (path.extname(file) !== '.json') {
+          continue;
+        }
+
+        try {
+          const job: Job = JSON.parse(await readFile(path.join(this.config.jobDir, file), 'utf-8'));
+          job.createdAt = new Date(job.createdAt);
+          job.updatedAt = new Date(job.updatedAt);
+          job.startedAt = job.startedAt ? new Date(job.startedAt) : undefined;
+          job.finishedAt = job.finishedAt ? new Date(job.finishedAt) : undefined;
+
+          const interrupted = job.status === 'running';
+          if (interrupted) {
+            job.status = 'queued';
+            job.message = '服务重启，任务重新排队';
+          }
+          // 重新保存更新后的状态，同时去掉早先保存在文件中的敏感信息
+          if (interrupted || this.config.redact) {
+            await this.save(job);
+          }
+          this.jobs.set(job.id, job);
+        } catch (error) {
+          console.error(`加载任务失败 [${file}]:`, error);
+        }
+      }
+
+      const pending = [...this.jobs.values()].filter(job => job.status === 'queued').length;
+      console.log(`已加载 ${this.jobs.size} 个任务，其中 ${pending} 个待执行`);
+    } catch (error) {
+      console.error('加载任务失败:', error);
+    }
+
+    this.pump();
+  }
+
+  /**
+   * 添加任务
+   */
+  async enqueue(fileId: string, type: JobType, params: Job['params'] = {}): Promise<Job> {
+    if (!this.handlers.has(type)) {
+      throw new Error(`未注册的任务类型: ${type}`);
+    }
+
+    const now = new Date();
+    const job: Job = {
+      id: uuidv4(),
+      fileId,
+      type,
+      status: 'queued',
+      params,
+      progress: 0,
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.jobs.set(job.id, job);
+    await this.save(job);
+    this.pump();
+    return job;
+  }
+
+  /**
+   * 获取任务
+   */
+  getJob(jobId: string): Job | null {
+    return this.jobs.get(jobId) || null;
+  }
+
+  /**
+   * 获取任务列表（按创建时间排序）
+   */
+  getJobs(fileId?: string): Job[] {
+    return [...this.jobs.values()]
+      .filter(job => !fileId || job.fileId === fileId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  /**
+   * 取消任务：排队或暂停中的任务直接取消，执行中的任务在下一个检查点停止
+   */
+  async cancel(jobId: string): Promise<Job> {
+    const job = this.requireJob(jobId);
+    if (job.status === 'queued' || job.status === 'paused') {
+      await this.settle(job, { status: 'cancelled', message: '任务已取消' });
+    } else if (job.status === 'running') {
+      this.interrupts.set(job.id, 'cancelled');
+    } else {
+      throw new Error(`任务已结束，无法取消: ${job.status}`);
+    }
+    return job;
+  }
+
+  /**
+   * 暂停任务：排队中的任务不再执行，执行中的任务在下一个检查点停止
+   */
+  async pause(jobId: string): Promise<Job> {
+    const job = this.requireJob(jobId);
+    if (job.status === 'queued') {
+      await this.settle(job, { status: 'paused', message: '任务已暂停' });
+    } else if (job.status === 'running') {
+      this.interrupts.set(job.id, 'paused');
+    } else {
+      throw new Error(`只能暂停排队或执行中的任务: ${job.status}`);
+    }
+    return job;
+  }
+
+  /**
+   * 继续已暂停的任务，重新排队执行
+   * @param params 更新的任务参数，如重新提供的AI配置
+   */
+  async resume(jobId: string, params?: Job['params']): Promise<Job> {
+    const job = this.requireJob(jobId);
+    if (job.status !== 'paused') {
+      throw new Error(`只能继续已暂停的任务: ${job.status}`);
+    }
+    return this.requeue(job, '任务已继续', params);
+  }
+
+  /**
+   * 重试失败或已取消的任务
+   * @param params 更新的任务参数，如重新提供的AI配置
+   */
+  async retry(jobId: string, params?: Job['params']): Promise<Job> {
+    const job = this.requireJob(jobId);
+    if (job.status !== 'failed' && job.status !== 'cancelled') {
+      throw new Error(`只能重试失败或已取消的任务: ${job.status}`);
+    }
+    return this.requeue(job, '任务已重新排队', params);
+  }
+
+  /**
+   * 等待任务停止（完成、失败、取消或暂停）
+   */
+  waitFor(jobId: string): Promise<Job> {
+    const job = this.requireJob(jobId);
+    if (SETTLED_STATUSES.includes(job.status)) {
+      return Promise.resolve(job);
+    }
+
+    return new Promise(resolve => {
+      const waiters = this.waiters.get(jobId) || [];
+      waiters.push(resolve);
+      this.waiters.set(jobId, waiters);
+    });
+  }
+
+  /**
+   * 删除文件的所有任务，执行中的任务会被取消
+   */
+  async removeJobs(fileId: string): Promise<void> {
+    for (const job of this.getJobs(fileId)) {
+      if (job.status === 'running') {
+        this.interrupts.set(job.id, 'cancelled');
+      }
+      this.jobs.delete(job.id);
+
+      const jobPath = this.getJobPath(job.id);
+      if (fs.existsSync(jobPath)) {
+        await unlink(jobPath);
+      }
+    }
+  }
+
+  /**
+   * 按创建顺序启动排队中的任务；同一文件的任务依次执行，保证解析、拆分、分析的先后顺序
+   */
+  private pump(): void {
+    const running = [...this.jobs.values()].filter(job => job.status === 'running');
+    const busyFiles = new Set(running.map(job => job.fileId));
+    let slots = this.config.concurrency - running.length;
+
+    for (const job of this.getJobs()) {
+      if (slots <= 0) {
+        break;
+      }
+      if (job.status !== 'queued' || busyFiles.has(job.fileId)) {
+        continue;
+      }
+
+      busyFiles.add(job.fileId);
+      slots--;
+      this.run(job).catch(error => {
+        console.error(`任务执行异常 [${job.id}]:`, error);
+      });
+    }
+  }
+
+  private async run(job: Job): Promise<void> {
+    const handler = this.handlers.get(job.type);
+    this.interrupts.set(job.id, null);
+    await this.update(job, {
+      status: 'running',
+      attempts: job.attempts + 1,
+      startedAt: new Date(),
+      finishedAt: undefined,
+      error: undefined,
+      message: undefined,
+      progress: 0
+    });
+    console.log(`▶️ [任务] 开始执行 ${job.type} 任务 ${job.id}（第 ${job.attempts} 次）`);
+
+    const context: JobContext = {
+      checkpoint: () => {
+        const reason = this.interrupts.get(job.id);
+        if (reason) {
+          throw new JobInterruptedError(reason);
+        }
+      },
+      setProgress: (progress: number, message?: string) =>
+        this.update(job, { progress: Math.max(0, Math.min(100, Math.round(progress))), ...(message ? { message } : {}) })
+    };
+
+    try {
+      const result = await handler(job, context);
+      await this.settle(job, { status: 'completed', progress: 100, result, message: '任务已完成' });
+      console.log(`✅ [任务] ${job.type} 任务 ${job.id} 已完成`);
+    } catch (error) {
+      if (error instanceof JobInterruptedError) {
+        await this.settle(job, { status: error.reason, message: error.message });
+        console.log(`⏹️ [任务] ${job.type} 任务 ${job.id} ${error.message}`);
+      } else {
+        await this.settle(job, { status: 'failed', error: error.message, message: '任务失败' });
+        console.error(`❌ [任务] ${job.type} 任务 ${job.id} 失败:`, error.message);
+      }
+    } finally {
+      this.interrupts.delete(job.id);
+      this.pump();
+    }
+  }
+
+  private async requeue(job: Job, message: string, params?: Job['params']): Promise<Job> {
+    await this.update(job, {
+      status: 'queued',
+      error: undefined,
+      finishedAt: undefined,
+      message,
+      ...(params ? { params: { ...job.params, ...params } } : {})
+    });
+    this.pump();
+    return job;
+  }
+
+  /**
+   * 更新任务为停止状态并通知等待者
+   */
+  private async settle(job: Job, updates: Partial<Job>): Promise<void> {
+    await this.update(job, { ...updates, finishedAt: new Date() });
+
+    const waiters = this.waiters.get(job.id) || [];
+    this.waiters.delete(job.id);
+    waiters.forEach(resolve => resolve(job));
+  }
+
+  private async update(job: Job, updates: Partial<Job>): Promise<void> {
+    Object.assign(job, updates, { updatedAt: new Date() });
+    // 已删除的任务不再保存
+    if (this.jobs.has(job.id)) {
+      await this.save(job);
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(job);
+      } catch (error) {
+        console.error('任务状态通知失败:', error);
+      }
+    }
+  }
+
+  private requireJob(jobId: string): Job {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      throw new Error(`任务不存在: ${jobId}`);
+    }
+    return job;
+  }
+
+  private getJobPath(jobId: string): string {
+    return path.join(this.config.jobDir, `${jobId}.json`);
+  }
+
+  private async save(job: Job): Promise<void> {
+    await mkdir(this.config.jobDir, { recursive: true });
+    const data = this.config.redact ? this.config.redact(job) : job;
+    await writeFile(this.getJobPath(job.id), JSON.stringify(data, null, 2));
+  }
+}
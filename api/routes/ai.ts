@@ -3,7 +3,8 @@
  * 处理AI配置测试、连接验证等功能
  */
 import { Router, Request, Response } from 'express';
-import { UniversalAIProvider, AIConfig } from '../ai/universal-provider';
+import { ProviderRegistry } from '../ai/providers/provider-registry';
+import { AIConfig } from '../ai/providers/base-provider';
 
 const router = Router();
 
@@ -16,17 +17,24 @@ router.post('/test-connection', async (req: Request, res: Response) => {
     const config: AIConfig = req.body;
     
     // 验证配置完整性
-    if (!config.provider || !config.apiKey || !config.baseURL || !config.model) {
+    if (ProviderRegistry.getMissingFields(config).length > 0) {
       return res.status(400).json({
         success: false,
         message: 'AI配置不完整，请检查必填字段'
       });
     }
 
+    if (!ProviderRegistry.getProvider(config.provider)) {
+      return res.status(400).json({
+        success: false,
+        message: '不支持的AI提供商'
+      });
+    }
+
     console.log(`🔍 测试 ${config.provider} AI连接...`);
     
     // 创建AI提供者实例并测试连接
-    const aiProvider = UniversalAIProvider.create(config);
+    const aiProvider = ProviderRegistry.createProvider(config);
     const isConnected = await aiProvider.testConnection();
     
     if (isConnected) {
@@ -61,6 +69,78 @@ router.post('/test-connection', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * 获取支持的AI提供商列表
+ * GET /api/ai/providers
+ */
+router.get('/providers', (req: Request, res: Response) => {
+  const providers = ProviderRegistry.getProviders().map(definition => ({
+    name: definition.name,
+    label: definition.label,
+    requiresApiKey: definition.requiresApiKey,
+    supportsModelDiscovery: !!definition.discoverModels,
+    defaultConfig: ProviderRegistry.getDefaultConfig(definition.name),
+    rateLimits: definition.rateLimits
+  }));
+
+  res.json({
+    success: true,
+    message: '获取AI提供商列表成功',
+    data: providers
+  });
+});
+
+/**
+ * 获取服务上可用的模型及其上下文长度（Ollama、llama.cpp等本地服务）
+ * POST /api/ai/models
+ */
+router.post('/models', async (req: Request, res: Response) => {
+  try {
+    const config: Partial<AIConfig> = req.body || {};
+
+    if (!config.provider || !ProviderRegistry.getProvider(config.provider)) {
+      return res.status(400).json({
+        success: false,
+        message: '不支持的AI提供商'
+      });
+    }
+
+    if (config.baseURL) {
+      try {
+        new URL(config.baseURL);
+      } catch {
+        return res.status(400).json({
+          success: false,
+          message: 'API地址格式不正确'
+        });
+      }
+    }
+
+    console.log(`🔍 获取 ${config.provider} 可用模型...`);
+    const models = await ProviderRegistry.discoverModels({ ...config, provider: config.provider, baseURL: config.baseURL });
+
+    if (!models) {
+      return res.status(400).json({
+        success: false,
+        message: `${config.provider} 不支持获取模型列表`
+      });
+    }
+
+    console.log(`✅ ${config.provider} 发现 ${models.length} 个模型`);
+    res.json({
+      success: true,
+      message: `发现 ${models.length} 个模型`,
+      data: models
+    });
+  } catch (error) {
+    console.error('获取模型列表错误:', error);
+    res.status(500).json({
+      success: false,
+      message: `获取模型列表失败: ${error.message}`
+    });
+  }
+});
+
 /**
  * 获取AI提供商默认配置
  * GET /api/ai/default-config/:provider
@@ -68,16 +148,15 @@ router.post('/test-connection', async (req: Request, res: Response) => {
 router.get('/default-config/:provider', (req: Request, res: Response) => {
   try {
     const { provider } = req.params;
+    const defaultConfig = ProviderRegistry.getDefaultConfig(provider);
     
-    if (!['deepseek', 'kimi', 'openai'].includes(provider)) {
+    if (!defaultConfig) {
       return res.status(400).json({
         success: false,
         message: '不支持的AI提供商'
       });
     }
     
-    const defaultConfig = UniversalAIProvider.getDefaultConfig(provider as any);
-    
     res.json({
       success: true,
       message: '获取默认配置成功',
@@ -100,9 +179,8 @@ router.post('/validate-config', (req: Request, res: Response) => {
   try {
     const config = req.body;
     
-    // 基础字段验证
-    const requiredFields = ['provider', 'apiKey', 'baseURL', 'model'];
-    const missingFields = requiredFields.filter(field => !config[field]);
+    // 基础字段验证（不需要API密钥的提供商不检查apiKey）
+    const missingFields = ProviderRegistry.getMissingFields(config);
     
     if (missingFields.length > 0) {
       return res.status(400).json({
@@ -116,7 +194,7 @@ router.post('/validate-config', (req: Request, res: Response) => {
     }
     
     // 提供商验证
-    if (!['deepseek', 'kimi', 'openai'].includes(config.provider)) {
+    if (!ProviderRegistry.getProvider(config.provider)) {
       return res.status(400).json({
         success: false,
         message: '不支持的AI提供商',
@@ -153,6 +231,17 @@ router.post('/validate-config', (req: Request, res: Response) => {
       });
     }
     
+    if (config.contextWindow && config.contextWindow < 1024) {
+      return res.status(400).json({
+        success: false,
+        message: 'contextWindow不能小于1024',
+        data: {
+          valid: false,
+          error: 'invalid_context_window'
+        }
+      });
+    }
+    
     if (config.temperature && (config.temperature < 0 || config.temperature > 1)) {
       return res.status(400).json({
         success: false,
@@ -16,54 +16,110 @@ interface MulterRequest extends Request {
 import { v4 as uuidv4 } from 'uuid';
 import { FileManager } from '../storage/file-manager';
 import { ParserFactory } from '../core/parsers/parser-factory';
-import { ChapterSplitter } from '../core/analyzers/chapter-splitter';
-import { DeepSeekProvider } from '../ai/deepseek-provider';
-import { UniversalAIProvider, AIConfig } from '../ai/universal-provider';
-import { BookParseSession, OperationLog, ParseResult, ChapterAnalysisResult, BookSummary } from '../types/book.types';
+import { ProviderRegistry } from '../ai/providers/provider-registry';
+import { AIConfig, TokenUsageEstimate } from '../ai/providers/base-provider';
+import { resolvePriceTable, getModelPrice, calculateCost, PriceTable } from '../ai/pricing';
+import { isValidOutputLanguageParam, resolveOutputLanguage, getLanguageSample } from '../ai/output-language';
+import { SessionEvent, Job } from '../types/book.types';
+import { JobQueue } from '../jobs/job-queue';
+import { registerBookJobs, getPendingChapterIndexes } from '../jobs/book-jobs';
+import { buildTemplateExport } from '../export/template-export';
+import { validateTemplateExport } from '../export/template-schema';
+import { buildMarkdownDocument, buildObsidianVault } from '../export/markdown-export';
+import { buildPdfReport, resolveReportFont, PDF_FONT_MISSING_MESSAGE } from '../export/pdf-export';
 
 const router = express.Router();
 
 // 配置multer用于文件上传
+// 不按文件名过滤：扩展名错误或缺失的文件在上传后按内容识别格式
 const upload = multer({
   storage: multer.memoryStorage(),
   limits: {
     fileSize: 50 * 1024 * 1024 // 50MB
-  },
-  fileFilter: (req, file, cb) => {
-    if (file.mimetype === 'application/epub+zip' || file.originalname.endsWith('.epub')) {
-      cb(null, true);
-    } else {
-      cb(new Error('只支持EPUB格式的文件'));
-    }
   }
 });
 
 // 初始化服务
 const fileManager = new FileManager();
 const parserFactory = new ParserFactory();
-// 创建DeepSeek提供者实例（向后兼容）
-const deepSeekProvider = new DeepSeekProvider();
+
+// 后台任务队列：会话加载完成后再恢复持久化的任务
+// API密钥只保存在内存中，不写入任务文件
+const jobQueue = new JobQueue({ redact: toPublicJob });
+registerBookJobs(jobQueue, { fileManager });
+jobQueue.onChange(job => fileManager.publish(job.fileId, { type: 'job', job: toPublicJob(job) }));
+fileManager.ready.then(() => jobQueue.start()).catch(error => {
+  console.error('任务队列启动失败:', error);
+});
+
+// SSE心跳间隔（毫秒）
+const SSE_HEARTBEAT_INTERVAL = 15000;
 
 /**
  * 从请求头中提取AI配置
  */
 function extractAIConfig(req: express.Request): AIConfig | null {
-  return UniversalAIProvider.parseConfigFromHeaders(req.headers);
+  return ProviderRegistry.parseConfigFromHeaders(req.headers);
+}
+
+/**
+ * 返回给前端或保存到文件的任务：去掉AI配置中的API密钥
+ */
+function toPublicJob(job: Job): Job {
+  if (!job.params.aiConfig) {
+    return job;
+  }
+  return { ...job, params: { ...job.params, aiConfig: { ...(job.params.aiConfig as AIConfig), apiKey: undefined } } };
 }
 
 /**
- * 获取AI提供者实例
+ * 文件是否有排队或执行中的任务
  */
-function getAIProvider(req: express.Request): UniversalAIProvider | DeepSeekProvider {
-  const aiConfig = extractAIConfig(req);
-  
-  if (aiConfig) {
-    console.log(`使用动态AI配置: ${aiConfig.provider}`);
-    return UniversalAIProvider.create(aiConfig);
-  } else {
-    console.log('使用默认DeepSeek配置');
-    return deepSeekProvider;
+function hasPendingJobs(fileId: string): boolean {
+  return jobQueue.getJobs(fileId).some(job => job.status === 'queued' || job.status === 'running');
+}
+
+/**
+ * 响应已加入队列的任务：background为true时立即返回任务信息（202），
+ * 否则等待任务结束后按原接口格式返回结果；任务在后台执行，请求断开不影响任务
+ */
+async function respondWithJob(
+  req: express.Request,
+  res: express.Response,
+  job: Job,
+  buildData: () => Record<string, unknown>,
+  successMessage: string,
+  failureMessage: string
+): Promise<void> {
+  if (req.body?.background) {
+    res.status(202).json({
+      success: true,
+      data: { job: toPublicJob(job) },
+      message: '任务已加入队列'
+    });
+    return;
+  }
+
+  const finished = await jobQueue.waitFor(job.id);
+  if (finished.status === 'completed') {
+    res.json({
+      success: true,
+      data: {
+        session: fileManager.getSession(job.fileId),
+        ...buildData(),
+        job: toPublicJob(finished)
+      },
+      message: successMessage
+    });
+    return;
   }
+
+  // 失败返回500，被取消或暂停返回409
+  res.status(finished.status === 'failed' ? 500 : 409).json({
+    success: false,
+    data: { job: toPublicJob(finished) },
+    message: finished.error || finished.message || failureMessage
+  });
 }
 
 /**
@@ -79,10 +135,21 @@ router.post('/upload', upload.single('file'), async (req: MulterRequest, res) =>
       });
     }
 
-    // 保存文件并创建会话
+    // 按文件内容识别格式，扩展名仅作为参考
+    const detection = ParserFactory.detectBuffer(req.file.buffer, req.file.originalname);
+    if (!detection) {
+      return res.status(400).json({
+        success: false,
+        message: `无法识别文件格式，只支持以下格式的文件: ${ParserFactory.getSupportedFormats().join(', ')}`
+      });
+    }
+    console.log(`识别上传文件格式: ${req.file.originalname} -> ${detection.strategy}（${detection.method === 'content' ? '内容' : '扩展名'}，置信度 ${detection.confidence}）`);
+
+    // 保存文件并创建会话，文件按识别出的格式命名
     const { fileId, filePath, session } = await fileManager.saveUploadedFile(
       req.file.buffer,
-      req.file.originalname
+      req.file.originalname,
+      detection.extension
     );
 
     // 更新会话状态
@@ -108,6 +175,31 @@ router.post('/upload', upload.single('file'), async (req: MulterRequest, res) =>
   }
 });
 
+/**
+ * GET /api/books/formats
+ * 获取已注册的解析策略及其能力
+ */
+router.get('/formats', (req, res) => {
+  const formats = ParserFactory.getStrategies()
+    .sort((a, b) => b.priority - a.priority)
+    .map(strategy => ({
+      name: strategy.name,
+      label: strategy.label,
+      priority: strategy.priority,
+      extensions: strategy.createParser().getSupportedFormats(),
+      contentDetection: !!strategy.detector,
+      capabilities: strategy.capabilities
+    }));
+
+  res.json({
+    success: true,
+    data: {
+      formats,
+      extensions: ParserFactory.getSupportedFormats()
+    }
+  });
+});
+
 /**
  * POST /api/books/:fileId/parse
  * 解析电子书基本信息
@@ -124,80 +216,12 @@ router.post('/:fileId/parse', async (req, res) => {
       });
     }
 
-    // 更新状态
-    await fileManager.updateSession(fileId, {
-      status: 'parsing',
-      progress: 20
-    });
-
-    // 添加日志
-    await fileManager.addLog(fileId, {
-      id: uuidv4(),
-      fileId,
-      timestamp: new Date(),
-      operation: '开始解析',
-      status: 'in_progress',
-      message: '正在解析电子书基本信息...'
-    });
-
-    // 创建解析器
-    const parser = ParserFactory.createParser(session.filepath);
-    if (!parser) {
-      throw new Error('不支持的文件格式');
-    }
-
-    // 解析基本信息
-    const parseResult = await parser.parse(session.filepath);
-    
-    // 更新会话
-    await fileManager.updateSession(fileId, {
-      status: 'parsed',
-      progress: 50,
-      parseResult
-    });
-
-    // 添加成功日志
-    await fileManager.addLog(fileId, {
-      id: uuidv4(),
-      fileId,
-      timestamp: new Date(),
-      operation: '解析完成',
-      status: 'completed',
-      message: '电子书基本信息解析完成',
-      details: {
-        title: parseResult.bookInfo.title,
-        author: parseResult.bookInfo.author,
-        chaptersCount: parseResult.tableOfContents.length
-      }
-    });
-
-    res.json({
-      success: true,
-      data: {
-        session: fileManager.getSession(fileId),
-        parseResult
-      },
-      message: '解析完成'
-    });
+    const job = await jobQueue.enqueue(fileId, 'parse');
+    await respondWithJob(req, res, job, () => ({
+      parseResult: fileManager.getSession(fileId)?.parseResult
+    }), '解析完成', '解析失败');
   } catch (error) {
     console.error('解析失败:', error);
-    
-    // 更新失败状态
-    await fileManager.updateSession(req.params.fileId, {
-      status: 'error',
-      error: error.message
-    });
-
-    // 添加错误日志
-    await fileManager.addLog(req.params.fileId, {
-      id: uuidv4(),
-      fileId: req.params.fileId,
-      timestamp: new Date(),
-      operation: '解析失败',
-      status: 'error',
-      message: error.message
-    });
-
     res.status(500).json({
       success: false,
       message: error.message || '解析失败'
@@ -212,108 +236,36 @@ router.post('/:fileId/parse', async (req, res) => {
 router.post('/:fileId/split', async (req, res) => {
   try {
     const { fileId } = req.params;
-    const { level = 1 } = req.body;
+    const { level = 1, structured = false, skipNonBody = false, skipRoles } = req.body;
     const session = fileManager.getSession(fileId);
+    // 前序任务未完成时由任务执行时再检查解析结果
+    const pending = hasPendingJobs(fileId);
     
-    if (!session || !session.parseResult) {
+    if (!session || (!session.parseResult && !pending)) {
       return res.status(404).json({
         success: false,
         message: '请先解析电子书基本信息'
       });
     }
 
-    // 更新状态
-    await fileManager.updateSession(fileId, {
-      status: 'splitting',
-      progress: 60
-    });
-
-    // 添加日志
-    await fileManager.addLog(fileId, {
-      id: uuidv4(),
-      fileId,
-      timestamp: new Date(),
-      operation: '章节拆分',
-      status: 'in_progress',
-      message: `正在按第${level}级目录拆分章节...`
-    });
-
     // 检查是否有目录结构
-    if (!session.parseResult.tableOfContents || session.parseResult.tableOfContents.length === 0) {
+    if (!pending && (!session.parseResult.tableOfContents || session.parseResult.tableOfContents.length === 0)) {
       return res.status(400).json({
         success: false,
         message: '缺少目录结构，无法进行章节拆分'
       });
     }
 
-    // 创建章节拆分器
-    const splitter = new ChapterSplitter();
-    await splitter.initialize(session.filepath);
-    
-    // 拆分章节 - 使用正确的方法和参数
-    const chapters = await splitter.splitChapters(session.parseResult.tableOfContents, { level });
-    const stats = splitter.getChapterStats(chapters);
-    
-    // 更新解析结果
-    const updatedParseResult = {
-      ...session.parseResult,
-      chapters,
-      chapterStats: stats
-    };
-
-    // 更新会话
-    await fileManager.updateSession(fileId, {
-      status: 'split',
-      progress: 70,
-      parseResult: updatedParseResult
-    });
-
-    // 添加成功日志
-    await fileManager.addLog(fileId, {
-      id: uuidv4(),
-      fileId,
-      timestamp: new Date(),
-      operation: '章节拆分完成',
-      status: 'completed',
-      message: `成功拆分为${chapters.length}个章节`,
-      details: {
-          chaptersCount: chapters.length,
-          totalWords: stats.totalWords,
-          averageWords: stats.averageWords
-        }
-    });
-
-    // 清理资源
-    await splitter.cleanup();
-
-    res.json({
-      success: true,
-      data: {
-        session: fileManager.getSession(fileId),
-        chapters,
-        stats
-      },
-      message: '章节拆分完成'
-    });
+    const job = await jobQueue.enqueue(fileId, 'split', { level, structured, skipNonBody, skipRoles });
+    await respondWithJob(req, res, job, () => {
+      const parseResult = fileManager.getSession(fileId)?.parseResult;
+      return {
+        chapters: parseResult?.chapters,
+        stats: parseResult?.chapterStats
+      };
+    }, '章节拆分完成', '章节拆分失败');
   } catch (error) {
     console.error('章节拆分失败:', error);
-    
-    // 更新失败状态
-    await fileManager.updateSession(req.params.fileId, {
-      status: 'error',
-      error: error.message
-    });
-
-    // 添加错误日志
-    await fileManager.addLog(req.params.fileId, {
-      id: uuidv4(),
-      fileId: req.params.fileId,
-      timestamp: new Date(),
-      operation: '章节拆分失败',
-      status: 'error',
-      message: error.message
-    });
-
     res.status(500).json({
       success: false,
       message: error.message || '章节拆分失败'
@@ -328,14 +280,21 @@ router.post('/:fileId/split', async (req, res) => {
 router.post('/:fileId/analyze', async (req, res) => {
   try {
     const { fileId } = req.params;
-    const { chapterIndexes, analysisType = 'full' } = req.body;
+    // resume为true时只分析尚未完成的章节；outputLanguage为语言代码或auto（跟随书籍语言）
+    const { chapterIndexes, analysisType = 'full', resume = false, outputLanguage } = req.body;
+
+    if (!isValidOutputLanguageParam(outputLanguage)) {
+      return res.status(400).json({
+        success: false,
+        message: `不支持的输出语言: ${outputLanguage}`
+      });
+    }
     
     // 获取AI配置
     const aiConfig = extractAIConfig(req);
-    const aiProvider = getAIProvider(req);
     
     // 检查AI配置
-    if (aiConfig && aiProvider instanceof UniversalAIProvider && !aiProvider.isConfigured()) {
+    if (aiConfig && !ProviderRegistry.createProvider(aiConfig).isConfigured()) {
       return res.status(400).json({
         success: false,
         message: 'AI配置不完整，请检查API密钥等配置信息'
@@ -344,156 +303,235 @@ router.post('/:fileId/analyze', async (req, res) => {
     
     const session = fileManager.getSession(fileId);
     
-    if (!session || !session.parseResult?.chapters) {
+    // 前序任务未完成时由任务执行时再检查章节
+    if (!session || (!session.parseResult?.chapters && !hasPendingJobs(fileId))) {
       return res.status(404).json({
         success: false,
         message: '请先拆分章节'
       });
     }
 
-    // 更新状态
-    await fileManager.updateSession(fileId, {
-      status: 'analyzing',
-      progress: 80
+    // AI配置随任务保存，服务重启后任务仍可继续执行
+    const job = await jobQueue.enqueue(fileId, 'analyze', { chapterIndexes, analysisType, resume: !!resume, outputLanguage, aiConfig });
+    await respondWithJob(req, res, job, () => ({
+      analysisResults: fileManager.getSession(fileId)?.parseResult?.chapterAnalysis || [],
+      bookSummary: null
+    }), 'AI分析完成', 'AI分析失败');
+  } catch (error) {
+    console.error('AI分析失败:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'AI分析失败'
     });
+  }
+});
 
-    // 添加日志
-    await fileManager.addLog(fileId, {
-      id: uuidv4(),
-      fileId,
-      timestamp: new Date(),
-      operation: 'AI分析',
-      status: 'in_progress',
-      message: `正在进行AI章节分析...${aiConfig ? ` - 使用: ${aiConfig.provider}` : ''}`
-    });
+/**
+ * POST /api/books/:fileId/estimate
+ * 预估AI分析的token用量和费用（不调用AI接口）
+ */
+router.post('/:fileId/estimate', async (req, res) => {
+  try {
+    const { fileId } = req.params;
+    const { chapterIndexes, analysisType = 'full', includeSummary = true, resume = false } = req.body;
+    const priceTable = resolvePriceTable(req.body.priceTable as PriceTable);
 
-    const chapters = session.parseResult.chapters;
-    console.log(`[DEBUG] 总章节数: ${chapters.length}, 请求分析章节索引:`, chapterIndexes);
-    
-    const targetChapters = chapterIndexes 
-      ? chapterIndexes.map((index: number) => {
-          if (index >= 0 && index < chapters.length) {
-            console.log(`[DEBUG] 选择章节 ${index}: ${chapters[index].title}`);
-            return chapters[index];
-          }
-          console.warn(`[DEBUG] 无效章节索引: ${index}`);
-          return null;
-        }).filter(Boolean)
-      : chapters;
-
-    console.log(`[DEBUG] 实际分析章节数: ${targetChapters.length}`);
-    
-    // 批量分析章节
-    let analysisResults;
-    if (aiProvider instanceof UniversalAIProvider) {
-      // 使用通用AI提供者
-      analysisResults = [];
-      for (const chapter of targetChapters) {
-        const result = await aiProvider.analyzeChapter(chapter, analysisType);
-        analysisResults.push(result);
-      }
-    } else {
-      // 使用DeepSeek提供者
-      analysisResults = await aiProvider.analyzeChaptersBatch(
-        targetChapters,
-        analysisType
-      );
-    }
-    
-    console.log(`[DEBUG] 分析结果数量: ${analysisResults.length}`);
-    
-    // 如果是单章节分析，需要将结果映射回正确的位置并保留现有数据
-    let finalAnalysisResults = analysisResults;
-    if (chapterIndexes && chapterIndexes.length > 0) {
-      // 获取现有的章节分析结果，如果没有则创建新数组
-      const existingAnalysis = session.parseResult?.chapterAnalysis || new Array(chapters.length).fill(null);
-      finalAnalysisResults = [...existingAnalysis]; // 复制现有结果
-      
-      // 将新的分析结果更新到正确的位置
-      chapterIndexes.forEach((originalIndex, resultIndex) => {
-        if (resultIndex < analysisResults.length && originalIndex >= 0 && originalIndex < chapters.length) {
-          finalAnalysisResults[originalIndex] = analysisResults[resultIndex];
-          console.log(`[DEBUG] 更新章节分析结果: 索引 ${originalIndex} <- 结果 ${resultIndex}`);
-        }
+    const session = fileManager.getSession(fileId);
+    if (!session || !session.parseResult?.chapters) {
+      return res.status(404).json({
+        success: false,
+        message: '请先拆分章节'
       });
-      
-      console.log(`[DEBUG] 单章节分析 - 保留现有结果并更新指定章节`);
     }
 
-    // 移除自动生成书籍总结的逻辑，改为由前端用户主动触发
-    // 章节分析完成后不再自动生成书籍总结
-    let bookSummary = null;
-    console.log(`[DEBUG] 章节分析完成，跳过自动书籍总结生成 - 等待用户主动触发`);
-
-    // 更新解析结果（不包含自动生成的书籍总结）
-    const updatedParseResult = {
-      ...session.parseResult,
-      chapterAnalysis: finalAnalysisResults,
-      bookSummary: session.parseResult?.bookSummary || null // 保留现有的书籍总结（如果有的话）
+    const chapters = session.parseResult.chapters;
+    const requestedIndexes: number[] = Array.isArray(chapterIndexes)
+      ? chapterIndexes.filter((index: number) => index >= 0 && index < chapters.length)
+      : chapters.map((_, index) => index);
+    // resume时只预估尚未完成的章节
+    const indexes = resume ? getPendingChapterIndexes(session, requestedIndexes) : requestedIndexes;
+
+    // 章节分析和书籍总结都使用请求头中的AI配置，未携带时使用默认提供者
+    const aiProvider = ProviderRegistry.resolveProvider(extractAIConfig(req));
+
+    const withCost = (usage: TokenUsageEstimate, model: string) => {
+      const price = getModelPrice(model, priceTable);
+      return {
+        ...usage,
+        totalTokens: usage.promptTokens + usage.completionTokens,
+        cost: price ? calculateCost(usage.promptTokens, usage.completionTokens, price) : null,
+        currency: price?.currency || null
+      };
     };
-    
-    console.log(`[DEBUG] 准备保存分析结果到会话 - 章节数量: ${finalAnalysisResults.length}`);
-    console.log(`[DEBUG] 已分析章节索引:`, finalAnalysisResults.map((result, index) => result ? index : null).filter(i => i !== null));
-
-    // 更新会话
-    await fileManager.updateSession(fileId, {
-      status: 'completed',
-      progress: 100,
-      parseResult: updatedParseResult
-    });
-    
-    console.log(`[DEBUG] 分析结果已保存到会话数据`);
 
-    // 添加成功日志
-    await fileManager.addLog(fileId, {
-      id: uuidv4(),
-      fileId,
-      timestamp: new Date(),
-      operation: 'AI分析完成',
-      status: 'completed',
-      message: `成功分析${analysisResults.length}个章节`,
-      details: {
-        analyzedChapters: analysisResults.length,
-        totalArguments: analysisResults.reduce((sum, result) => sum + result.arguments.length, 0),
-        totalQuotes: analysisResults.reduce((sum, result) => sum + result.quotes.length, 0),
-        requestedIndexes: chapterIndexes || 'all',
-        aiProvider: aiConfig?.provider || 'deepseek'
+    const chapterModel = aiProvider.getConfig().model;
+    const chapterEstimates = indexes.map(index => ({
+      index,
+      title: chapters[index].title,
+      ...withCost(aiProvider.estimateChapterUsage(chapters[index], analysisType), chapterModel)
+    }));
+
+    const summaryModel = aiProvider.getConfig().model;
+    // 书籍总结基于全部请求的章节，包括已完成分析的章节
+    const summaryEstimate = includeSummary && requestedIndexes.length > 0
+      ? withCost(aiProvider.estimateSummaryUsage(session.parseResult.bookInfo, requestedIndexes.map(index => chapters[index])), summaryModel)
+      : null;
+
+    // 汇总，费用按币种分别累计；价格未知的部分不计入费用
+    const parts = summaryEstimate ? [...chapterEstimates, summaryEstimate] : chapterEstimates;
+    const costByCurrency: Record<string, number> = {};
+    for (const part of parts) {
+      if (part.cost !== null) {
+        costByCurrency[part.currency] = Math.round(((costByCurrency[part.currency] || 0) + part.cost) * 1000000) / 1000000;
       }
-    });
+    }
 
-    console.log(`[DEBUG] 返回分析结果数量: ${finalAnalysisResults.length}`);
+    const total = {
+      requests: parts.reduce((sum, part) => sum + part.requests, 0),
+      promptTokens: parts.reduce((sum, part) => sum + part.promptTokens, 0),
+      completionTokens: parts.reduce((sum, part) => sum + part.completionTokens, 0),
+      totalTokens: parts.reduce((sum, part) => sum + part.totalTokens, 0),
+      costByCurrency,
+      unpricedModels: [...new Set([chapterModel, ...(summaryEstimate ? [summaryModel] : [])])]
+        .filter(model => !getModelPrice(model, priceTable))
+    };
 
     res.json({
       success: true,
       data: {
-        session: fileManager.getSession(fileId),
-        analysisResults: finalAnalysisResults,
-        bookSummary
+        analysisType,
+        chapterModel: { provider: aiProvider.getConfig().provider, model: chapterModel, price: getModelPrice(chapterModel, priceTable) },
+        summaryModel: summaryEstimate ? { provider: aiProvider.getConfig().provider, model: summaryModel, price: getModelPrice(summaryModel, priceTable) } : null,
+        chapters: chapterEstimates,
+        summary: summaryEstimate,
+        total
       },
-      message: 'AI分析完成'
+      message: '用量预估完成'
     });
   } catch (error) {
-    console.error('AI分析失败:', error);
-    
-    // 更新失败状态
-    await fileManager.updateSession(req.params.fileId, {
-      status: 'error',
-      error: error.message
+    console.error('用量预估失败:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || '用量预估失败'
     });
+  }
+});
 
-    // 添加错误日志
-    await fileManager.addLog(req.params.fileId, {
-      id: uuidv4(),
-      fileId: req.params.fileId,
-      timestamp: new Date(),
-      operation: 'AI分析失败',
-      status: 'error',
-      message: error.message
+/**
+ * GET /api/books/:fileId/events
+ * 通过Server-Sent Events推送会话状态、操作日志和章节分析结果
+ */
+router.get('/:fileId/events', (req, res) => {
+  const { fileId } = req.params;
+  const session = fileManager.getSession(fileId);
+
+  if (!session) {
+    return res.status(404).json({
+      success: false,
+      message: '会话不存在'
     });
+  }
 
-    res.status(500).json({
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no' // 禁用Nginx缓冲
+  });
+  res.flushHeaders();
+
+  const send = (event: SessionEvent) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  // 先推送当前状态，之后推送增量事件
+  send({ type: 'snapshot', session: fileManager.toEventSession(session), logs: fileManager.getLogs(fileId) });
+  const unsubscribe = fileManager.subscribe(fileId, send);
+
+  // 定期发送注释行，防止代理因空闲断开连接
+  const heartbeat = setInterval(() => {
+    res.write(': heartbeat\n\n');
+  }, SSE_HEARTBEAT_INTERVAL);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+/**
+ * GET /api/books/:fileId/jobs
+ * 获取文件的后台任务列表
+ */
+router.get('/:fileId/jobs', (req, res) => {
+  res.json({
+    success: true,
+    data: jobQueue.getJobs(req.params.fileId).map(toPublicJob),
+    message: '获取任务列表成功'
+  });
+});
+
+/**
+ * GET /api/books/jobs/:jobId
+ * 获取后台任务
+ */
+router.get('/jobs/:jobId', (req, res) => {
+  const job = jobQueue.getJob(req.params.jobId);
+  if (!job) {
+    return res.status(404).json({
       success: false,
-      message: error.message || 'AI分析失败'
+      message: '任务不存在'
+    });
+  }
+
+  res.json({
+    success: true,
+    data: toPublicJob(job),
+    message: '获取任务成功'
+  });
+});
+
+/**
+ * POST /api/books/jobs/:jobId/:action
+ * 取消（cancel）、暂停（pause）、继续（resume）或重试（retry）后台任务；
+ * 继续或重试分析任务时使用请求中携带的AI配置（任务文件中不保存API密钥，服务重启后需要重新提供）
+ */
+router.post('/jobs/:jobId/:action', async (req, res) => {
+  const { jobId, action } = req.params;
+  const aiConfig = jobQueue.getJob(jobId)?.type === 'analyze' ? extractAIConfig(req) : null;
+  const params = aiConfig ? { aiConfig } : undefined;
+  const actions: Record<string, () => Promise<Job>> = {
+    cancel: () => jobQueue.cancel(jobId),
+    pause: () => jobQueue.pause(jobId),
+    resume: () => jobQueue.resume(jobId, params),
+    retry: () => jobQueue.retry(jobId, params)
+  };
+
+  // action来自URL，只接受actions自身的键，不能取到constructor等原型上的属性
+  if (!Object.prototype.hasOwnProperty.call(actions, action)) {
+    return res.status(400).json({
+      success: false,
+      message: `不支持的任务操作: ${action}`
+    });
+  }
+  if (!jobQueue.getJob(jobId)) {
+    return res.status(404).json({
+      success: false,
+      message: '任务不存在'
+    });
+  }
+
+  try {
+    const job = await actions[action]();
+    res.json({
+      success: true,
+      data: toPublicJob(job),
+      message: '任务操作成功'
+    });
+  } catch (error) {
+    res.status(409).json({
+      success: false,
+      message: error.message
     });
   }
 });
@@ -530,6 +568,108 @@ router.get('/:fileId', async (req, res) => {
   }
 });
 
+// 支持的导出格式
+const EXPORT_FORMATS = ['template', 'markdown', 'obsidian', 'pdf'];
+
+/**
+ * 设置下载文件的响应头，文件名为书名加后缀
+ */
+function setDownloadHeaders(res: express.Response, title: string, suffix: string, contentType: string): void {
+  const fileName = `${(title || 'book').replace(/[\\/:*?"<>|]/g, '').trim() || 'book'}${suffix}`;
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`);
+}
+
+/**
+ * GET /api/books/:fileId/export?format=template|markdown|obsidian|pdf
+ * template：按json_template.txt的结构导出书籍信息、封面、书籍总结、目录和章节分析，并按JSON Schema校验；
+ *   返回导出结果和校验报告，download为true时直接下载JSON文件，缺失字段数量放在X-Missing-Fields响应头
+ * markdown：下载单个Markdown文档
+ * obsidian：下载ZIP格式的Obsidian库，每章一篇笔记
+ * pdf：下载可打印的PDF分析报告，嵌入中文字体；服务器上没有中文字体时返回501
+ */
+router.get('/:fileId/export', async (req, res) => {
+  try {
+    await fileManager.ready;
+    const { fileId } = req.params;
+    const format = (req.query.format as string) || 'template';
+    const session = fileManager.getSession(fileId);
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        message: '会话不存在'
+      });
+    }
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({
+        success: false,
+        message: `不支持的导出格式: ${format}`
+      });
+    }
+
+    if (!session.parseResult?.bookInfo) {
+      return res.status(400).json({
+        success: false,
+        message: '请先解析书籍'
+      });
+    }
+
+    const title = session.parseResult.bookInfo.title;
+    if (format === 'markdown') {
+      setDownloadHeaders(res, title, '_分析报告.md', 'text/markdown; charset=utf-8');
+      return res.send(buildMarkdownDocument(session));
+    }
+    if (format === 'obsidian') {
+      const vault = await buildObsidianVault(session);
+      console.log(`📦 [导出] ${fileId} 导出Obsidian库 ${Math.round(vault.length / 1024)}KB`);
+      setDownloadHeaders(res, title, '_Obsidian.zip', 'application/zip');
+      return res.send(vault);
+    }
+    if (format === 'pdf') {
+      const font = resolveReportFont();
+      if (!font) {
+        return res.status(501).json({
+          success: false,
+          message: PDF_FONT_MISSING_MESSAGE
+        });
+      }
+      const report = await buildPdfReport(session, font);
+      console.log(`📄 [导出] ${fileId} 导出PDF报告 ${Math.round(report.length / 1024)}KB`);
+      setDownloadHeaders(res, title, '_分析报告.pdf', 'application/pdf');
+      return res.send(report);
+    }
+
+    const data = buildTemplateExport(session);
+    const validation = validateTemplateExport(data);
+    if (!validation.valid) {
+      console.warn(`⚠️ [导出] ${fileId} 缺失 ${validation.missingFields.length} 个字段，${validation.errors.length} 个错误`);
+    }
+
+    if (req.query.download === 'true') {
+      setDownloadHeaders(res, title, '_分析报告.json', 'application/json; charset=utf-8');
+      res.setHeader('X-Missing-Fields', String(validation.missingFields.length));
+      return res.send(JSON.stringify(data, null, 2));
+    }
+
+    res.json({
+      success: true,
+      message: validation.valid ? '导出成功' : `导出成功，缺失 ${validation.missingFields.length} 个字段`,
+      data: {
+        content: data,
+        validation
+      }
+    });
+  } catch (error) {
+    console.error('导出失败:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || '导出失败'
+    });
+  }
+});
+
 /**
  * GET /api/books/:fileId/logs
  * 获取操作日志
@@ -604,6 +744,7 @@ router.get('/', async (req, res) => {
 router.delete('/:fileId', async (req, res) => {
   try {
     const { fileId } = req.params;
+    await jobQueue.removeJobs(fileId);
     await fileManager.deleteSession(fileId);
     
     res.json({
@@ -626,7 +767,16 @@ router.delete('/:fileId', async (req, res) => {
 router.post('/:fileId/generate-summary', async (req, res) => {
   try {
     const { fileId } = req.params;
+    // outputLanguage为语言代码或auto（跟随书籍语言），未指定时与章节分析结果的语言一致
+    const { outputLanguage } = req.body || {};
     const session = fileManager.getSession(fileId);
+
+    if (!isValidOutputLanguageParam(outputLanguage)) {
+      return res.status(400).json({
+        success: false,
+        message: `不支持的输出语言: ${outputLanguage}`
+      });
+    }
     
     if (!session) {
       return res.status(404).json({
@@ -670,10 +820,18 @@ router.post('/:fileId/generate-summary', async (req, res) => {
 
     console.log(`[DEBUG] 开始生成书籍总结 - 文件ID: ${fileId}, 有效章节分析数: ${validAnalysis.length}`);
 
-    // 调用DeepSeek生成书籍总结
-    const bookSummary = await deepSeekProvider.generateBookSummary(
+    // 使用请求头中的AI配置生成书籍总结，未携带时使用默认提供者
+    const aiProvider = ProviderRegistry.resolveProvider(extractAIConfig(req));
+    const bookSummary = await aiProvider.generateBookSummary(
       session.parseResult.bookInfo,
-      validAnalysis
+      validAnalysis,
+      {
+        outputLanguage: resolveOutputLanguage(
+          outputLanguage || validAnalysis.find(analysis => analysis.outputLanguage)?.outputLanguage,
+          session.parseResult.bookInfo,
+          getLanguageSample(session.parseResult.chapters)
+        )
+      }
     );
 
     console.log(`[DEBUG] 书籍总结生成完成`);
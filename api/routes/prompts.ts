@@ -0,0 +1,139 @@
+/**
+ * 提示词模板路由
+ * 查询、创建、修改和删除章节分析及书籍总结的提示词模板
+ */
+import { Router, Request, Response } from 'express';
+import { promptTemplateStore, PromptTemplateError } from '../storage/prompt-template-store';
+import { PROMPT_TEMPLATE_VARIABLES } from '../ai/prompt-templates';
+import { PromptTemplateKind } from '../types/book.types';
+
+const router = Router();
+
+/**
+ * 处理模板操作的错误：模板不存在、只读或内容不合法时返回对应状态码
+ */
+function sendTemplateError(res: Response, operation: string, error: Error): void {
+  if (error instanceof PromptTemplateError) {
+    res.status(error.status).json({
+      success: false,
+      message: error.message
+    });
+    return;
+  }
+
+  console.error(`${operation}错误:`, error);
+  res.status(500).json({
+    success: false,
+    message: `${operation}失败: ${error.message}`
+  });
+}
+
+/**
+ * 获取提示词模板列表及可用变量
+ * GET /api/prompts?kind=chapterAnalysis|bookSummary
+ */
+router.get('/', async (req: Request, res: Response) => {
+  await promptTemplateStore.ready;
+  const kind = req.query.kind as PromptTemplateKind | undefined;
+
+  if (kind && !(kind in PROMPT_TEMPLATE_VARIABLES)) {
+    return res.status(400).json({
+      success: false,
+      message: '模板类型必须是chapterAnalysis或bookSummary'
+    });
+  }
+
+  res.json({
+    success: true,
+    message: '获取提示词模板成功',
+    data: {
+      templates: promptTemplateStore.list(kind),
+      variables: PROMPT_TEMPLATE_VARIABLES
+    }
+  });
+});
+
+/**
+ * 获取单个提示词模板
+ * GET /api/prompts/:id
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  await promptTemplateStore.ready;
+  const template = promptTemplateStore.get(req.params.id);
+
+  if (!template) {
+    return res.status(404).json({
+      success: false,
+      message: '提示词模板不存在'
+    });
+  }
+
+  res.json({
+    success: true,
+    message: '获取提示词模板成功',
+    data: template
+  });
+});
+
+/**
+ * 创建提示词模板
+ * POST /api/prompts
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    await promptTemplateStore.ready;
+    const { name, description, kind, content } = req.body || {};
+    const template = await promptTemplateStore.create({ name, description, kind, content });
+
+    console.log(`📝 创建提示词模板: ${template.name} (${template.id})`);
+    res.status(201).json({
+      success: true,
+      message: '提示词模板已创建',
+      data: template
+    });
+  } catch (error) {
+    sendTemplateError(res, '创建提示词模板', error);
+  }
+});
+
+/**
+ * 修改提示词模板，内置模板不能修改
+ * PUT /api/prompts/:id
+ */
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    await promptTemplateStore.ready;
+    const { name, description, content } = req.body || {};
+    const template = await promptTemplateStore.update(req.params.id, { name, description, content });
+
+    console.log(`📝 修改提示词模板: ${template.name} (${template.id}) v${template.version}`);
+    res.json({
+      success: true,
+      message: '提示词模板已修改',
+      data: template
+    });
+  } catch (error) {
+    sendTemplateError(res, '修改提示词模板', error);
+  }
+});
+
+/**
+ * 删除提示词模板，内置模板不能删除
+ * DELETE /api/prompts/:id
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    await promptTemplateStore.ready;
+    await promptTemplateStore.delete(req.params.id);
+
+    console.log(`🗑️ 删除提示词模板: ${req.params.id}`);
+    res.json({
+      success: true,
+      message: '提示词模板已删除'
+    });
+  } catch (error) {
+    sendTemplateError(res, '删除提示词模板', error);
+  }
+});
+
+export default router;
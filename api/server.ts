@@ -5,6 +5,7 @@ import path from 'path';
 import { config } from 'dotenv';
 import booksRouter from './routes/books';
 import aiRouter from './routes/ai';
+import promptsRouter from './routes/prompts';
 
 // 加载环境变量
 config();
@@ -27,6 +28,7 @@ app.use('/uploads', express.static(path.join(process.cwd(), 'uploads')));
 // API路由
 app.use('/api/books', booksRouter);
 app.use('/api/ai', aiRouter);
+app.use('/api/prompts', promptsRouter);
 
 // 健康检查
 app.get('/api/health', (req, res) => {
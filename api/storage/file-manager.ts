@@ -2,8 +2,10 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { promisify } from 'util';
+import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
-import { BookParseSession, OperationLog } from '../types/book.types';
+import { BookParseSession, OperationLog, SessionEvent } from '../types/book.types';
+import { migrateSession } from './session-migrations';
 
 const mkdir = promisify(fs.mkdir);
 const writeFile = promisify(fs.writeFile);
@@ -26,19 +28,25 @@ export class FileManager {
   private sessions: Map<string, BookParseSession> = new Map();
   private logs: Map<string, OperationLog[]> = new Map();
   private cleanupTimer: NodeJS.Timeout | null = null;
+  private events = new EventEmitter();
+  // 目录创建和会话加载完成
+  readonly ready: Promise<void>;
 
   constructor(config: Partial<StorageConfig> = {}) {
     this.config = {
       uploadDir: path.join(process.cwd(), 'uploads'),
       sessionDir: path.join(process.cwd(), 'sessions'),
       maxFileSize: 50 * 1024 * 1024, // 50MB
-      allowedExtensions: ['.epub'],
+      allowedExtensions: ['.epub', '.pdf', '.txt', '.mobi', '.azw3', '.azw', '.fb2', '.fb2.zip', '.docx'],
       cleanupInterval: parseInt(process.env.CLEANUP_INTERVAL || '3600000'), // 默认1小时（毫秒）
       maxAge: parseInt(process.env.MAX_FILE_AGE || '86400000'), // 默认24小时（毫秒）
       ...config
     };
 
-    this.initialize();
+    // 每个SSE连接一个监听器，不限制数量
+    this.events.setMaxListeners(0);
+
+    this.ready = this.initialize();
   }
 
   private async initialize(): Promise<void> {
@@ -62,19 +70,20 @@ export class FileManager {
 
   /**
    * 保存上传的文件
+   * @param extension 按内容识别出的扩展名，未提供时使用原文件名的扩展名
    */
-  async saveUploadedFile(buffer: Buffer, originalName: string): Promise<{
+  async saveUploadedFile(buffer: Buffer, originalName: string, extension?: string): Promise<{
     fileId: string;
     filePath: string;
     session: BookParseSession;
   }> {
     try {
       // 验证文件
-      this.validateFile(buffer, originalName);
+      this.validateFile(buffer, extension || originalName);
       
       // 生成文件ID和路径
       const fileId = uuidv4();
-      const ext = path.extname(originalName);
+      const ext = extension || this.getAllowedExtension(originalName) || path.extname(originalName);
       const fileName = `${fileId}${ext}`;
       const filePath = path.join(this.config.uploadDir, fileName);
       
@@ -140,6 +149,7 @@ export class FileManager {
 
     this.sessions.set(fileId, updatedSession);
     await this.saveSession(updatedSession);
+    this.publish(fileId, { type: 'session', session: this.toEventSession(updatedSession) });
   }
 
   /**
@@ -189,6 +199,43 @@ export class FileManager {
     if (logs.length > 100) {
       logs.splice(0, logs.length - 100);
     }
+
+    this.publish(fileId, { type: 'log', log });
+  }
+
+  /**
+   * 订阅会话实时事件
+   * @returns 取消订阅的函数
+   */
+  subscribe(fileId: string, listener: (event: SessionEvent) => void): () => void {
+    this.events.on(fileId, listener);
+    return () => {
+      this.events.off(fileId, listener);
+    };
+  }
+
+  /**
+   * 发布会话实时事件
+   */
+  publish(fileId: string, event: SessionEvent): void {
+    this.events.emit(fileId, event);
+  }
+
+  /**
+   * 推送给前端的会话：去掉章节正文、结构化内容和注释，避免每次更新都传输整本书
+   */
+  toEventSession(session: BookParseSession): BookParseSession {
+    if (!session.parseResult?.chapters) {
+      return session;
+    }
+
+    return {
+      ...session,
+      parseResult: {
+        ...session.parseResult,
+        chapters: session.parseResult.chapters.map(chapter => ({ ...chapter, content: '', blocks: undefined, notes: undefined }))
+      }
+    };
   }
 
   /**
@@ -240,19 +287,29 @@ export class FileManager {
     };
   }
 
-  private validateFile(buffer: Buffer, originalName: string): void {
+  private validateFile(buffer: Buffer, fileName: string): void {
     // 检查文件大小
     if (buffer.length > this.config.maxFileSize) {
       throw new Error(`文件过大，最大允许 ${this.config.maxFileSize / 1024 / 1024}MB`);
     }
     
     // 检查文件扩展名
-    const ext = path.extname(originalName).toLowerCase();
-    if (!this.config.allowedExtensions.includes(ext)) {
+    if (!this.getAllowedExtension(fileName)) {
       throw new Error(`不支持的文件格式，仅支持: ${this.config.allowedExtensions.join(', ')}`);
     }
   }
 
+  /**
+   * 匹配允许的扩展名，支持.fb2.zip这类多段扩展名，优先匹配最长的
+   */
+  private getAllowedExtension(fileName: string): string | null {
+    const lowerName = fileName.toLowerCase();
+    const matched = this.config.allowedExtensions
+      .filter(ext => lowerName.endsWith(ext))
+      .sort((a, b) => b.length - a.length);
+    return matched.length > 0 ? matched[0] : null;
+  }
+
   private async ensureDirectoryExists(dirPath: string): Promise<void> {
     try {
       await mkdir(dirPath, { recursive: true });
@@ -283,6 +340,12 @@ export class FileManager {
             // 转换日期字符串为Date对象
             session.createdAt = new Date(session.createdAt);
             session.updatedAt = new Date(session.updatedAt);
+
+            // 升级旧格式的分析结果并写回文件
+            if (migrateSession(session)) {
+              await writeFile(sessionPath, JSON.stringify(session, null, 2));
+              console.log(`🔄 会话 ${session.id} 的分析结果已升级为当前格式`);
+            }
             
             this.sessions.set(session.id, session);
           } catch (error) {
@@ -0,0 +1,203 @@
+// 提示词模板存储：内置模板只读，自定义模板按id保存为JSON文件
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import { v4 as uuidv4 } from 'uuid';
+import { PromptTemplate, PromptTemplateKind } from '../types/book.types';
+import { AnalysisType } from '../ai/providers/base-provider';
+import { BUILTIN_PROMPT_TEMPLATES, getBuiltinTemplateId, validateTemplateContent } from '../ai/prompt-templates';
+
+const mkdir = promisify(fs.mkdir);
+const writeFile = promisify(fs.writeFile);
+const readFile = promisify(fs.readFile);
+const readdir = promisify(fs.readdir);
+const unlink = promisify(fs.unlink);
+
+export interface PromptTemplateStoreConfig {
+  templateDir: string; // 自定义模板的保存目录
+}
+
+// 创建或修改模板时可提交的字段
+export type PromptTemplateInput = Pick<PromptTemplate, 'name' | 'kind' | 'content'> & { description?: string };
+
+// 模板不存在、只读或内容不合法时抛出
+export class PromptTemplateError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+export class PromptTemplateStore {
+  private config: PromptTemplateStoreConfig;
+  private templates: Map<string, PromptTemplate> = new Map();
+  // 自定义模板加载完成
+  readonly ready: Promise<void>;
+
+  constructor(config: Partial<PromptTemplateStoreConfig> = {}) {
+    this.config = {
+      templateDir: path.join(process.cwd(), 'sessions', 'prompts'),
+      ...config
+    };
+
+    BUILTIN_PROMPT_TEMPLATES.forEach(template => this.templates.set(template.id, template));
+    this.ready = this.loadTemplates();
+  }
+
+  /**
+   * 获取模板列表，内置模板在前
+   * @param kind 只返回该类型的模板
+   */
+  list(kind?: PromptTemplateKind): PromptTemplate[] {
+    return Array.from(this.templates.values())
+      .filter(template => !kind || template.kind === kind)
+      .sort((a, b) => Number(b.builtin) - Number(a.builtin) || a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  /**
+   * 获取模板
+   */
+  get(id: string): PromptTemplate | null {
+    return this.templates.get(id) || null;
+  }
+
+  /**
+   * 按id获取分析使用的模板：未指定、不存在或类型不符时使用该分析类型的内置模板
+   * @param kind 模板类型
+   * @param id 配置中选择的模板id
+   * @param analysisType 分析类型，用于选择内置的章节分析模板
+   */
+  resolve(kind: PromptTemplateKind, id?: string, analysisType: AnalysisType = 'full'): PromptTemplate {
+    const template = id ? this.templates.get(id) : undefined;
+    if (template && template.kind === kind) {
+      return template;
+    }
+    if (id) {
+      console.warn(`⚠️ [提示词模板] 模板 ${id} 不存在或类型不符，使用内置模板`);
+    }
+    return this.templates.get(getBuiltinTemplateId(kind, analysisType)) || this.templates.get(getBuiltinTemplateId(kind));
+  }
+
+  /**
+   * 创建自定义模板
+   */
+  async create(input: PromptTemplateInput): Promise<PromptTemplate> {
+    this.validate(input);
+
+    const now = new Date();
+    const template: PromptTemplate = {
+      id: uuidv4(),
+      name: input.name.trim(),
+      description: input.description,
+      kind: input.kind,
+      content: input.content,
+      builtin: false,
+      version: 1,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.save(template);
+    return template;
+  }
+
+  /**
+   * 修改自定义模板，版本号加1；模板类型不能修改
+   */
+  async update(id: string, updates: Partial<PromptTemplateInput>): Promise<PromptTemplate> {
+    const existing = this.requireEditable(id);
+    const template: PromptTemplate = {
+      ...existing,
+      name: updates.name !== undefined ? updates.name.trim() : existing.name,
+      description: updates.description !== undefined ? updates.description : existing.description,
+      content: updates.content !== undefined ? updates.content : existing.content,
+      version: existing.version + 1,
+      updatedAt: new Date()
+    };
+    this.validate(template);
+
+    await this.save(template);
+    return template;
+  }
+
+  /**
+   * 删除自定义模板；已选择该模板的配置之后使用内置模板
+   */
+  async delete(id: string): Promise<void> {
+    this.requireEditable(id);
+    this.templates.delete(id);
+
+    try {
+      await unlink(this.getTemplatePath(id));
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  private requireEditable(id: string): PromptTemplate {
+    const template = this.templates.get(id);
+    if (!template) {
+      throw new PromptTemplateError('提示词模板不存在', 404);
+    }
+    if (template.builtin) {
+      throw new PromptTemplateError('内置模板不能修改或删除', 403);
+    }
+    return template;
+  }
+
+  private validate(input: Partial<PromptTemplateInput>): void {
+    if (!input.name || !input.name.trim()) {
+      throw new PromptTemplateError('模板名称不能为空');
+    }
+    if (input.kind !== 'chapterAnalysis' && input.kind !== 'bookSummary') {
+      throw new PromptTemplateError('模板类型必须是chapterAnalysis或bookSummary');
+    }
+
+    const errors = validateTemplateContent(input.kind, input.content);
+    if (errors.length > 0) {
+      throw new PromptTemplateError(`模板内容不合法: ${errors.join('；')}`);
+    }
+  }
+
+  private getTemplatePath(id: string): string {
+    return path.join(this.config.templateDir, `${id}.json`);
+  }
+
+  private async save(template: PromptTemplate): Promise<void> {
+    await mkdir(this.config.templateDir, { recursive: true });
+    await writeFile(this.getTemplatePath(template.id), JSON.stringify(template, null, 2));
+    this.templates.set(template.id, template);
+  }
+
+  private async loadTemplates(): Promise<void> {
+    try {
+      await mkdir(this.config.templateDir, { recursive: true });
+      const files = await readdir(this.config.templateDir);
+
+      for (const file of files) {
+        if (path.extname(file) !== '.json') {
+          continue;
+        }
+
+        try {
+          const template: PromptTemplate = JSON.parse(await readFile(path.join(this.config.templateDir, file), 'utf-8'));
+          template.createdAt = new Date(template.createdAt);
+          template.updatedAt = new Date(template.updatedAt);
+          template.builtin = false;
+          this.templates.set(template.id, template);
+        } catch (error) {
+          console.error(`加载提示词模板失败 [${file}]:`, error);
+        }
+      }
+
+      console.log(`已加载 ${this.templates.size - BUILTIN_PROMPT_TEMPLATES.length} 个自定义提示词模板`);
+    } catch (error) {
+      console.error('加载提示词模板失败:', error);
+    }
+  }
+}
+
+// 服务共用的模板存储，AI提供者按配置中的模板id从这里读取模板
+export const promptTemplateStore = new PromptTemplateStore();
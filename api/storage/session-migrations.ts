@@ -0,0 +1,71 @@
+// 会话数据迁移：加载会话时把旧格式的分析结果升级为当前格式，升级后的会话写回文件
+import { BookParseSession, ChapterAnalysisResult } from '../types/book.types';
+import { ANALYSIS_SCHEMA_VERSION, normalizeArguments } from '../ai/analysis-schema';
+
+// 版本1（没有schemaVersion）的章节分析结果；quotes、themes等字段在版本1中始终为空，迁移时不再保留
+interface LegacyChapterAnalysisResult {
+  chapterIndex: number;
+  chapterTitle?: string;
+  summary?: string;
+  keyPoints?: string[];
+  themes?: string[];
+  arguments?: unknown[];
+  wordCount?: number;
+  analysisDate?: Date | string;
+  promptTemplateId?: string;
+  promptTemplateVersion?: number;
+  outputLanguage?: ChapterAnalysisResult['outputLanguage'];
+}
+
+// 版本1中表示分析失败的摘要
+const FAILED_SUMMARY_PATTERN = /^(解析失败|分析失败)/;
+
+/**
+ * 把版本1的章节分析结果升级为当前格式：summary、keyPoints改为chapter_viewpoint、chapter_keywords，
+ * 论据改为statement、字符串案例和带cited_type的引用
+ * @param legacy 旧格式的分析结果
+ * @param index 结果在会话中的位置，旧结果缺少章节索引时使用
+ */
+export function migrateChapterAnalysisResult(legacy: LegacyChapterAnalysisResult, index: number): ChapterAnalysisResult {
+  const summary = (legacy.summary || '').trim();
+  const keywords = [...new Set([...(legacy.keyPoints || []), ...(legacy.themes || [])].map(keyword => String(keyword).trim()))]
+    .filter(Boolean);
+
+  return {
+    schemaVersion: ANALYSIS_SCHEMA_VERSION,
+    chapterIndex: legacy.chapterIndex ?? index,
+    chapter_title: legacy.chapterTitle || '',
+    chapter_viewpoint: summary,
+    chapter_keywords: keywords,
+    arguments: normalizeArguments(legacy.arguments),
+    wordCount: legacy.wordCount || 0,
+    analysisDate: legacy.analysisDate ? new Date(legacy.analysisDate) : new Date(),
+    ...(FAILED_SUMMARY_PATTERN.test(summary) ? { failed: true } : {}),
+    ...(legacy.promptTemplateId ? { promptTemplateId: legacy.promptTemplateId } : {}),
+    ...(legacy.promptTemplateVersion ? { promptTemplateVersion: legacy.promptTemplateVersion } : {}),
+    ...(legacy.outputLanguage ? { outputLanguage: legacy.outputLanguage } : {})
+  };
+}
+
+/**
+ * 升级会话中的旧格式数据
+ * @param session 从文件加载的会话，原地修改
+ * @returns 是否有数据被升级，需要写回文件
+ */
+export function migrateSession(session: BookParseSession): boolean {
+  const analysis = session.parseResult?.chapterAnalysis;
+  if (!Array.isArray(analysis)) {
+    return false;
+  }
+
+  let migrated = false;
+  session.parseResult.chapterAnalysis = analysis.map((result, index) => {
+    if (!result || result.schemaVersion >= ANALYSIS_SCHEMA_VERSION) {
+      return result;
+    }
+    migrated = true;
+    return migrateChapterAnalysisResult(result as unknown as LegacyChapterAnalysisResult, index);
+  });
+
+  return migrated;
+}
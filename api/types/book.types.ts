@@ -18,6 +18,14 @@ export interface CoverInfo {
   cover_alt_text: string;
 }
 
+// 目录项/章节在书中的角色，前置辅文（版权页、献词等）和后置辅文（致谢、索引等）可在拆分时跳过
+export type ChapterRole =
+  | 'cover' | 'titlepage' | 'copyright' | 'dedication' | 'epigraph' | 'toc'
+  | 'foreword' | 'preface' | 'introduction' | 'prologue'
+  | 'body'
+  | 'epilogue' | 'afterword' | 'appendix' | 'acknowledgements' | 'bibliography'
+  | 'glossary' | 'index' | 'endnotes' | 'about-author' | 'colophon';
+
 // 目录项
 export interface TocItem {
   id: string;
@@ -25,9 +33,10 @@ export interface TocItem {
   level: number;
   href: string;
   parent_id: string | null;
+  role?: ChapterRole; // 前后辅文分类结果
 }
 
-// 章节分析结果（新格式，符合JSON模板）
+// 章节分析结果（符合JSON模板）
 export interface Chapter {
   chapter_title: string;
   chapter_viewpoint: string;
@@ -35,7 +44,7 @@ export interface Chapter {
   arguments: Argument[];
 }
 
-// 论据信息（新格式，符合JSON模板）
+// 论据信息（符合JSON模板）
 export interface Argument {
   statement: string;
   positive_case: string[];
@@ -43,10 +52,13 @@ export interface Argument {
   citations: Citation[];
 }
 
-// 引用信息（新格式，符合JSON模板）
+// 引用类型
+export type CitedType = '书籍' | '文章' | '故事' | '权威观点';
+
+// 引用信息（符合JSON模板）
 export interface Citation {
   cited_source: string;
-  cited_type: '书籍' | '文章' | '故事' | '权威观点';
+  cited_type: CitedType;
   viewpoint: string;
 }
 
@@ -77,6 +89,9 @@ export interface BookSummary {
   core_keywords: { [key: string]: string }; // 关键词列表，作者在书中提出的或者引用的核心概念或者关键词及其含义；dict类型
   tags: string[]; // 给这本书贴10个最合适的标签，list类型
   generatedDate: Date; // 生成日期
+  promptTemplateId?: string; // 使用的提示词模板
+  promptTemplateVersion?: number; // 提示词模板的版本
+  outputLanguage?: OutputLanguage; // 总结的语言
   
   // 保留原有字段以兼容现有代码
   overview?: string;
@@ -89,6 +104,15 @@ export interface BookSummary {
   rating?: number;
 }
 
+// 符合json_template.txt的完整导出，只包含模板规定的字段
+export interface BookTemplateExport {
+  book_info: Pick<BookInfo, 'title' | 'author' | 'translator' | 'publisher' | 'isbn' | 'publication_date' | 'language'>;
+  cover_info: CoverInfo | null;
+  book_summary: Pick<BookSummary, 'book_intro' | 'author_intro' | 'structure' | 'core_problem' | 'keyInsights' | 'core_keywords' | 'tags'> | null;
+  table_of_contents: Omit<TocItem, 'role'>[];
+  chapters: Chapter[];
+}
+
 // 解析结果
 export interface ParseResult {
   bookInfo: BookInfo;
@@ -119,34 +143,44 @@ export interface ChapterStats {
   };
 }
 
-// 章节分析结果
-export interface ChapterAnalysisResult {
+// 章节分析结果：JSON模板中的章节字段加上分析的元数据
+export interface ChapterAnalysisResult extends Chapter {
+  schemaVersion: number; // 分析结果的格式版本，见ANALYSIS_SCHEMA_VERSION
   chapterIndex: number;
-  chapterTitle: string;
-  summary: string;
-  keyPoints: string[];
-  arguments: ArgumentInfo[];
-  quotes: QuoteInfo[];
-  themes: string[];
-  emotions: string[];
-  characters: string[];
-  locations: string[];
   wordCount: number;
   analysisDate: Date;
+  failed?: boolean; // 模型的回复无法解析，结果为占位内容
+  promptTemplateId?: string; // 使用的提示词模板
+  promptTemplateVersion?: number; // 提示词模板的版本，模板修改后可据此区分
+  outputLanguage?: OutputLanguage; // 分析结果的语言
 }
 
-// 论据信息
-export interface ArgumentInfo {
-  point: string;
-  evidence: string;
-  strength: 'strong' | 'medium' | 'weak';
+// 结构化章节内容块类型
+export type ChapterBlockType = 'paragraph' | 'heading' | 'list' | 'quote' | 'footnote' | 'image' | 'table';
+
+// 结构化章节内容块
+export interface ChapterBlock {
+  type: ChapterBlockType;
+  text: string; // 块的纯文本，列表和表格为各项拼接后的文本
+  level?: number; // 标题级别（h1-h6）
+  ordered?: boolean; // 是否为有序列表
+  items?: string[]; // 列表项
+  rows?: string[][]; // 表格行
+  src?: string; // 图片路径
+  alt?: string; // 图片说明
+  id?: string; // 元素id，脚注可据此与引用关联
+  source: {
+    href: string; // 来源文件（EPUB为ZIP内路径，其他格式为目录项href）
+    start: number; // 在来源文本中的起始偏移
+    end: number; // 在来源文本中的结束偏移
+  };
 }
 
-// 引用信息
-export interface QuoteInfo {
-  text: string;
-  context: string;
-  significance: string;
+// 章节注释（脚注或尾注）
+export interface ChapterNote {
+  id: string; // 注释地址（文件路径#锚点）
+  marker: string; // 正文中的引用标记，未被引用的内嵌注释为空
+  text: string; // 注释正文
 }
 
 // 章节内容
@@ -156,6 +190,9 @@ export interface ChapterContent {
   content: string;
   wordCount: number;
   level: number;
+  blocks?: ChapterBlock[]; // 可选的结构化内容，拆分时指定structured才会生成
+  notes?: ChapterNote[]; // 章节中引用的脚注和尾注，不计入正文和字数
+  role?: ChapterRole; // 章节角色，来自对应目录项
 }
 
 // 书籍解析会话
@@ -168,9 +205,17 @@ export interface BookParseSession {
   updatedAt: Date;
   progress: number;
   parseResult?: ParseResult;
+  chapterStatuses?: ChapterAnalysisState[]; // 按章节索引记录的分析状态
   error?: string;
 }
 
+// 章节分析状态
+export interface ChapterAnalysisState {
+  status: 'pending' | 'done' | 'failed';
+  error?: string; // 失败原因
+  updatedAt?: Date;
+}
+
 // 操作日志
 export interface OperationLog {
   id: string;
@@ -183,6 +228,38 @@ export interface OperationLog {
   details?: any;
 }
 
+// 会话实时事件（通过SSE推送）
+export type SessionEvent =
+  | { type: 'snapshot'; session: BookParseSession; logs: OperationLog[] } // 连接建立时的当前状态
+  | { type: 'session'; session: BookParseSession } // 会话状态或解析结果更新
+  | { type: 'log'; log: OperationLog } // 新增操作日志
+  | { type: 'chapter'; chapterIndex: number; completed: number; total: number; result: ChapterAnalysisResult } // 单个章节分析完成
+  | { type: 'job'; job: Job }; // 后台任务状态变化
+
+// 后台任务类型
+export type JobType = 'parse' | 'split' | 'analyze';
+
+// 后台任务状态
+export type JobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+// 后台任务
+export interface Job {
+  id: string;
+  fileId: string;
+  type: JobType;
+  status: JobStatus;
+  params: Record<string, unknown>; // 任务参数，如拆分级别、分析类型、AI配置
+  progress: number; // 任务进度百分比
+  message?: string; // 当前步骤说明
+  attempts: number; // 已执行次数
+  result?: unknown; // 完成后的结果摘要
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
 // 进度状态
 export interface ProgressStatus {
   fileId: string;
@@ -196,4 +273,23 @@ export interface ProgressStatus {
   };
   currentStep: string;
   estimatedTime?: number;
-}
\ No newline at end of file
+}
+
+// 分析结果的输出语言
+export type OutputLanguage = 'zh' | 'en' | 'ja' | 'ko' | 'fr' | 'de' | 'es' | 'ru';
+
+// 提示词模板类型：章节分析或书籍总结
+export type PromptTemplateKind = 'chapterAnalysis' | 'bookSummary';
+
+// 提示词模板
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  kind: PromptTemplateKind;
+  content: string; // 模板正文，变量写作{{title}}、{{content}}、{{bookInfo}}等
+  builtin: boolean; // 内置模板，不能修改或删除
+  version: number; // 每次修改加1
+  createdAt: Date;
+  updatedAt: Date;
+}
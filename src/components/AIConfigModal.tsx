@@ -1,7 +1,16 @@
 import React, { useState, useEffect } from 'react';
-import { X, Settings, Check, AlertCircle, Eye, EyeOff } from 'lucide-react';
+import { X, Settings, Check, AlertCircle, Eye, EyeOff, RefreshCw } from 'lucide-react';
 import { configService, AIProvider, AIConfig } from '../services/configService';
-import { apiService } from '../services/api';
+import { apiService, DiscoveredModel } from '../services/api';
+import { PromptTemplate } from '../types/book';
+
+// 可选择提示词模板的分析类型
+const PROMPT_TEMPLATE_SLOTS: Array<{ key: 'basic' | 'detailed' | 'full' | 'summary'; label: string; kind: PromptTemplate['kind'] }> = [
+  { key: 'basic', label: '基础分析', kind: 'chapterAnalysis' },
+  { key: 'detailed', label: '详细分析', kind: 'chapterAnalysis' },
+  { key: 'full', label: '完整分析', kind: 'chapterAnalysis' },
+  { key: 'summary', label: '书籍总结', kind: 'bookSummary' }
+];
 
 interface AIConfigModalProps {
   isOpen: boolean;
@@ -15,6 +24,10 @@ const AIConfigModal: React.FC<AIConfigModalProps> = ({ isOpen, onClose, onConfig
   const [showApiKey, setShowApiKey] = useState<Partial<Record<AIProvider, boolean>>>({});
   const [testingConnection, setTestingConnection] = useState<AIProvider | null>(null);
   const [connectionStatus, setConnectionStatus] = useState<Partial<Record<AIProvider, boolean | null>>>({});
+  const [discoveredModels, setDiscoveredModels] = useState<Partial<Record<AIProvider, DiscoveredModel[]>>>({});
+  const [discoveringModels, setDiscoveringModels] = useState<AIProvider | null>(null);
+  const [discoveryError, setDiscoveryError] = useState<Partial<Record<AIProvider, string>>>({});
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>([]);
 
   // 提供商信息
   const providerInfo = {
@@ -32,12 +45,43 @@ const AIConfigModal: React.FC<AIConfigModalProps> = ({ isOpen, onClose, onConfig
       name: 'OpenAI',
       description: 'OpenAI GPT模型，通用AI助手',
       website: 'https://platform.openai.com'
+    },
+    anthropic: {
+      name: 'Claude',
+      description: 'Anthropic Claude模型，长上下文',
+      website: 'https://console.anthropic.com'
+    },
+    gemini: {
+      name: 'Gemini',
+      description: 'Google Gemini模型，超长上下文',
+      website: 'https://aistudio.google.com'
+    },
+    qwen: {
+      name: '通义千问',
+      description: '阿里云百炼通义千问模型',
+      website: 'https://bailian.console.aliyun.com'
+    },
+    zhipu: {
+      name: '智谱GLM',
+      description: '智谱AI GLM模型',
+      website: 'https://open.bigmodel.cn'
+    },
+    ollama: {
+      name: 'Ollama',
+      description: '本地运行的开源模型，数据不出本机',
+      website: 'https://ollama.com'
+    },
+    'custom-openai-compatible': {
+      name: '自定义接口',
+      description: 'llama.cpp、vLLM等OpenAI兼容的本地服务',
+      website: 'https://github.com/ggml-org/llama.cpp'
     }
   };
 
   useEffect(() => {
     if (isOpen) {
       loadConfigs();
+      loadPromptTemplates();
     }
   }, [isOpen]);
 
@@ -48,14 +92,24 @@ const AIConfigModal: React.FC<AIConfigModalProps> = ({ isOpen, onClose, onConfig
     const current = configService.getCurrentProvider();
     setCurrentProvider(current);
     
-    const allConfigs = {
-      deepseek: configService.getConfig('deepseek'),
-      kimi: configService.getConfig('kimi'),
-      openai: configService.getConfig('openai')
-    };
+    const providers = Object.keys(configService.getConfigStatus()) as AIProvider[];
+    const allConfigs = Object.fromEntries(providers.map(provider => [provider, configService.getConfig(provider)]));
     setConfigs(allConfigs);
   };
 
+  /**
+   * 加载提示词模板，失败时只能使用内置模板
+   */
+  const loadPromptTemplates = async () => {
+    try {
+      const { templates } = await apiService.getPromptTemplates();
+      setPromptTemplates(templates);
+    } catch (error) {
+      console.error('加载提示词模板失败:', error);
+      setPromptTemplates([]);
+    }
+  };
+
   /**
    * 更新配置
    */
@@ -95,7 +149,7 @@ const AIConfigModal: React.FC<AIConfigModalProps> = ({ isOpen, onClose, onConfig
       const config = configs[provider];
       
       // 验证配置完整性
-      if (!config.apiKey || !config.baseURL || !config.model) {
+      if ((!config.apiKey && configService.requiresApiKey(provider)) || !config.baseURL || !config.model) {
         throw new Error('配置信息不完整');
       }
       
@@ -112,6 +166,55 @@ const AIConfigModal: React.FC<AIConfigModalProps> = ({ isOpen, onClose, onConfig
     }
   };
 
+  /**
+   * 获取本地服务上已安装的模型
+   */
+  const discoverModels = async (provider: AIProvider) => {
+    setDiscoveringModels(provider);
+    setDiscoveryError(prev => ({ ...prev, [provider]: undefined }));
+
+    try {
+      const models = await apiService.discoverModels(configs[provider]);
+      setDiscoveredModels(prev => ({ ...prev, [provider]: models }));
+      if (models.length === 0) {
+        setDiscoveryError(prev => ({ ...prev, [provider]: '服务上没有已安装的模型' }));
+      }
+    } catch (error) {
+      const message = error.response?.data?.message || error.message;
+      setDiscoveryError(prev => ({ ...prev, [provider]: message }));
+    } finally {
+      setDiscoveringModels(null);
+    }
+  };
+
+  /**
+   * 选择发现的模型，同时使用其上下文长度
+   */
+  const selectDiscoveredModel = (provider: AIProvider, modelId: string) => {
+    const model = discoveredModels[provider]?.find(item => item.id === modelId);
+    setConfigs(prev => ({
+      ...prev,
+      [provider]: {
+        ...prev[provider],
+        model: modelId,
+        contextWindow: model?.contextWindow ?? prev[provider]?.contextWindow
+      }
+    }));
+  };
+
+  /**
+   * 选择某个分析类型使用的提示词模板，空值表示使用内置模板
+   */
+  const updatePromptTemplate = (provider: AIProvider, key: keyof NonNullable<AIConfig['promptTemplates']>, templateId: string) => {
+    const promptTemplatesConfig = { ...configs[provider]?.promptTemplates };
+    if (templateId) {
+      promptTemplatesConfig[key] = templateId;
+    } else {
+      delete promptTemplatesConfig[key];
+    }
+    updateConfig(provider, 'promptTemplates', promptTemplatesConfig);
+  };
+
   /**
    * 切换API密钥显示
    */
@@ -185,6 +288,7 @@ const AIConfigModal: React.FC<AIConfigModalProps> = ({ isOpen, onClose, onConfig
             const config = configs[provider];
             const info = providerInfo[provider];
             const isVisible = currentProvider === provider;
+            const requiresApiKey = configService.requiresApiKey(provider);
             
             if (!isVisible || !config) return null;
             
@@ -221,14 +325,14 @@ const AIConfigModal: React.FC<AIConfigModalProps> = ({ isOpen, onClose, onConfig
                   {/* API密钥 */}
                   <div className="col-span-2">
                     <label className="block text-sm font-medium text-gray-700 mb-1">
-                      API密钥 *
+                      {requiresApiKey ? 'API密钥 *' : 'API密钥（可选）'}
                     </label>
                     <div className="relative">
                       <input
                         type={showApiKey[provider] ? 'text' : 'password'}
                         value={config.apiKey}
                         onChange={(e) => updateConfig(provider, 'apiKey', e.target.value)}
-                        placeholder="请输入API密钥"
+                        placeholder={requiresApiKey ? '请输入API密钥' : '本地服务通常不需要密钥'}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 pr-10"
                       />
                       <button
@@ -263,10 +367,65 @@ const AIConfigModal: React.FC<AIConfigModalProps> = ({ isOpen, onClose, onConfig
                     <label className="block text-sm font-medium text-gray-700 mb-1">
                       模型名称
                     </label>
+                    {requiresApiKey ? (
+                      <input
+                        type="text"
+                        value={config.model}
+                        onChange={(e) => updateConfig(provider, 'model', e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    ) : (
+                      <div className="flex space-x-2">
+                        {discoveredModels[provider]?.length ? (
+                          <select
+                            value={config.model}
+                            onChange={(e) => selectDiscoveredModel(provider, e.target.value)}
+                            className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          >
+                            {!discoveredModels[provider].some(model => model.id === config.model) && (
+                              <option value={config.model}>{config.model}</option>
+                            )}
+                            {discoveredModels[provider].map(model => (
+                              <option key={model.id} value={model.id}>
+                                {model.id}{model.contextWindow ? `（${model.contextWindow} tokens）` : ''}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          <input
+                            type="text"
+                            value={config.model}
+                            onChange={(e) => updateConfig(provider, 'model', e.target.value)}
+                            className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => discoverModels(provider)}
+                          disabled={discoveringModels === provider}
+                          title="获取已安装的模型"
+                          className="px-3 py-2 border border-gray-300 rounded-md text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          <RefreshCw className={`h-4 w-4 ${discoveringModels === provider ? 'animate-spin' : ''}`} />
+                        </button>
+                      </div>
+                    )}
+                    {discoveryError[provider] && (
+                      <p className="mt-1 text-xs text-red-600">{discoveryError[provider]}</p>
+                    )}
+                  </div>
+                  
+                  {/* 上下文长度 */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      上下文长度(Token)
+                    </label>
                     <input
-                      type="text"
-                      value={config.model}
-                      onChange={(e) => updateConfig(provider, 'model', e.target.value)}
+                      type="number"
+                      min="1024"
+                      value={config.contextWindow ?? ''}
+                      placeholder="按模型名推断"
+                      onChange={(e) => updateConfig(provider, 'contextWindow', e.target.value === '' ? undefined : parseInt(e.target.value))}
                       className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                     />
                   </div>
@@ -330,6 +489,80 @@ const AIConfigModal: React.FC<AIConfigModalProps> = ({ isOpen, onClose, onConfig
                       className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                     />
                   </div>
+                  
+                  {/* 并发请求数 */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      并发请求数
+                    </label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="20"
+                      value={config.concurrency ?? ''}
+                      placeholder="使用默认值"
+                      onChange={(e) => updateConfig(provider, 'concurrency', e.target.value === '' ? undefined : parseInt(e.target.value))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  
+                  {/* 每分钟请求数 */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      每分钟请求数
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={config.requestsPerMinute ?? ''}
+                      placeholder="使用默认值"
+                      onChange={(e) => updateConfig(provider, 'requestsPerMinute', e.target.value === '' ? undefined : parseInt(e.target.value))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  
+                  {/* 每分钟Token数 */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      每分钟Token数
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={config.tokensPerMinute ?? ''}
+                      placeholder="使用默认值"
+                      onChange={(e) => updateConfig(provider, 'tokensPerMinute', e.target.value === '' ? undefined : parseInt(e.target.value))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+                
+                {/* 提示词模板 */}
+                <div>
+                  <h4 className="text-sm font-medium text-gray-900 mb-2">提示词模板</h4>
+                  <div className="grid grid-cols-2 gap-4">
+                    {PROMPT_TEMPLATE_SLOTS.map(slot => (
+                      <div key={slot.key}>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          {slot.label}
+                        </label>
+                        <select
+                          value={config.promptTemplates?.[slot.key] ?? ''}
+                          onChange={(e) => updatePromptTemplate(provider, slot.key, e.target.value)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="">内置模板</option>
+                          {promptTemplates
+                            .filter(template => template.kind === slot.kind && !template.builtin)
+                            .map(template => (
+                              <option key={template.id} value={template.id}>
+                                {template.name} (v{template.version})
+                              </option>
+                            ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
                 </div>
                 
                 {/* 获取API密钥提示 */}
@@ -338,7 +571,7 @@ const AIConfigModal: React.FC<AIConfigModalProps> = ({ isOpen, onClose, onConfig
                     <AlertCircle className="h-5 w-5 text-blue-600 mt-0.5" />
                     <div>
                       <p className="text-sm text-blue-800">
-                        如需获取 {info.name} API密钥，请访问：
+                        {requiresApiKey ? `如需获取 ${info.name} API密钥，请访问：` : `${info.name} 在本地运行，分析内容不会发送到外部服务，安装和使用说明：`}
                         <a
                           href={info.website}
                           target="_blank"
@@ -0,0 +1,89 @@
+import React from 'react';
+import { Image } from 'lucide-react';
+import { ChapterBlock } from '../types/book';
+
+interface ChapterBlocksProps {
+  blocks: ChapterBlock[];
+  className?: string;
+}
+
+const headingClasses: Record<number, string> = {
+  1: 'text-xl font-bold',
+  2: 'text-lg font-semibold',
+  3: 'text-base font-semibold'
+};
+
+const ChapterBlocks: React.FC<ChapterBlocksProps> = ({ blocks, className = '' }) => {
+  // 脚注集中显示在正文之后
+  const bodyBlocks = blocks.filter(block => block.type !== 'footnote');
+  const footnotes = blocks.filter(block => block.type === 'footnote');
+
+  const renderBlock = (block: ChapterBlock, index: number) => {
+    switch (block.type) {
+      case 'heading':
+        return (
+          <div key={index} className={`${headingClasses[block.level || 3] || 'font-semibold'} text-gray-900 mt-4`}>
+            {block.text}
+          </div>
+        );
+      case 'list': {
+        const ListTag = block.ordered ? 'ol' : 'ul';
+        return (
+          <ListTag key={index} className={`${block.ordered ? 'list-decimal' : 'list-disc'} pl-6 space-y-1`}>
+            {(block.items || []).map((item, itemIndex) => (
+              <li key={itemIndex}>{item}</li>
+            ))}
+          </ListTag>
+        );
+      }
+      case 'quote':
+        return (
+          <blockquote key={index} className="border-l-4 border-gray-300 pl-4 italic text-gray-600">
+            {block.text}
+          </blockquote>
+        );
+      case 'table':
+        return (
+          <div key={index} className="overflow-x-auto">
+            <table className="min-w-full border border-gray-200 text-xs">
+              <tbody>
+                {(block.rows || []).map((row, rowIndex) => (
+                  <tr key={rowIndex} className="border-b border-gray-200">
+                    {row.map((cell, cellIndex) => (
+                      <td key={cellIndex} className="px-2 py-1 border-r border-gray-200">{cell}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'image':
+        // 图片位于电子书内部，这里只显示说明文字
+        return (
+          <div key={index} className="flex items-center space-x-2 text-xs text-gray-400">
+            <Image className="h-4 w-4" />
+            <span>{block.alt || block.src}</span>
+          </div>
+        );
+      default:
+        return <p key={index}>{block.text}</p>;
+    }
+  };
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      {bodyBlocks.map(renderBlock)}
+
+      {footnotes.length > 0 && (
+        <div className="mt-4 pt-3 border-t border-gray-200 space-y-1 text-xs text-gray-500">
+          {footnotes.map((note, index) => (
+            <p key={index} id={note.id}>{note.text}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChapterBlocks;
@@ -1,6 +1,10 @@
 import React, { useState, useRef } from 'react';
 import { Upload, File, CheckCircle, AlertCircle } from 'lucide-react';
 
+// 支持上传的电子书格式
+const SUPPORTED_EXTENSIONS = ['.epub', '.pdf', '.txt', '.mobi', '.azw3', '.azw', '.fb2', '.fb2.zip', '.docx'];
+const SUPPORTED_FORMAT_LABEL = SUPPORTED_EXTENSIONS.map(ext => ext.slice(1).toUpperCase()).join('、');
+
 interface FileUploadProps {
   onFileSelect: (file: File) => void;
   isUploading?: boolean;
@@ -19,8 +23,9 @@ const FileUpload: React.FC<FileUploadProps> = ({
 
   const validateFile = (file: File): boolean => {
     // 检查文件类型
-    if (!file.name.toLowerCase().endsWith('.epub')) {
-      setError('请选择EPUB格式的电子书文件');
+    const fileName = file.name.toLowerCase();
+    if (!SUPPORTED_EXTENSIONS.some(ext => fileName.endsWith(ext))) {
+      setError(`请选择${SUPPORTED_FORMAT_LABEL}格式的电子书文件`);
       return false;
     }
 
@@ -103,7 +108,7 @@ const FileUpload: React.FC<FileUploadProps> = ({
         <input
           ref={fileInputRef}
           type="file"
-          accept=".epub"
+          accept={SUPPORTED_EXTENSIONS.join(',')}
           onChange={handleInputChange}
           className="hidden"
           disabled={isUploading}
@@ -124,13 +129,13 @@ const FileUpload: React.FC<FileUploadProps> = ({
             <p className="text-sm text-gray-600 mt-1">
               {selectedFile
                 ? '点击重新选择文件'
-                : '拖拽EPUB文件到此处，或点击选择文件'
+                : '拖拽电子书文件到此处，或点击选择文件'
               }
             </p>
           </div>
 
           <div className="text-xs text-gray-500">
-            支持格式：EPUB | 最大文件大小：50MB
+            支持格式：{SUPPORTED_FORMAT_LABEL} | 最大文件大小：50MB
           </div>
         </div>
 
@@ -163,7 +168,7 @@ const FileUpload: React.FC<FileUploadProps> = ({
                 {selectedFile.name}
               </h4>
               <p className="text-sm text-gray-500">
-                {formatFileSize(selectedFile.size)} • EPUB格式
+                {formatFileSize(selectedFile.size)} • {selectedFile.name.split('.').pop()?.toUpperCase()}格式
               </p>
             </div>
             <CheckCircle className="h-5 w-5 text-green-500" />
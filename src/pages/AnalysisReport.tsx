@@ -1,8 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { useSearchParams, useNavigate } from 'react-router-dom';
 import { Brain, BookOpen, Download, Copy, Play, CheckCircle, Clock, Tag, RotateCcw, Zap, ChevronDown, ChevronUp } from 'lucide-react';
-import apiService from '../services/api';
-import { BookParseSession, ChapterAnalysisResult, BookSummary, ArgumentInfo } from '../types/book';
+import apiService, { TemplateExport } from '../services/api';
+import { BookParseSession, ChapterAnalysisResult, BookSummary, Argument, OutputLanguageOption } from '../types/book';
 import { historyManager } from '../utils/historyManager';
 
 // 本地章节数据类型（用于UI显示）
@@ -11,7 +11,7 @@ interface Chapter {
   chapter_title: string;
   chapter_viewpoint: string;
   chapter_keywords: string[];
-  arguments: ArgumentInfo[];
+  arguments: Argument[];
   analyzed: boolean;
 }
 
@@ -20,6 +20,21 @@ interface LocalBookSummary extends BookSummary {
   generated: boolean;
 }
 
+// 分析结果的输出语言选项，auto表示跟随书籍语言
+const OUTPUT_LANGUAGE_OPTIONS: Array<{ value: OutputLanguageOption; label: string }> = [
+  { value: 'auto', label: '跟随书籍' },
+  { value: 'zh', label: '简体中文' },
+  { value: 'en', label: 'English' },
+  { value: 'ja', label: '日本語' },
+  { value: 'ko', label: '한국어' },
+  { value: 'fr', label: 'Français' },
+  { value: 'de', label: 'Deutsch' },
+  { value: 'es', label: 'Español' },
+  { value: 'ru', label: 'Русский' }
+];
+
+const OUTPUT_LANGUAGE_KEY = 'output_language';
+
 const AnalysisReport: React.FC = () => {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
@@ -82,6 +97,20 @@ const AnalysisReport: React.FC = () => {
   // JSON展开/收缩状态
   const [isJsonExpanded, setIsJsonExpanded] = useState(false);
 
+  // 服务端导出及其校验报告
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportValidation, setExportValidation] = useState<TemplateExport['validation'] | null>(null);
+
+  // 输出语言，保存在本地，章节分析和书籍总结共用
+  const [outputLanguage, setOutputLanguage] = useState<OutputLanguageOption>(
+    () => (localStorage.getItem(OUTPUT_LANGUAGE_KEY) as OutputLanguageOption) || 'zh'
+  );
+
+  const handleOutputLanguageChange = (language: OutputLanguageOption) => {
+    setOutputLanguage(language);
+    localStorage.setItem(OUTPUT_LANGUAGE_KEY, language);
+  };
+
   /**
    * 从API获取会话数据和章节数据
    */
@@ -142,8 +171,8 @@ const AnalysisReport: React.FC = () => {
                return {
                  id: chapter.index?.toString() || `chapter-${index}`,
                  chapter_title: chapter.title || `第${index + 1}章`,
-                 chapter_viewpoint: analysis?.summary || '',
-                 chapter_keywords: analysis?.keyPoints || [],
+                 chapter_viewpoint: analysis?.chapter_viewpoint || '',
+                 chapter_keywords: analysis?.chapter_keywords || [],
                  arguments: analysis?.arguments || [],
                  analyzed: analysis ? true : false
                };
@@ -269,7 +298,7 @@ const AnalysisReport: React.FC = () => {
       console.log(`[DEBUG] 开始单章节分析，章节ID: ${chapterId}, 章节索引: ${chapterIndex}`);
       
       // 调用后端API进行单章节分析
-      const { analysisResults } = await apiService.analyzeChapters(fileId, [chapterIndex], 'full');
+      const { analysisResults } = await apiService.analyzeChapters(fileId, [chapterIndex], 'full', false, outputLanguage);
       
       console.log(`[DEBUG] 单章节分析结果:`, analysisResults);
       
@@ -287,8 +316,8 @@ const AnalysisReport: React.FC = () => {
             if (ch.id === chapterId) {
               return {
                 ...ch,
-                chapter_viewpoint: analysisResult.summary || ch.chapter_viewpoint,
-                chapter_keywords: analysisResult.keyPoints || ch.chapter_keywords,
+                chapter_viewpoint: analysisResult.chapter_viewpoint || ch.chapter_viewpoint,
+                chapter_keywords: analysisResult.chapter_keywords || ch.chapter_keywords,
                 arguments: analysisResult.arguments || ch.arguments,
                 analyzed: true
               };
@@ -375,12 +404,35 @@ const AnalysisReport: React.FC = () => {
       return;
     }
 
+    // 已有章节完成分析时只继续分析未完成的章节
+    const resume = analyzedCount > 0;
+
+    // 分析前提示预估用量，预估失败不影响分析
+    try {
+      const { total } = await apiService.estimateAnalysis(fileId, undefined, 'full', resume);
+      const costText = Object.entries(total.costByCurrency)
+        .map(([currency, cost]) => `${cost.toFixed(4)} ${currency}`)
+        .join(' + ');
+      const confirmed = window.confirm(
+        `预计调用AI ${total.requests} 次，消耗约 ${total.totalTokens.toLocaleString()} tokens` +
+        `（输入 ${total.promptTokens.toLocaleString()}，输出 ${total.completionTokens.toLocaleString()}）` +
+        (costText ? `，费用约 ${costText}` : '') +
+        (total.unpricedModels.length > 0 ? `\n未知价格的模型：${total.unpricedModels.join('、')}` : '') +
+        '\n\n是否继续分析？'
+      );
+      if (!confirmed) {
+        return;
+      }
+    } catch (error) {
+      console.warn('用量预估失败，继续分析:', error);
+    }
+
     setIsAnalyzing(true);
     setError(null); // 清除之前的错误
     
     try {
       // 调用后端API进行章节分析
-      const { session: updatedSession, analysisResults, bookSummary: summary } = await apiService.analyzeChapters(fileId);
+      const { session: updatedSession, analysisResults, bookSummary: summary } = await apiService.analyzeChapters(fileId, undefined, 'full', resume, outputLanguage);
       
       // 更新会话状态
       setSession(updatedSession);
@@ -392,8 +444,8 @@ const AnalysisReport: React.FC = () => {
            if (analysisResult) {
              return {
                ...chapter,
-               chapter_viewpoint: analysisResult.summary || chapter.chapter_viewpoint,
-               chapter_keywords: analysisResult.keyPoints || chapter.chapter_keywords,
+               chapter_viewpoint: analysisResult.chapter_viewpoint || chapter.chapter_viewpoint,
+               chapter_keywords: analysisResult.chapter_keywords || chapter.chapter_keywords,
                arguments: analysisResult.arguments || chapter.arguments,
                analyzed: true
              };
@@ -436,7 +488,7 @@ const AnalysisReport: React.FC = () => {
       console.log('[DEBUG] 开始生成书籍总结...');
       
       // 调用后端API生成书籍总结
-      const { session: updatedSession, bookSummary: generatedSummary } = await apiService.generateBookSummary(fileId);
+      const { session: updatedSession, bookSummary: generatedSummary } = await apiService.generateBookSummary(fileId, outputLanguage);
       
       console.log('[DEBUG] 书籍总结生成成功:', generatedSummary);
       
@@ -492,18 +544,19 @@ const AnalysisReport: React.FC = () => {
   };
 
   /**
-   * 处理下载JSON文件
+   * 保存下载的文件
    * 根据书籍标题生成文件名
+   * @param blob 文件内容
+   * @param suffix 书名之后的文件名后缀（含扩展名）
+   * @param defaultName 没有书籍标题时的文件名
    */
-  const handleDownloadJSON = () => {
-    const jsonData = JSON.stringify(generateFinalJSON(), null, 2);
-    const blob = new Blob([jsonData], { type: 'application/json' });
+  const saveFile = (blob: Blob, suffix: string, defaultName: string) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
     
     // 生成基于书籍标题的文件名
-    let fileName = 'book_analysis_result.json'; // 默认文件名
+    let fileName = defaultName;
     
     // 尝试从多个来源获取书籍标题
     const bookTitle = bookInfo?.title || 
@@ -518,7 +571,7 @@ const AnalysisReport: React.FC = () => {
         .trim();
       
       if (cleanTitle) {
-        fileName = `${cleanTitle}_分析报告.json`;
+        fileName = `${cleanTitle}${suffix}`;
       }
     }
     
@@ -529,6 +582,55 @@ const AnalysisReport: React.FC = () => {
     URL.revokeObjectURL(url);
   };
 
+  /**
+   * 处理下载JSON文件
+   * 由服务端按json_template.txt组装并校验
+   */
+  const handleDownloadJSON = async () => {
+    if (!fileId) {
+      alert('缺少文件ID，无法导出');
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const { content, validation } = await apiService.exportTemplate(fileId);
+      setExportValidation(validation);
+      const blob = new Blob([JSON.stringify(content, null, 2)], { type: 'application/json' });
+      saveFile(blob, '_分析报告.json', 'book_analysis_result.json');
+    } catch (error) {
+      alert(`导出失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  /**
+   * 下载Markdown文档、Obsidian库或PDF报告
+   */
+  const handleDownloadExport = async (format: 'markdown' | 'obsidian' | 'pdf') => {
+    if (!fileId) {
+      alert('缺少文件ID，无法导出');
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const blob = await apiService.downloadExport(fileId, format);
+      if (format === 'markdown') {
+        saveFile(blob, '_分析报告.md', 'book_analysis_result.md');
+      } else if (format === 'pdf') {
+        saveFile(blob, '_分析报告.pdf', 'book_analysis_report.pdf');
+      } else {
+        saveFile(blob, '_Obsidian.zip', 'book_analysis_obsidian.zip');
+      }
+    } catch (error) {
+      alert(`导出失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   /**
    * 检测章节是否解析失败
    * @param chapter 章节对象
@@ -593,6 +695,21 @@ const AnalysisReport: React.FC = () => {
               </h2>
               
               <div className="flex items-center space-x-3">
+                {/* 输出语言 */}
+                <select
+                  value={outputLanguage}
+                  onChange={(e) => handleOutputLanguageChange(e.target.value as OutputLanguageOption)}
+                  disabled={isAnalyzing || isGeneratingSummary}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  title="章节分析和书籍总结的输出语言"
+                >
+                  {OUTPUT_LANGUAGE_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>
+                      输出语言：{option.label}
+                    </option>
+                  ))}
+                </select>
+
                 {/* 重新开始按钮 */}
                 {(analyzedCount > 0 || error) && (
                   <button
@@ -994,15 +1111,75 @@ const AnalysisReport: React.FC = () => {
                 
                 <button
                   onClick={handleDownloadJSON}
+                  disabled={isExporting}
                   className="
                     flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg
-                    hover:bg-blue-700 transition-colors
+                    hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors
+                  "
+                >
+                  <Download className="h-4 w-4" />
+                  <span>{isExporting ? '导出中...' : '下载JSON文件'}</span>
+                </button>
+
+                <button
+                  onClick={() => handleDownloadExport('markdown')}
+                  disabled={isExporting}
+                  className="
+                    flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg
+                    hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors
+                  "
+                >
+                  <Download className="h-4 w-4" />
+                  <span>下载Markdown</span>
+                </button>
+
+                <button
+                  onClick={() => handleDownloadExport('obsidian')}
+                  disabled={isExporting}
+                  className="
+                    flex items-center space-x-2 px-4 py-2 bg-purple-600 text-white rounded-lg
+                    hover:bg-purple-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors
                   "
+                  title="每章一篇笔记，关键词与章节以双链关联"
                 >
                   <Download className="h-4 w-4" />
-                  <span>下载JSON文件</span>
+                  <span>导出Obsidian库</span>
+                </button>
+
+                <button
+                  onClick={() => handleDownloadExport('pdf')}
+                  disabled={isExporting}
+                  className="
+                    flex items-center space-x-2 px-4 py-2 bg-red-600 text-white rounded-lg
+                    hover:bg-red-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors
+                  "
+                  title="可打印的分析报告，包含封面、书籍总结、核心洞察和各章节论据"
+                >
+                  <Download className="h-4 w-4" />
+                  <span>下载PDF报告</span>
                 </button>
               </div>
+
+              {/* 导出校验结果 */}
+              {exportValidation && (
+                exportValidation.valid ? (
+                  <p className="mt-4 text-sm text-green-700">导出结果完整，符合JSON模板</p>
+                ) : (
+                  <div className="mt-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                    {exportValidation.missingFields.length > 0 && (
+                      <>
+                        <p className="font-medium">缺失 {exportValidation.missingFields.length} 个字段：</p>
+                        <p className="mt-1 break-all">{exportValidation.missingFields.join('、')}</p>
+                      </>
+                    )}
+                    {exportValidation.errors.length > 0 && (
+                      <ul className="mt-2 list-disc list-inside">
+                        {exportValidation.errors.map(error => <li key={error}>{error}</li>)}
+                      </ul>
+                    )}
+                  </div>
+                )
+              )}
             </div>
           </div>
         </div>
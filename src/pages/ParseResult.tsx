@@ -2,8 +2,33 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { useParams, useLocation, useNavigate } from 'react-router-dom';
 import { ChevronRight, ChevronDown, Book, User, Calendar, Building, Hash, Globe, Scissors, Play, Loader2, AlertCircle, ArrowRight } from 'lucide-react';
 import { apiService } from '../services/api';
-import { BookParseSession, ParseResult as ParseResultType, BookInfo, CoverInfo, TableOfContentsItem, ChapterContent, ChapterStats } from '../types/book';
+import { BookParseSession, ParseResult as ParseResultType, BookInfo, CoverInfo, TableOfContentsItem, ChapterContent, ChapterStats, ChapterRole } from '../types/book';
 import { historyManager } from '../utils/historyManager';
+import ChapterBlocks from '../components/ChapterBlocks';
+
+// 非正文角色的显示名称
+const ROLE_LABELS: Partial<Record<ChapterRole, string>> = {
+  cover: '封面',
+  titlepage: '扉页',
+  copyright: '版权页',
+  dedication: '献词',
+  epigraph: '题记',
+  toc: '目录',
+  foreword: '序',
+  preface: '前言',
+  introduction: '导言',
+  prologue: '序章',
+  epilogue: '尾声',
+  afterword: '后记',
+  appendix: '附录',
+  acknowledgements: '致谢',
+  bibliography: '参考文献',
+  glossary: '术语表',
+  index: '索引',
+  endnotes: '注释',
+  'about-author': '作者简介',
+  colophon: '版本说明'
+};
 
 // 使用从book.ts导入的类型，移除本地重复定义
 // BookInfo, CoverInfo, TableOfContentsItem 已从 '../types/book' 导入
@@ -34,6 +59,7 @@ const ParseResult: React.FC = () => {
   
   const actualFileId = getActualFileId();
   const [selectedLevel, setSelectedLevel] = useState(1);
+  const [skipNonBody, setSkipNonBody] = useState(true);
   const [isSplitting, setIsSplitting] = useState(false);
   const [isSplitCompleted, setIsSplitCompleted] = useState(false);
   const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set());
@@ -101,7 +127,7 @@ const ParseResult: React.FC = () => {
       console.log('📡 调用API进行章节拆分...');
       console.log('API参数:', { fileId: actualFileId, level: selectedLevel });
       
-      const result = await apiService.splitChapters(actualFileId, selectedLevel);
+      const result = await apiService.splitChapters(actualFileId, selectedLevel, true, skipNonBody);
       console.log('✅ 章节拆分API调用成功:', result);
       
       const { session: updatedSession } = result;
@@ -153,7 +179,7 @@ const ParseResult: React.FC = () => {
       console.log('🔄 设置拆分状态为false');
       setIsSplitting(false);
     }
-  }, [actualFileId, selectedLevel, isSplitting, tocStructure, session, parseResult, loading, error, location.state, fileId]);
+  }, [actualFileId, selectedLevel, skipNonBody, isSplitting, tocStructure, session, parseResult, loading, error, location.state, fileId]);
 
   /**
    * 跳转到分析报告页面
@@ -305,6 +331,13 @@ const ParseResult: React.FC = () => {
 
             {/* 标题 */}
             <span className="font-medium">{item.title}</span>
+
+            {/* 前后辅文标签 */}
+            {item.role && ROLE_LABELS[item.role] && (
+              <span className="text-xs px-2 py-0.5 rounded-full bg-gray-200 text-gray-600">
+                {ROLE_LABELS[item.role]}
+              </span>
+            )}
           </div>
 
           {/* 层级标签 */}
@@ -528,6 +561,17 @@ const ParseResult: React.FC = () => {
                     </label>
                   ))}
                 </div>
+                <label className="flex items-center space-x-3 cursor-pointer mt-4">
+                  <input
+                    type="checkbox"
+                    checked={skipNonBody}
+                    onChange={(e) => setSkipNonBody(e.target.checked)}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <span className="text-sm text-gray-700">
+                    跳过版权页、献词、致谢、索引等非正文内容
+                  </span>
+                </label>
               </div>
 
               {/* 操作按钮 */}
@@ -662,6 +706,9 @@ const ParseResult: React.FC = () => {
                             <span>第 {chapter.index + 1} 章</span>
                             <span>{chapter.level} 级目录</span>
                             <span>{chapter.wordCount} 字</span>
+                            {chapter.role && ROLE_LABELS[chapter.role] && (
+                              <span>{ROLE_LABELS[chapter.role]}</span>
+                            )}
                           </div>
                         </div>
                         <button
@@ -685,7 +732,20 @@ const ParseResult: React.FC = () => {
                       {/* 章节内容 */}
                       <div className="text-gray-700 text-sm leading-relaxed">
                         {isExpanded ? (
-                          <div className="whitespace-pre-wrap">{chapter.content}</div>
+                          chapter.blocks && chapter.blocks.length > 0 ? (
+                            <ChapterBlocks blocks={chapter.blocks} />
+                          ) : (
+                            <>
+                              <div className="whitespace-pre-wrap">{chapter.content}</div>
+                              {chapter.notes && chapter.notes.length > 0 && (
+                                <div className="mt-4 pt-3 border-t border-gray-200 space-y-1 text-xs text-gray-500">
+                                  {chapter.notes.map((note, noteIndex) => (
+                                    <p key={noteIndex}>{note.marker && `[${note.marker}] `}{note.text}</p>
+                                  ))}
+                                </div>
+                              )}
+                            </>
+                          )
                         ) : (
                           <div>{previewContent}</div>
                         )}
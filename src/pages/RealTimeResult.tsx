@@ -1,5 +1,9 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { useSearchParams, useLocation } from 'react-router-dom';
 import { Eye, CheckCircle, Clock, AlertCircle, ChevronDown, ChevronRight, Copy, RefreshCw } from 'lucide-react';
+import { apiService } from '../services/api';
+import { historyManager } from '../utils/historyManager';
+import { BookParseSession, OperationLog, SessionEvent } from '../types/book';
 
 // 数据类型定义
 interface ProgressStatus {
@@ -27,9 +31,23 @@ interface RealTimeResult {
   lastUpdated: Date;
 }
 
+// 分析阶段在整体进度中的起点（与后端analyze接口一致）
+const ANALYZE_PROGRESS_START = 80;
+
 const RealTimeResult: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const location = useLocation();
+
+  // 获取文件ID，优先使用URL参数，其次是历史记录页面传入的记录ID，最后使用最近的记录
+  const getFileId = (): string => {
+    return searchParams.get('fileId')
+      || (location.state as { recordId?: string } | null)?.recordId
+      || historyManager.getLatestRecord()?.id
+      || '';
+  };
+
   const [result, setResult] = useState<RealTimeResult>({
-    fileId: '',
+    fileId: getFileId(),
     progress: {
       fileId: '',
       overall: 0,
@@ -48,22 +66,95 @@ const RealTimeResult: React.FC = () => {
 
   const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set(['progress', 'bookInfo']));
   const [autoRefresh, setAutoRefresh] = useState(true);
+  const [logs, setLogs] = useState<OperationLog[]>([]);
+  const analyzeStartedAt = useRef<number | null>(null);
 
-  // TODO: 实时数据更新 - 从后端API获取真实进度数据
+  // 实时数据更新：通过SSE接收会话状态、操作日志和章节分析结果
   useEffect(() => {
     if (!autoRefresh || !result.fileId) return;
 
-    const interval = setInterval(async () => {
-      try {
-        // TODO: 调用后端API获取实时进度
-        // const progressData = await apiService.getProgress(result.fileId);
-        // setResult(prev => ({ ...prev, ...progressData, lastUpdated: new Date() }));
-      } catch (error) {
-        console.error('获取进度数据失败:', error);
+    const applySession = (session: BookParseSession) => {
+      const parseResult = session.parseResult;
+      const analysis = parseResult?.chapterAnalysis || [];
+      const chapterCount = parseResult?.chapters?.length || 0;
+
+      if (session.status === 'analyzing' && analyzeStartedAt.current === null) {
+        analyzeStartedAt.current = Date.now();
       }
-    }, 3000);
 
-    return () => clearInterval(interval);
+      setResult(prev => ({
+        ...prev,
+        bookInfo: parseResult?.bookInfo,
+        coverInfo: parseResult?.coverInfo,
+        tableOfContents: parseResult?.tableOfContents,
+        chapters: analysis.length > 0 ? analysis : prev.chapters,
+        bookSummary: parseResult?.bookSummary,
+        progress: {
+          ...prev.progress,
+          fileId: session.id,
+          overall: session.progress,
+          modules: {
+            upload: true,
+            parse: !!parseResult?.bookInfo,
+            split: chapterCount > 0,
+            analyze: chapterCount > 0 && analysis.filter(Boolean).length >= chapterCount,
+            summary: !!parseResult?.bookSummary
+          },
+          currentStep: session.status === 'error' ? `出错: ${session.error || '未知错误'}` : prev.progress.currentStep
+        },
+        lastUpdated: new Date()
+      }));
+    };
+
+    const handleEvent = (event: SessionEvent) => {
+      switch (event.type) {
+        case 'snapshot':
+          setLogs(event.logs);
+          applySession(event.session);
+          if (event.logs.length > 0) {
+            const lastLog = event.logs[event.logs.length - 1];
+            setResult(prev => ({ ...prev, progress: { ...prev.progress, currentStep: lastLog.message } }));
+          }
+          break;
+        case 'session':
+          applySession(event.session);
+          break;
+        case 'log':
+          setLogs(prev => [...prev, event.log]);
+          setResult(prev => ({
+            ...prev,
+            progress: { ...prev.progress, currentStep: event.log.message },
+            lastUpdated: new Date()
+          }));
+          break;
+        case 'chapter': {
+          // 按已完成章节的平均耗时估算剩余时间
+          const startedAt = analyzeStartedAt.current ?? Date.now();
+          const elapsed = (Date.now() - startedAt) / 1000;
+          const remaining = event.total - event.completed;
+
+          setResult(prev => {
+            const chapters = [...(prev.chapters || [])];
+            chapters[event.chapterIndex] = event.result;
+            return {
+              ...prev,
+              chapters,
+              progress: {
+                ...prev.progress,
+                overall: ANALYZE_PROGRESS_START + (100 - ANALYZE_PROGRESS_START) * event.completed / event.total,
+                currentStep: `已分析 ${event.completed}/${event.total} 个章节: ${event.result.chapter_title}`,
+                estimatedTime: remaining > 0 ? Math.round(elapsed / event.completed * remaining) : 0
+              },
+              lastUpdated: new Date()
+            };
+          });
+          break;
+        }
+      }
+    };
+
+    const unsubscribe = apiService.subscribeSessionEvents(result.fileId, handleEvent);
+    return unsubscribe;
   }, [autoRefresh, result.fileId]);
 
   // 获取当前JSON结果数据
@@ -72,7 +163,7 @@ const RealTimeResult: React.FC = () => {
       book_info: result.progress.modules.parse ? (result.bookInfo || "解析中...") : "待处理",
       cover_info: result.progress.modules.parse ? (result.coverInfo || "解析中...") : "待处理",
       table_of_contents: result.progress.modules.parse ? (result.tableOfContents || "解析中...") : "待处理",
-      chapters: result.progress.modules.analyze ? (result.chapters || "分析中...") : result.progress.modules.split ? "已拆分，待分析" : "待处理",
+      chapters: result.progress.modules.analyze || result.chapters?.some(Boolean) ? (result.chapters || "分析中...") : result.progress.modules.split ? "已拆分，待分析" : "待处理",
       book_summary: result.progress.modules.summary ? (result.bookSummary || "生成中...") : "待处理"
     };
 
@@ -297,7 +388,8 @@ const RealTimeResult: React.FC = () => {
                   {[
                     { key: 'progress', label: '进度信息', data: result.progress },
                     { key: 'bookInfo', label: '书籍信息', data: generateCurrentJSON().book_info },
-                    { key: 'chapters', label: '章节数据', data: generateCurrentJSON().chapters }
+                    { key: 'chapters', label: '章节数据', data: generateCurrentJSON().chapters },
+                    { key: 'logs', label: '操作日志', data: logs.map(log => `[${new Date(log.timestamp).toLocaleTimeString()}] ${log.operation}: ${log.message}`).join('\n') || '暂无日志' }
                   ].map(({ key, label, data }) => (
                     <div key={key} className="border-b border-gray-200 last:border-b-0">
                       <button
@@ -1,6 +1,6 @@
 // 前端API服务
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
-import { BookParseSession, OperationLog, ParseResult, ChapterAnalysisResult, BookSummary } from '../types/book';
+import { BookParseSession, OperationLog, ParseResult, ChapterAnalysisResult, BookSummary, SessionEvent, Job, PromptTemplate, OutputLanguageOption } from '../types/book';
 import { configService, AIConfig } from './configService';
 
 // API响应类型
@@ -30,6 +30,47 @@ interface StorageStats {
   newestSession: string | null;
 }
 
+// 用量预估类型
+interface UsageEstimate {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number | null;
+  currency: string | null;
+}
+
+interface AnalysisEstimate {
+  analysisType: string;
+  chapters: Array<UsageEstimate & { index: number; title: string; chunks: number }>;
+  summary: UsageEstimate | null;
+  total: {
+    requests: number;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    costByCurrency: Record<string, number>;
+    unpricedModels: string[];
+  };
+}
+
+// 按json_template.txt导出的结果及校验报告
+export interface TemplateExport {
+  content: Record<string, unknown>;
+  validation: {
+    valid: boolean;
+    missingFields: string[];
+    errors: string[];
+  };
+}
+
+// 本地服务上发现的模型
+export interface DiscoveredModel {
+  id: string;
+  contextWindow?: number;
+  size?: number;
+}
+
 class ApiService {
   private client: AxiosInstance;
   private baseURL: string;
@@ -75,9 +116,18 @@ class ApiService {
         console.log(`API响应: ${response.config.url} - ${response.data.success ? '成功' : '失败'}`);
         return response;
       },
-      (error) => {
+      async (error) => {
         console.error('API响应错误:', error);
         
+        // 下载文件的请求出错时，错误信息在Blob中
+        if (error.response?.data instanceof Blob) {
+          try {
+            error.response.data = JSON.parse(await error.response.data.text());
+          } catch {
+            // 不是JSON格式的错误信息
+          }
+        }
+
         // 处理不同类型的错误
         let message = '网络错误';
         if (error.code === 'ECONNABORTED' || error.message.includes('timeout')) {
@@ -161,12 +211,14 @@ class ApiService {
    */
   async splitChapters(
     fileId: string,
-    level: number = 1
+    level: number = 1,
+    structured: boolean = false,
+    skipNonBody: boolean = false
   ): Promise<{ session: BookParseSession; chapters: any[]; stats: any }> {
     try {
       const response = await this.client.post<ApiResponse<{ session: BookParseSession; chapters: any[]; stats: any }>>(
         `/api/books/${fileId}/split`,
-        { level }
+        { level, structured, skipNonBody }
       );
 
       if (!response.data.success || !response.data.data) {
@@ -186,7 +238,9 @@ class ApiService {
   async analyzeChapters(
     fileId: string,
     chapterIndexes?: number[],
-    analysisType: 'basic' | 'detailed' | 'full' = 'full'
+    analysisType: 'basic' | 'detailed' | 'full' = 'full',
+    resume: boolean = false,
+    outputLanguage?: OutputLanguageOption
   ): Promise<{ session: BookParseSession; analysisResults: ChapterAnalysisResult[]; bookSummary: BookSummary }> {
     try {
       // 检查AI配置
@@ -200,7 +254,7 @@ class ApiService {
         bookSummary: BookSummary 
       }>>(
         `/api/books/${fileId}/analyze`,
-        { chapterIndexes, analysisType }
+        { chapterIndexes, analysisType, resume, outputLanguage }
       );
 
       if (!response.data.success || !response.data.data) {
@@ -214,10 +268,36 @@ class ApiService {
     }
   }
 
+  /**
+   * 预估AI分析的token用量和费用
+   */
+  async estimateAnalysis(
+    fileId: string,
+    chapterIndexes?: number[],
+    analysisType: 'basic' | 'detailed' | 'full' = 'full',
+    resume: boolean = false
+  ): Promise<AnalysisEstimate> {
+    try {
+      const response = await this.client.post<ApiResponse<AnalysisEstimate>>(
+        `/api/books/${fileId}/estimate`,
+        { chapterIndexes, analysisType, resume }
+      );
+
+      if (!response.data.success || !response.data.data) {
+        throw new Error(response.data.message || '用量预估失败');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('用量预估失败:', error);
+      throw error;
+    }
+  }
+
   /**
    * 生成书籍总结
    */
-  async generateBookSummary(fileId: string): Promise<{ session: BookParseSession; bookSummary: BookSummary }> {
+  async generateBookSummary(fileId: string, outputLanguage?: OutputLanguageOption): Promise<{ session: BookParseSession; bookSummary: BookSummary }> {
     try {
       // 检查AI配置
       if (!configService.isConfigValid()) {
@@ -225,7 +305,8 @@ class ApiService {
       }
       
       const response = await this.client.post<ApiResponse<{ session: BookParseSession; bookSummary: BookSummary }>>(
-        `/api/books/${fileId}/generate-summary`
+        `/api/books/${fileId}/generate-summary`,
+        { outputLanguage }
       );
 
       if (!response.data.success || !response.data.data) {
@@ -239,6 +320,79 @@ class ApiService {
     }
   }
 
+  /**
+   * 按json_template.txt导出书籍分析结果，同时返回缺失字段的校验报告
+   */
+  async exportTemplate(fileId: string): Promise<TemplateExport> {
+    try {
+      const response = await this.client.get<ApiResponse<TemplateExport>>(
+        `/api/books/${fileId}/export`,
+        { params: { format: 'template' } }
+      );
+
+      if (!response.data.success || !response.data.data) {
+        throw new Error(response.data.message || '导出失败');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('导出失败:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 下载Markdown文档、Obsidian库（ZIP）或PDF报告
+   */
+  async downloadExport(fileId: string, format: 'markdown' | 'obsidian' | 'pdf'): Promise<Blob> {
+    try {
+      const response = await this.client.get<Blob>(`/api/books/${fileId}/export`, {
+        params: { format },
+        responseType: 'blob'
+      });
+      return response.data;
+    } catch (error) {
+      console.error('导出失败:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取文件的后台任务列表
+   */
+  async getJobs(fileId: string): Promise<Job[]> {
+    try {
+      const response = await this.client.get<ApiResponse<Job[]>>(`/api/books/${fileId}/jobs`);
+
+      if (!response.data.success || !response.data.data) {
+        throw new Error(response.data.message || '获取任务列表失败');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('获取任务列表失败:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 取消、暂停、继续或重试后台任务
+   */
+  async controlJob(jobId: string, action: 'cancel' | 'pause' | 'resume' | 'retry'): Promise<Job> {
+    try {
+      const response = await this.client.post<ApiResponse<Job>>(`/api/books/jobs/${jobId}/${action}`);
+
+      if (!response.data.success || !response.data.data) {
+        throw new Error(response.data.message || '任务操作失败');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('任务操作失败:', error);
+      throw error;
+    }
+  }
+
   /**
    * 获取解析会话信息
    */
@@ -346,6 +500,36 @@ class ApiService {
     }
   }
 
+  /**
+   * 订阅会话实时事件（Server-Sent Events），连接断开后浏览器会自动重连，
+   * 重连时服务端会重新推送snapshot事件
+   * @returns 关闭连接的函数
+   */
+  subscribeSessionEvents(
+    fileId: string,
+    onEvent: (event: SessionEvent) => void,
+    onError?: (error: Event) => void
+  ): () => void {
+    const source = new EventSource(`${this.baseURL}/api/books/${fileId}/events`);
+
+    for (const type of ['snapshot', 'session', 'log', 'chapter', 'job'] as const) {
+      source.addEventListener(type, (message: MessageEvent) => {
+        try {
+          onEvent(JSON.parse(message.data));
+        } catch (error) {
+          console.error('解析实时事件失败:', error);
+        }
+      });
+    }
+
+    source.onerror = (error) => {
+      console.warn('实时事件连接中断，等待自动重连:', error);
+      onError?.(error);
+    };
+
+    return () => source.close();
+  }
+
   /**
    * 轮询会话状态
    */
@@ -390,7 +574,7 @@ class ApiService {
     try {
       const testConfig = config || configService.getCurrentConfig();
       
-      if (!testConfig.apiKey) {
+      if (!testConfig.apiKey && configService.requiresApiKey(testConfig.provider)) {
         throw new Error('API密钥未配置');
       }
       
@@ -409,6 +593,101 @@ class ApiService {
     }
   }
 
+  /**
+   * 获取本地模型服务上已安装的模型及其上下文长度
+   */
+  async discoverModels(config: AIConfig): Promise<DiscoveredModel[]> {
+    try {
+      const response = await this.client.post<ApiResponse<DiscoveredModel[]>>('/api/ai/models', {
+        provider: config.provider,
+        baseURL: config.baseURL,
+        apiKey: config.apiKey
+      });
+
+      if (!response.data.success || !response.data.data) {
+        throw new Error(response.data.message || '获取模型列表失败');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('获取模型列表失败:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取提示词模板列表及各类模板可用的变量
+   */
+  async getPromptTemplates(kind?: PromptTemplate['kind']): Promise<{ templates: PromptTemplate[]; variables: Record<PromptTemplate['kind'], Record<string, string>> }> {
+    try {
+      const response = await this.client.get<ApiResponse<{ templates: PromptTemplate[]; variables: Record<PromptTemplate['kind'], Record<string, string>> }>>(
+        '/api/prompts',
+        { params: kind ? { kind } : {} }
+      );
+
+      if (!response.data.success || !response.data.data) {
+        throw new Error(response.data.message || '获取提示词模板失败');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('获取提示词模板失败:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 创建提示词模板
+   */
+  async createPromptTemplate(template: Pick<PromptTemplate, 'name' | 'kind' | 'content' | 'description'>): Promise<PromptTemplate> {
+    try {
+      const response = await this.client.post<ApiResponse<PromptTemplate>>('/api/prompts', template);
+
+      if (!response.data.success || !response.data.data) {
+        throw new Error(response.data.message || '创建提示词模板失败');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('创建提示词模板失败:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 修改提示词模板
+   */
+  async updatePromptTemplate(id: string, updates: Partial<Pick<PromptTemplate, 'name' | 'content' | 'description'>>): Promise<PromptTemplate> {
+    try {
+      const response = await this.client.put<ApiResponse<PromptTemplate>>(`/api/prompts/${id}`, updates);
+
+      if (!response.data.success || !response.data.data) {
+        throw new Error(response.data.message || '修改提示词模板失败');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('修改提示词模板失败:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 删除提示词模板
+   */
+  async deletePromptTemplate(id: string): Promise<void> {
+    try {
+      const response = await this.client.delete<ApiResponse>(`/api/prompts/${id}`);
+
+      if (!response.data.success) {
+        throw new Error(response.data.message || '删除提示词模板失败');
+      }
+    } catch (error) {
+      console.error('删除提示词模板失败:', error);
+      throw error;
+    }
+  }
+
   /**
    * 获取当前AI配置
    */
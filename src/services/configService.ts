@@ -1,11 +1,11 @@
 /**
  * AI配置管理服务
- * 负责管理DeepSeek、Kimi、OpenAI等AI模型的配置信息
+ * 负责管理DeepSeek、Kimi、OpenAI及Ollama等本地模型的配置信息
  * 配置信息保存在浏览器localStorage中
  */
 
 // AI提供商类型
-export type AIProvider = 'deepseek' | 'kimi' | 'openai';
+export type AIProvider = 'deepseek' | 'kimi' | 'openai' | 'anthropic' | 'gemini' | 'qwen' | 'zhipu' | 'ollama' | 'custom-openai-compatible';
 
 // AI配置接口
 export interface AIConfig {
@@ -17,8 +17,17 @@ export interface AIConfig {
   temperature: number;
   maxRetries: number;
   retryDelay: number;
+  concurrency?: number; // 同时进行的请求数，未设置时使用提供商默认值
+  requestsPerMinute?: number; // 每分钟请求数上限，0表示不限制
+  tokensPerMinute?: number; // 每分钟Token数上限，0表示不限制
+  responseFormat?: 'json_schema' | 'json_object' | 'text'; // 结构化输出方式，未设置时按提供商和模型选择
+  contextWindow?: number; // 模型上下文长度（token），未设置时按模型名推断
+  promptTemplates?: Partial<Record<'basic' | 'detailed' | 'full' | 'summary', string>>; // 各分析类型及书籍总结使用的提示词模板id，未设置时使用内置模板
 }
 
+// 本地模型提供商：不需要API密钥，支持获取已安装的模型
+export const LOCAL_PROVIDERS: AIProvider[] = ['ollama', 'custom-openai-compatible'];
+
 // 预设配置
 const DEFAULT_CONFIGS: Record<AIProvider, Omit<AIConfig, 'apiKey'>> = {
   deepseek: {
@@ -47,6 +56,60 @@ const DEFAULT_CONFIGS: Record<AIProvider, Omit<AIConfig, 'apiKey'>> = {
     temperature: 0.7,
     maxRetries: 3,
     retryDelay: 5
+  },
+  anthropic: {
+    provider: 'anthropic',
+    baseURL: 'https://api.anthropic.com/v1',
+    model: 'claude-3-5-haiku-latest',
+    maxTokens: 4000,
+    temperature: 0.7,
+    maxRetries: 3,
+    retryDelay: 5
+  },
+  gemini: {
+    provider: 'gemini',
+    baseURL: 'https://generativelanguage.googleapis.com/v1beta/openai',
+    model: 'gemini-2.0-flash',
+    maxTokens: 4000,
+    temperature: 0.7,
+    maxRetries: 3,
+    retryDelay: 5
+  },
+  qwen: {
+    provider: 'qwen',
+    baseURL: 'https://dashscope.aliyuncs.com/compatible-mode/v1',
+    model: 'qwen-plus',
+    maxTokens: 4000,
+    temperature: 0.7,
+    maxRetries: 3,
+    retryDelay: 5
+  },
+  zhipu: {
+    provider: 'zhipu',
+    baseURL: 'https://open.bigmodel.cn/api/paas/v4',
+    model: 'glm-4-flash',
+    maxTokens: 4000,
+    temperature: 0.7,
+    maxRetries: 3,
+    retryDelay: 5
+  },
+  ollama: {
+    provider: 'ollama',
+    baseURL: 'http://localhost:11434/v1',
+    model: 'qwen2.5:7b',
+    maxTokens: 4000,
+    temperature: 0.7,
+    maxRetries: 3,
+    retryDelay: 5
+  },
+  'custom-openai-compatible': {
+    provider: 'custom-openai-compatible',
+    baseURL: 'http://localhost:8080/v1',
+    model: 'local-model',
+    maxTokens: 4000,
+    temperature: 0.7,
+    maxRetries: 3,
+    retryDelay: 5
   }
 };
 
@@ -77,7 +140,7 @@ class ConfigService {
     const savedConfigs = this.getAllConfigs();
     const savedConfig = savedConfigs[provider];
     
-    if (savedConfig && savedConfig.apiKey) {
+    if (savedConfig && (savedConfig.apiKey || !this.requiresApiKey(provider))) {
       return savedConfig;
     }
     
@@ -132,18 +195,22 @@ class ConfigService {
   isConfigValid(provider?: AIProvider): boolean {
     const targetProvider = provider || this.getCurrentProvider();
     const config = this.getConfig(targetProvider);
-    return !!(config.apiKey && config.baseURL && config.model);
+    return !!((config.apiKey || !this.requiresApiKey(targetProvider)) && config.baseURL && config.model);
+  }
+
+  /**
+   * 提供商是否需要API密钥（本地模型不需要）
+   */
+  requiresApiKey(provider: AIProvider): boolean {
+    return !LOCAL_PROVIDERS.includes(provider);
   }
 
   /**
    * 获取所有提供商的配置状态
    */
   getConfigStatus(): Record<AIProvider, boolean> {
-    return {
-      deepseek: this.isConfigValid('deepseek'),
-      kimi: this.isConfigValid('kimi'),
-      openai: this.isConfigValid('openai')
-    };
+    const providers = Object.keys(DEFAULT_CONFIGS) as AIProvider[];
+    return Object.fromEntries(providers.map(provider => [provider, this.isConfigValid(provider)])) as Record<AIProvider, boolean>;
   }
 
   /**
@@ -21,15 +21,52 @@ export interface CoverInfo {
   height?: number;
 }
 
+// 目录项/章节在书中的角色，前置辅文（版权页、献词等）和后置辅文（致谢、索引等）可在拆分时跳过
+export type ChapterRole =
+  | 'cover' | 'titlepage' | 'copyright' | 'dedication' | 'epigraph' | 'toc'
+  | 'foreword' | 'preface' | 'introduction' | 'prologue'
+  | 'body'
+  | 'epilogue' | 'afterword' | 'appendix' | 'acknowledgements' | 'bibliography'
+  | 'glossary' | 'index' | 'endnotes' | 'about-author' | 'colophon';
+
 // 目录项
 export interface TableOfContentsItem {
   id: string;
   title: string;
   level: number;
   href?: string;
+  role?: ChapterRole; // 前后辅文分类结果
   children?: TableOfContentsItem[];
 }
 
+// 结构化章节内容块类型
+export type ChapterBlockType = 'paragraph' | 'heading' | 'list' | 'quote' | 'footnote' | 'image' | 'table';
+
+// 结构化章节内容块
+export interface ChapterBlock {
+  type: ChapterBlockType;
+  text: string; // 块的纯文本，列表和表格为各项拼接后的文本
+  level?: number; // 标题级别（h1-h6）
+  ordered?: boolean; // 是否为有序列表
+  items?: string[]; // 列表项
+  rows?: string[][]; // 表格行
+  src?: string; // 图片路径
+  alt?: string; // 图片说明
+  id?: string; // 元素id，脚注可据此与引用关联
+  source: {
+    href: string; // 来源文件（EPUB为ZIP内路径，其他格式为目录项href）
+    start: number; // 在来源文本中的起始偏移
+    end: number; // 在来源文本中的结束偏移
+  };
+}
+
+// 章节注释（脚注或尾注）
+export interface ChapterNote {
+  id: string; // 注释地址（文件路径#锚点）
+  marker: string; // 正文中的引用标记，未被引用的内嵌注释为空
+  text: string; // 注释正文
+}
+
 // 章节内容
 export interface ChapterContent {
   index: number;
@@ -37,36 +74,47 @@ export interface ChapterContent {
   content: string;
   wordCount: number;
   level: number;
+  blocks?: ChapterBlock[]; // 可选的结构化内容，拆分时指定structured才会生成
+  notes?: ChapterNote[]; // 章节中引用的脚注和尾注，不计入正文和字数
+  role?: ChapterRole; // 章节角色，来自对应目录项
+}
+
+// 引用类型
+export type CitedType = '书籍' | '文章' | '故事' | '权威观点';
+
+// 引用信息
+export interface Citation {
+  cited_source: string;
+  cited_type: CitedType;
+  viewpoint: string;
 }
 
 // 论据信息
-export interface ArgumentInfo {
-  point: string;
-  evidence: string;
-  strength: 'strong' | 'medium' | 'weak';
+export interface Argument {
+  statement: string;
+  positive_case: string[];
+  negative_case: string[];
+  citations: Citation[];
 }
 
-// 引用信息
-export interface QuoteInfo {
-  text: string;
-  context: string;
-  significance: string;
+// 章节分析（符合json_template.txt中的chapters结构）
+export interface Chapter {
+  chapter_title: string;
+  chapter_viewpoint: string;
+  chapter_keywords: string[];
+  arguments: Argument[];
 }
 
-// 章节分析结果
-export interface ChapterAnalysisResult {
+// 章节分析结果：JSON模板中的章节字段加上分析的元数据
+export interface ChapterAnalysisResult extends Chapter {
+  schemaVersion: number; // 分析结果的格式版本
   chapterIndex: number;
-  chapterTitle: string;
-  summary: string;
-  keyPoints: string[];
-  arguments: ArgumentInfo[];
-  quotes: QuoteInfo[];
-  themes: string[];
-  emotions: string[];
-  characters: string[];
-  locations: string[];
   wordCount: number;
   analysisDate: Date;
+  failed?: boolean; // 模型的回复无法解析，结果为占位内容
+  promptTemplateId?: string; // 使用的提示词模板
+  promptTemplateVersion?: number; // 提示词模板的版本
+  outputLanguage?: OutputLanguage; // 分析结果的语言
 }
 
 // 书籍总结（匹配json_template.txt中的book_summary结构）
@@ -79,6 +127,9 @@ export interface BookSummary {
   core_keywords: { [key: string]: string }; // 关键词列表，作者在书中提出的或者引用的核心概念或者关键词及其含义；dict类型
   tags: string[]; // 给这本书贴10个最合适的标签，list类型
   generatedDate: Date; // 生成日期
+  promptTemplateId?: string; // 使用的提示词模板
+  promptTemplateVersion?: number; // 提示词模板的版本
+  outputLanguage?: OutputLanguage; // 总结的语言
   
   // 保留原有字段以兼容现有代码
   overview?: string;
@@ -130,6 +181,32 @@ export interface OperationLog {
   details?: any;
 }
 
+// 会话实时事件（通过SSE推送）
+export type SessionEvent =
+  | { type: 'snapshot'; session: BookParseSession; logs: OperationLog[] }
+  | { type: 'session'; session: BookParseSession }
+  | { type: 'log'; log: OperationLog }
+  | { type: 'chapter'; chapterIndex: number; completed: number; total: number; result: ChapterAnalysisResult }
+  | { type: 'job'; job: Job };
+
+// 后台任务
+export interface Job {
+  id: string;
+  fileId: string;
+  type: 'parse' | 'split' | 'analyze';
+  status: 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+  params: Record<string, unknown>;
+  progress: number;
+  message?: string;
+  attempts: number;
+  result?: unknown;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
 // 进度状态
 export interface ProgressStatus {
   current: number;
@@ -144,14 +221,22 @@ export interface BookParseSession {
   id: string;
   filename: string;
   filepath: string;
-  status: 'uploaded' | 'parsed' | 'split' | 'analyzed' | 'completed';
+  status: 'uploading' | 'uploaded' | 'parsing' | 'parsed' | 'splitting' | 'split' | 'analyzing' | 'analyzed' | 'completed' | 'error';
   progress: number;
   createdAt: Date;
   updatedAt: Date;
   parseResult?: ParseResult;
+  chapterStatuses?: ChapterAnalysisState[]; // 按章节索引记录的分析状态
   error?: string;
 }
 
+// 章节分析状态
+export interface ChapterAnalysisState {
+  status: 'pending' | 'done' | 'failed';
+  error?: string;
+  updatedAt?: Date;
+}
+
 // 历史记录项
 export interface HistoryRecord {
   id: string;
@@ -190,7 +275,7 @@ export interface SearchFilters {
 export type BatchOperation = 'delete' | 'export' | 'reanalyze';
 
 // 导出格式
-export type ExportFormat = 'json' | 'csv' | 'pdf' | 'markdown';
+export type ExportFormat = 'json' | 'csv' | 'pdf' | 'markdown' | 'obsidian';
 
 // 分析类型
 export type AnalysisType = 'basic' | 'detailed' | 'full';
@@ -266,4 +351,21 @@ export interface NotificationMessage {
     label: string;
     action: () => void;
   }[];
-}
\ No newline at end of file
+}
+
+// 分析结果的输出语言，auto表示跟随书籍语言
+export type OutputLanguage = 'zh' | 'en' | 'ja' | 'ko' | 'fr' | 'de' | 'es' | 'ru';
+export type OutputLanguageOption = OutputLanguage | 'auto';
+
+// 提示词模板
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  kind: 'chapterAnalysis' | 'bookSummary';
+  content: string;
+  builtin: boolean;
+  version: number;
+  createdAt: Date;
+  updatedAt: Date;
+}